@@ -1,20 +1,30 @@
 
 "use client";
 
-import { useState, useMemo, useEffect } from 'react';
-import type { Task, RawTask } from '@/lib/types';
+import { Fragment, useState, useMemo, useEffect } from 'react';
+import type { Task, RawTask, ImportedProject, WorkCalendar, Resource, LevelingOptions, ScheduleMode, Schedule, Baseline, ProjectPlan, Scenario, PlainDate, Recurrence } from '@/lib/types';
 import CsvUploader from '@/components/gantt/csv-uploader';
 import ManualTaskEntry from '@/components/gantt/manual-task-entry';
 import GanttChart from '@/components/gantt/gantt-chart';
+import WorkCalendarEditor from '@/components/gantt/work-calendar-editor';
+import ResourceManager from '@/components/gantt/resource-manager';
+import LevelingSettings from '@/components/gantt/leveling-settings';
+import ScheduleModeSettings from '@/components/gantt/schedule-mode-settings';
+import BaselineManager from '@/components/gantt/baseline-manager';
+import EarnedValueCard from '@/components/gantt/earned-value-card';
+import CostCard from '@/components/gantt/cost-card';
+import RiskAnalysisPanel from '@/components/gantt/risk-analysis-panel';
+import ScenarioManager from '@/components/gantt/scenario-manager';
+import TaskSeriesDialog from '@/components/gantt/task-series-dialog';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
-import { GanttChartSquare, Upload, Download, User, Calendar as CalendarIcon, Briefcase, CheckCircle, Clock, Plus, Settings } from 'lucide-react';
+import { GanttChartSquare, Upload, Download, User, Users, Calendar as CalendarIcon, AlertTriangle, Briefcase, CheckCircle, Clock, Coins, Plus, Settings, Flag, Layers, Dices, GitBranch } from 'lucide-react';
 import { Sheet, SheetContent, SheetHeader, SheetTitle, SheetTrigger, SheetDescription } from '@/components/ui/sheet';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger, DialogFooter } from '@/components/ui/dialog';
 import { Button } from '@/components/ui/button';
-import { format, min as dateMin, max as dateMax, eachDayOfInterval, getDay, isBefore, getYear } from 'date-fns';
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
 import { Calendar } from "@/components/ui/calendar";
 import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Input } from '@/components/ui/input';
 import {
   Table,
@@ -24,84 +34,146 @@ import {
   TableHeader,
   TableRow,
 } from "@/components/ui/table";
-import { processTasks } from '@/lib/task-utils';
+import { changeTaskId, createUniqueId, formatDependencies, isMilestone, resolveTaskReferences } from '@/lib/task-utils';
+import { DEFAULT_WORK_CALENDAR, differenceInWorkingDays, formatCalendarDirectives } from '@/lib/calendar';
+import { formatAssignments, formatResourceDirectives, getAssignedResources } from '@/lib/resources';
+import { PROJECT_TOTAL, type ResourceSummary } from '@/lib/summary';
+import { DEFAULT_LEVELING_OPTIONS, formatLevelingDirective } from '@/lib/leveling';
+import { DEFAULT_SCHEDULE_MODE, formatScheduleModeDirective, isBackward } from '@/lib/schedule-mode';
+import { formatDuration, getDurationUnit } from '@/lib/elapsed';
+import { escapeCsvValue } from '@/lib/csv-utils';
+import { comparePlainDates, formatPlainDate, maxPlainDate, toLocalDate, toPlainDate, today } from '@/lib/plain-date';
+import { createBaseline, formatBaselineDirectives, formatVariance, renameBaselineTask } from '@/lib/baselines';
+import { getPercentComplete, hasProgress, type TaskProgress } from '@/lib/progress';
+import { formatAmount, hasBudget, type EarnedValueReport, type TaskBudget } from '@/lib/earned-value';
+import { formatBudgetDirective, hasCosts, type CostReport } from '@/lib/costs';
+import { hasEstimate } from '@/lib/risk-analysis';
+import { MAIN_SCENARIO, createScenario } from '@/lib/scenarios';
+import { detachOccurrence, formatRecurrence } from '@/lib/recurrence';
+import { formatInterruptions } from '@/lib/interruptions';
+import { editEffort, type TaskEffort } from '@/lib/effort';
+import { CircularDependencyError } from '@/lib/topology';
+import { cn } from '@/lib/utils';
 import { useToast } from '@/hooks/use-toast';
+import { useScheduleWorker } from '@/hooks/use-schedule-worker';
 
 
-interface ResourceSummary {
-  startDate: Date;
-  endDate: Date;
-  totalWorkingDays: number;
-  completedWorkingDays: number;
+interface ExportColumn {
+  header: string;
+  value: (task: Task) => string | number;
 }
 
-const getWorkingDays = (start: Date, end: Date) => {
-  if (isBefore(end, start)) return 0;
-  const days = eachDayOfInterval({ start, end });
-  return days.filter(day => {
-    const dayOfWeek = getDay(day);
-    return dayOfWeek !== 0 && dayOfWeek !== 6;
-  }).length;
-};
+// Part-time assignments give fractional working days, shown to one decimal place
+const formatWorkingDays = (days: number) => Math.round(days * 10) / 10;
+
+const EMPTY_SCHEDULE: Schedule = { tasks: [], unleveledTasks: new Map() };
+const EMPTY_PLAN: ProjectPlan = { rawTasks: [], calendar: DEFAULT_WORK_CALENDAR, resources: [], leveling: DEFAULT_LEVELING_OPTIONS, mode: DEFAULT_SCHEDULE_MODE };
 
 export default function Home() {
-  const [tasks, setTasks] = useState<Task[]>([]);
+  const [schedule, setSchedule] = useState<Schedule>(EMPTY_SCHEDULE); // Kept whole so edits can be rescheduled incrementally
+  const [rawTasks, setRawTasks] = useState<RawTask[]>([]); // Unscheduled input, kept so changes can be rescheduled
+  const [cycleTaskIds, setCycleTaskIds] = useState<string[]>([]); // Loop found by the last failed reschedule, highlighted on the chart
+  const [calendar, setCalendar] = useState<WorkCalendar>(DEFAULT_WORK_CALENDAR);
+  const [resources, setResources] = useState<Resource[]>([]);
+  const [leveling, setLeveling] = useState<LevelingOptions>(DEFAULT_LEVELING_OPTIONS);
+  const [mode, setMode] = useState<ScheduleMode>(DEFAULT_SCHEDULE_MODE);
+  const [baselines, setBaselines] = useState<Baseline[]>([]);
+  const [activeBaselineName, setActiveBaselineName] = useState<string | undefined>(); // Baseline the chart and summary compare against
+  const [scenarios, setScenarios] = useState<Scenario[]>(() => [createScenario(MAIN_SCENARIO, EMPTY_PLAN)]); // The active one's plan is only copied back when switching away
+  const [activeScenarioName, setActiveScenarioName] = useState(MAIN_SCENARIO); // Scenario the plan state below belongs to
   const [projectName, setProjectName] = useState('Ganttify');
+  const [projectBudget, setProjectBudget] = useState<number | undefined>();
   const [key, setKey] = useState(Date.now()); // To re-render chart on new upload
   const [isUploaderOpen, setIsUploaderOpen] = useState(false);
   const [isManualEntryOpen, setIsManualEntryOpen] = useState(false);
   const [isSettingsOpen, setIsSettingsOpen] = useState(false);
-  const [currentDate, setCurrentDate] = useState<Date | null>(null);
+  const [isResourcesOpen, setIsResourcesOpen] = useState(false);
+  const [isBaselinesOpen, setIsBaselinesOpen] = useState(false);
+  const [isRiskAnalysisOpen, setIsRiskAnalysisOpen] = useState(false);
+  const [isScenariosOpen, setIsScenariosOpen] = useState(false);
+  const [editingSeriesId, setEditingSeriesId] = useState<string | undefined>(); // Recurring task whose series is being edited
+  const [currentDate, setCurrentDate] = useState<PlainDate | null>(null);
   const [tempProjectName, setTempProjectName] = useState(projectName);
+  const [tempBudget, setTempBudget] = useState(''); // As typed; validated on save
+  const [tempCalendar, setTempCalendar] = useState<WorkCalendar>(calendar);
+  const [tempLeveling, setTempLeveling] = useState<LevelingOptions>(leveling);
+  const [tempMode, setTempMode] = useState<ScheduleMode>(mode);
+  const [resourceSummary, setResourceSummary] = useState<[string, ResourceSummary][] | null>(null);
+  const [earnedValue, setEarnedValue] = useState<EarnedValueReport | null>(null);
+  const [costReport, setCostReport] = useState<CostReport | null>(null);
   const { toast } = useToast();
+  // Scheduling and summaries run in a worker so large projects do not freeze the page
+  const scheduleWorker = useScheduleWorker();
+  const tasks = schedule.tasks;
+  const activeBaseline = baselines.find(b => b.name === activeBaselineName);
+  const showCosts = hasCosts(tasks, resources);
+  const projectFinish = tasks.length > 0 ? maxPlainDate(tasks.map(t => t.endDate)) : undefined;
+  // Stable between renders so the risk analysis keeps its results until the plan changes
+  const scheduleOptions = useMemo(() => ({ calendar, resources, leveling, mode }), [calendar, resources, leveling, mode]);
+  // Scenarios with the active one's plan as it stands now, for comparing and for keeping its edits when switching away
+  const currentScenarios = useMemo(() => {
+    const currentPlan: ProjectPlan = { rawTasks, ...scheduleOptions };
+    return scenarios.map(s => s.name === activeScenarioName ? { ...s, plan: currentPlan } : s);
+  }, [scenarios, activeScenarioName, rawTasks, scheduleOptions]);
 
   useEffect(() => {
     // Set current date on client-side to avoid hydration mismatch
-    setCurrentDate(new Date());
+    setCurrentDate(today());
   }, []);
 
   useEffect(() => {
     setTempProjectName(projectName);
-  }, [projectName, isSettingsOpen]);
+    setTempBudget(projectBudget !== undefined ? String(projectBudget) : '');
+    setTempCalendar(calendar);
+    setTempLeveling(leveling);
+    setTempMode(mode);
+  }, [projectName, projectBudget, calendar, leveling, mode, isSettingsOpen]);
 
-  const handleDataUploaded = (newTasks: Task[], name: string) => {
-    setTasks(newTasks);
+  const handleDataUploaded = (project: ImportedProject, name: string) => {
+    setSchedule(project.schedule);
+    setCycleTaskIds([]);
+    setRawTasks(project.rawTasks);
+    setCalendar(project.calendar);
+    setResources(project.resources);
+    setLeveling(project.leveling);
+    setMode(project.mode);
+    setBaselines(project.baselines);
+    setActiveBaselineName(project.baselines[project.baselines.length - 1]?.name); // The latest baseline is shown
+    setScenarios([createScenario(MAIN_SCENARIO, { rawTasks: project.rawTasks, calendar: project.calendar, resources: project.resources, leveling: project.leveling, mode: project.mode })]);
+    setActiveScenarioName(MAIN_SCENARIO);
     setProjectName(name);
+    setProjectBudget(project.budget);
     setKey(Date.now()); // Force re-mount of GanttChart to reset its internal state
     setIsUploaderOpen(false); // Close sheet on successful upload
   };
   
-  const handleAddTasks = (newTasks: RawTask[]) => {
-    const existingRawTasks: RawTask[] = tasks.map(t => ({
-      id: t.id,
-      title: t.title,
-      startDate: t.startDate,
-      workingDuration: t.workingDuration,
-      dependencies: t.dependencies,
-      resource: t.resource,
-    }));
-
-    const combinedRawTasks = [...existingRawTasks, ...newTasks];
-
+  const handleAddTasks = async (newTasks: RawTask[]) => {
     try {
-      // Check for duplicate task titles which are used as IDs for dependencies
-      const titles = new Set<string>();
-      for (const task of combinedRawTasks) {
-        if (titles.has(task.title)) {
-          throw new Error(`Duplicate task title found: "${task.title}". Task titles must be unique to be used for dependencies.`);
-        }
-        titles.add(task.title);
-      }
-
-      const reprocessedTasks = processTasks(combinedRawTasks);
-      setTasks(reprocessedTasks);
-      setKey(Date.now());
+      // New tasks get ids of their own, so titles may repeat. Their references resolve to ids,
+      // falling back to titles as typed in the manual entry worksheet.
+      const takenIds = new Set(rawTasks.map(t => t.id));
+      const uniqueNewTasks = newTasks.map(task => {
+        const id = createUniqueId(task.id, takenIds);
+        takenIds.add(id);
+        return { ...task, id };
+      });
+      const combinedRawTasks = resolveTaskReferences([...rawTasks, ...uniqueNewTasks]);
+
+      // Only the new tasks and what they push back are rescheduled; the chart updates in place,
+      // keeping its scroll position, zoom and collapsed rows
+      const newIds = new Set(uniqueNewTasks.map(t => t.id));
+      const { schedule: updatedSchedule, changedTasks } = await scheduleWorker.reschedule(schedule, combinedRawTasks, Array.from(newIds), { calendar, resources, leveling, mode });
+      const movedCount = changedTasks.filter(t => !newIds.has(t.id)).length;
+      setSchedule(updatedSchedule);
+      setCycleTaskIds([]);
+      setRawTasks(combinedRawTasks);
       setIsManualEntryOpen(false);
        toast({
         title: "Tasks Added",
-        description: `${newTasks.length} new tasks have been added to the project.`,
+        description: `${newTasks.length} new tasks have been added to the project.${movedCount > 0 ? ` ${movedCount} existing tasks were rescheduled.` : ''}`,
       });
     } catch(error: any) {
+        setCycleTaskIds(error instanceof CircularDependencyError ? error.cycle : []);
         toast({
           variant: "destructive",
           title: "Error Adding Tasks",
@@ -110,52 +182,325 @@ export default function Home() {
     }
   };
 
+  const handleRenameTask = async (taskId: string, changes: { id: string; title: string }) => {
+    try {
+      // An occurrence of a recurring task is renamed on its own
+      const renamedRawTasks = changeTaskId(detachOccurrence(rawTasks, taskId, calendar), taskId, changes.id)
+        .map(task => task.id === changes.id ? { ...task, title: changes.title } : task);
+      // The renamed task and every task linked to it changed; the id can also change the leveling order
+      const changedIds = renamedRawTasks
+        .filter(t => t.id === changes.id || t.parentId === changes.id || t.dependencies.some(d => d.predecessor === changes.id))
+        .map(t => t.id);
+      setSchedule((await scheduleWorker.reschedule(schedule, renamedRawTasks, changedIds, { calendar, resources, leveling, mode })).schedule);
+      setCycleTaskIds([]);
+      setRawTasks(renamedRawTasks);
+      setBaselines(prev => renameBaselineTask(prev, taskId, changes.id));
+      toast({
+        title: "Task Renamed",
+        description: `"${changes.title}" has been updated along with its dependencies.`,
+      });
+    } catch(error: any) {
+        setCycleTaskIds(error instanceof CircularDependencyError ? error.cycle : []);
+      toast({
+        variant: "destructive",
+        title: "Error Renaming Task",
+        description: error.message,
+      });
+    }
+  };
+
+  const handleUpdateProgress = async (taskId: string, progress: TaskProgress & TaskBudget) => {
+    try {
+      const updatedRawTasks = detachOccurrence(rawTasks, taskId, calendar).map(task => task.id === taskId ? { ...task, ...progress } : task);
+      // Actual dates can move the task, which reschedules whatever follows it
+      const { schedule: updatedSchedule, changedTasks } = await scheduleWorker.reschedule(schedule, updatedRawTasks, [taskId], { calendar, resources, leveling, mode });
+      const movedCount = changedTasks.filter(t => t.id !== taskId && !t.isSummary).length;
+      setSchedule(updatedSchedule);
+      setCycleTaskIds([]);
+      setRawTasks(updatedRawTasks);
+      toast({
+        title: "Progress Updated",
+        description: `"${updatedRawTasks.find(t => t.id === taskId)?.title}" is ${getPercentComplete(progress)}% complete.${movedCount > 0 ? ` ${movedCount} other tasks were rescheduled.` : ''}`,
+      });
+    } catch(error: any) {
+        setCycleTaskIds(error instanceof CircularDependencyError ? error.cycle : []);
+      toast({
+        variant: "destructive",
+        title: "Error Updating Progress",
+        description: error.message,
+      });
+    }
+  };
+
+  const handleUpdateWork = async (taskId: string, effort: TaskEffort) => {
+    try {
+      const updatedRawTasks = detachOccurrence(rawTasks, taskId, calendar).map(task => task.id === taskId ? { ...task, ...effort } : task);
+      const { schedule: updatedSchedule, changedTasks } = await scheduleWorker.reschedule(schedule, updatedRawTasks, [taskId], { calendar, resources, leveling, mode });
+      const movedCount = changedTasks.filter(t => t.id !== taskId && !t.isSummary).length;
+      setSchedule(updatedSchedule);
+      setCycleTaskIds([]);
+      setRawTasks(updatedRawTasks);
+      toast({
+        title: "Work Updated",
+        description: `"${updatedRawTasks.find(t => t.id === taskId)?.title}" now takes ${effort.workingDuration} ${getDurationUnit(updatedRawTasks.find(t => t.id === taskId)!)}.${movedCount > 0 ? ` ${movedCount} other tasks were rescheduled.` : ''}`,
+      });
+    } catch(error: any) {
+        setCycleTaskIds(error instanceof CircularDependencyError ? error.cycle : []);
+      toast({
+        variant: "destructive",
+        title: "Error Updating Work",
+        description: error.message,
+      });
+    }
+  };
+
+  const handleUpdateSeries = async (taskId: string, changes: { workingDuration: number; recurrence: Recurrence }) => {
+    try {
+      // The new duration of an effort-driven series changes its work or units like any other edit of the duration
+      const updatedRawTasks = rawTasks.map(task => task.id === taskId
+        ? { ...task, ...editEffort(task, { workingDuration: changes.workingDuration }), recurrence: changes.recurrence }
+        : task);
+      // Occurrences are generated again from the series; those no longer in it are removed
+      setSchedule((await scheduleWorker.reschedule(schedule, updatedRawTasks, [taskId], { calendar, resources, leveling, mode })).schedule);
+      setCycleTaskIds([]);
+      setRawTasks(updatedRawTasks);
+      setEditingSeriesId(undefined);
+      toast({
+        title: "Series Updated",
+        description: `"${updatedRawTasks.find(t => t.id === taskId)?.title}" now repeats ${formatRecurrence(changes.recurrence)}.`,
+      });
+    } catch(error: any) {
+        setCycleTaskIds(error instanceof CircularDependencyError ? error.cycle : []);
+      toast({
+        variant: "destructive",
+        title: "Error Updating Series",
+        description: error.message,
+      });
+    }
+  };
+
   const handleClear = () => {
-    setTasks([]);
+    setSchedule(EMPTY_SCHEDULE);
+    setRawTasks([]);
+    setCycleTaskIds([]);
+    setCalendar(DEFAULT_WORK_CALENDAR);
+    setResources([]);
+    setLeveling(DEFAULT_LEVELING_OPTIONS);
+    setMode(DEFAULT_SCHEDULE_MODE);
+    setBaselines([]);
+    setActiveBaselineName(undefined);
+    setScenarios([createScenario(MAIN_SCENARIO, EMPTY_PLAN)]);
+    setActiveScenarioName(MAIN_SCENARIO);
     setProjectName('Ganttify');
+    setProjectBudget(undefined);
     setIsUploaderOpen(false);
   }
 
-  const handleProjectNameSave = () => {
-    if(tempProjectName.trim()) {
-        setProjectName(tempProjectName.trim());
-        setIsSettingsOpen(false);
-        toast({
-            title: "Project Renamed",
-            description: `Your project is now called "${tempProjectName.trim()}".`
-        });
-    } else {
+  const handleSettingsSave = async () => {
+    if(!tempProjectName.trim()) {
         toast({
             variant: "destructive",
             title: "Invalid Name",
             description: "Project name cannot be empty."
         });
+        return;
+    }
+    const budget = tempBudget.trim() ? Number(tempBudget) : undefined;
+    if (budget !== undefined && (isNaN(budget) || budget < 0)) {
+        toast({
+            variant: "destructive",
+            title: "Invalid Budget",
+            description: "The budget must be a number of at least 0, or empty for none."
+        });
+        return;
+    }
+
+    try {
+        // Reschedule from the original input so tasks can also move earlier under the new settings
+        setSchedule(await scheduleWorker.schedule(rawTasks, { calendar: tempCalendar, resources, leveling: tempLeveling, mode: tempMode }));
+        setCycleTaskIds([]);
+        setCalendar(tempCalendar);
+        setLeveling(tempLeveling);
+        setMode(tempMode);
+        setKey(Date.now());
+    } catch(error: any) {
+        setCycleTaskIds(error instanceof CircularDependencyError ? error.cycle : []);
+        toast({
+            variant: "destructive",
+            title: "Invalid Settings",
+            description: error.message,
+        });
+        return;
     }
+
+    setProjectName(tempProjectName.trim());
+    setProjectBudget(budget);
+    setIsSettingsOpen(false);
+    toast({
+        title: "Settings Saved",
+        description: `Project "${tempProjectName.trim()}" has been updated.`
+    });
   }
 
+  const handleResourcesSave = async (updatedResources: Resource[]) => {
+    try {
+      setSchedule(await scheduleWorker.schedule(rawTasks, { calendar, resources: updatedResources, leveling, mode }));
+      setCycleTaskIds([]);
+      setResources(updatedResources);
+      setKey(Date.now());
+      setIsResourcesOpen(false);
+      toast({
+        title: "Resources Updated",
+        description: "The schedule has been updated with the new resource calendars.",
+      });
+    } catch(error: any) {
+        setCycleTaskIds(error instanceof CircularDependencyError ? error.cycle : []);
+      toast({
+        variant: "destructive",
+        title: "Invalid Resource Calendar",
+        description: error.message,
+      });
+    }
+  };
+
+  // Saving under an existing name replaces that baseline; the saved baseline becomes the one compared against
+  const handleSaveBaseline = (name: string) => {
+    const isOverwrite = baselines.some(b => b.name === name);
+    const baseline = createBaseline(name, tasks);
+    setBaselines(prev => isOverwrite ? prev.map(b => b.name === name ? baseline : b) : [...prev, baseline]);
+    setActiveBaselineName(name);
+    toast({
+      title: isOverwrite ? "Baseline Updated" : "Baseline Saved",
+      description: `"${name}" holds the current dates of ${tasks.length} tasks.`,
+    });
+  };
+
+  const handleDeleteBaseline = (name: string) => {
+    setBaselines(prev => prev.filter(b => b.name !== name));
+    if (activeBaselineName === name) setActiveBaselineName(undefined);
+  };
+
+  // A new branch starts as a copy of the active scenario and becomes the one being edited
+  const handleCreateScenario = (name: string) => {
+    setScenarios([...currentScenarios, createScenario(name, currentScenarios.find(s => s.name === activeScenarioName)!.plan, activeScenarioName)]);
+    setActiveScenarioName(name);
+    toast({
+      title: "Scenario Created",
+      description: `Changes now go to "${name}". "${activeScenarioName}" stays as it was.`,
+    });
+  };
+
+  const handleSwitchScenario = async (name: string) => {
+    const scenario = scenarios.find(s => s.name === name);
+    if (!scenario || name === activeScenarioName) return;
+
+    const { plan } = scenario;
+    try {
+      setSchedule(await scheduleWorker.schedule(plan.rawTasks, { calendar: plan.calendar, resources: plan.resources, leveling: plan.leveling, mode: plan.mode }));
+      setScenarios(currentScenarios); // Keeps the edits made to the scenario being left
+      setRawTasks(plan.rawTasks);
+      setCalendar(plan.calendar);
+      setResources(plan.resources);
+      setLeveling(plan.leveling);
+      setMode(plan.mode);
+      setCycleTaskIds([]);
+      setActiveScenarioName(name);
+      setKey(Date.now());
+      toast({
+        title: "Scenario Switched",
+        description: `Now showing and editing "${name}".`,
+      });
+    } catch(error: any) {
+        setCycleTaskIds(error instanceof CircularDependencyError ? error.cycle : []);
+      toast({
+        variant: "destructive",
+        title: "Error Switching Scenario",
+        description: error.message,
+      });
+    }
+  };
+
+  const handleDeleteScenario = (name: string) => {
+    setScenarios(prev => prev.filter(s => s.name !== name));
+  };
+
   const handleExport = () => {
     if (tasks.length === 0) return;
 
-    const hasId = tasks.some(t => t.id && t.id !== t.title);
-    const header = hasId
-      ? 'id,title,startDate,duration,dependencies,resource\n'
-      : 'title,startDate,duration,dependencies,resource\n';
-
-    const csvRows = tasks.map(task => {
-      const title = `"${task.title.replace(/"/g, '""')}"`;
-      const startDate = format(task.startDate, 'yyyy-MM-dd');
-      const duration = task.workingDuration;
-      const dependencies = `"${task.dependencies.join(';')}"`;
-      const resource = task.resource ? `"${task.resource.replace(/"/g, '""')}"` : '';
-
-      if (hasId) {
-        const id = task.id ? `"${task.id.replace(/"/g, '""')}"` : '';
-        return [id, title, startDate, duration, dependencies, resource].join(',');
-      }
-      return [title, startDate, duration, dependencies, resource].join(',');
-    });
+    // Requested start dates are exported so dependencies and leveling are re-applied on import,
+    // and progress as entered rather than rolled up
+    const rawTaskMap = new Map(rawTasks.map(t => [t.id, t]));
+    // Occurrences of recurring tasks are generated again on import, unless they were edited on their own
+    const exportedTasks = tasks.filter(task => rawTaskMap.has(task.id));
+
+    const columns: ExportColumn[] = [
+      { header: 'title', value: task => escapeCsvValue(task.title) },
+      { header: 'startDate', value: task => rawTaskMap.get(task.id)?.startDate ?? task.startDate },
+      // As planned: a finished task is scheduled with its actual duration, and a recurring task's duration is that of
+      // each occurrence rather than the span of the series
+      { header: 'duration', value: task => formatDuration(rawTaskMap.get(task.id)!) },
+      { header: 'dependencies', value: task => escapeCsvValue(formatDependencies(task.dependencies)) },
+      // As entered, since summary tasks and so recurring tasks have no resources of their own once scheduled
+      { header: 'resource', value: task => escapeCsvValue(formatAssignments(rawTaskMap.get(task.id)?.assignments ?? task.assignments)) },
+    ];
+    if (exportedTasks.some(t => t.id && t.id !== t.title)) {
+      columns.unshift({ header: 'id', value: task => task.id ? escapeCsvValue(task.id) : '' });
+    }
+    if (exportedTasks.some(t => t.parentId)) {
+      columns.push({ header: 'parentId', value: task => task.parentId ? escapeCsvValue(task.parentId) : '' });
+    }
+    if (exportedTasks.some(t => t.priority !== undefined)) {
+      columns.push({ header: 'priority', value: task => task.priority ?? '' });
+    }
+    if (exportedTasks.some(t => t.constraint)) {
+      columns.push({ header: 'constraint', value: task => task.constraint?.type ?? '' });
+      columns.push({ header: 'constraintDate', value: task => task.constraint?.date ?? '' });
+    }
+    if (rawTasks.some(hasProgress)) {
+      columns.push({ header: 'percentComplete', value: task => rawTaskMap.get(task.id)?.percentComplete ?? '' });
+      columns.push({ header: 'actualStart', value: task => rawTaskMap.get(task.id)?.actualStart ?? '' });
+      columns.push({ header: 'actualFinish', value: task => rawTaskMap.get(task.id)?.actualFinish ?? '' });
+    }
+    if (rawTasks.some(hasBudget)) {
+      columns.push({ header: 'budget', value: task => rawTaskMap.get(task.id)?.budget ?? '' });
+      columns.push({ header: 'actualCost', value: task => rawTaskMap.get(task.id)?.actualCost ?? '' });
+    }
+    if (rawTasks.some(t => t.fixedCost !== undefined)) {
+      columns.push({ header: 'fixedCost', value: task => rawTaskMap.get(task.id)?.fixedCost ?? '' });
+    }
+    if (rawTasks.some(t => t.recurrence)) {
+      columns.push({ header: 'recurrence', value: task => {
+        const recurrence = rawTaskMap.get(task.id)?.recurrence;
+        return recurrence ? escapeCsvValue(formatRecurrence(recurrence)) : '';
+      } });
+    }
+    if (rawTasks.some(t => t.work !== undefined || t.taskType)) {
+      columns.push({ header: 'work', value: task => rawTaskMap.get(task.id)?.work ?? '' });
+      columns.push({ header: 'taskType', value: task => rawTaskMap.get(task.id)?.taskType ?? '' });
+    }
+    if (rawTasks.some(t => t.interruptions)) {
+      columns.push({ header: 'interruptions', value: task => {
+        const interruptions = rawTaskMap.get(task.id)?.interruptions;
+        return interruptions ? escapeCsvValue(formatInterruptions(interruptions)) : '';
+      } });
+    }
+    if (rawTasks.some(hasEstimate)) {
+      columns.push({ header: 'optimisticDuration', value: task => rawTaskMap.get(task.id)?.optimisticDuration ?? '' });
+      columns.push({ header: 'pessimisticDuration', value: task => rawTaskMap.get(task.id)?.pessimisticDuration ?? '' });
+    }
+
+    const header = columns.map(c => c.header).join(',') + '\n';
+    const csvRows = exportedTasks.map(task => columns.map(c => c.value(task)).join(','));
 
-    const csvContent = header + csvRows.join('\n');
+    const directives = [
+      ...formatCalendarDirectives(calendar),
+      ...formatResourceDirectives(resources),
+      formatLevelingDirective(leveling),
+      ...(isBackward(mode) ? [formatScheduleModeDirective(mode)] : []),
+      ...formatBaselineDirectives(baselines),
+      ...(projectBudget !== undefined ? [formatBudgetDirective(projectBudget)] : []),
+    ];
+    const csvContent = directives.join('\n') + '\n' + header + csvRows.join('\n');
     const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
     const link = document.createElement('a');
     if (link.href) {
@@ -169,59 +514,66 @@ export default function Home() {
     document.body.removeChild(link);
   };
 
-  const resourceSummary = useMemo(() => {
-    if (tasks.length === 0 || !currentDate) {
-      return null;
+  useEffect(() => {
+    if (tasks.length === 0) {
+      setResourceSummary(null);
+      return;
     }
 
-    const summary = new Map<string, ResourceSummary>();
-
-    tasks.forEach(task => {
-      if (task.resource) {
-        const resource = task.resource;
-        const existing = summary.get(resource);
-        
-        const completedWorkingDaysForTask = getWorkingDays(task.startDate, dateMin([currentDate, task.endDate]));
-
-        if (existing) {
-          existing.startDate = dateMin([existing.startDate, task.startDate]);
-          existing.endDate = dateMax([existing.endDate, task.endDate]);
-          existing.totalWorkingDays += task.workingDuration;
-          existing.completedWorkingDays += completedWorkingDaysForTask;
-        } else {
-          summary.set(resource, {
-            startDate: task.startDate,
-            endDate: task.endDate,
-            totalWorkingDays: task.workingDuration,
-            completedWorkingDays: completedWorkingDaysForTask
-          });
-        }
-      }
-    });
+    // A newer schedule or baseline may come in while this summary is computed; only the latest is shown
+    let isCurrent = true;
+    scheduleWorker.summarize(tasks, { calendar, resources }, activeBaseline)
+      .then(summary => { if (isCurrent) setResourceSummary(summary); })
+      .catch(() => { if (isCurrent) setResourceSummary(null); });
+    return () => { isCurrent = false; };
+  }, [tasks, calendar, resources, activeBaseline, scheduleWorker]);
+
+  // Planned costs, for projects with resource rates or fixed costs
+  useEffect(() => {
+    if (tasks.length === 0 || !hasCosts(tasks, resources)) {
+      setCostReport(null);
+      return;
+    }
+
+    let isCurrent = true;
+    scheduleWorker.costs(tasks, { calendar, resources })
+      .then(report => { if (isCurrent) setCostReport(report); })
+      .catch(() => { if (isCurrent) setCostReport(null); });
+    return () => { isCurrent = false; };
+  }, [tasks, calendar, resources, scheduleWorker]);
+
+  // Earned value is measured as of the current date picked in the Resource Summary, for projects with budgets
+  // or planned costs, which tasks without a budget are budgeted at
+  useEffect(() => {
+    if (!currentDate || !(tasks.some(hasBudget) || hasCosts(tasks, resources))) {
+      setEarnedValue(null);
+      return;
+    }
+
+    let isCurrent = true;
+    scheduleWorker.earnedValue(tasks, currentDate, { calendar, resources }, activeBaseline)
+      .then(report => { if (isCurrent) setEarnedValue(report); })
+      .catch(() => { if (isCurrent) setEarnedValue(null); });
+    return () => { isCurrent = false; };
+  }, [tasks, currentDate, calendar, resources, activeBaseline, scheduleWorker]);
 
-    const sortedSummary = Array.from(summary.entries()).sort(([a], [b]) => a.localeCompare(b));
-    
-    // Project total calculation
-    const projectStartDate = dateMin(tasks.map(t => t.startDate));
-    const projectEndDate = dateMax(tasks.map(t => t.endDate));
-    const {projectTotalDays, projectCompletedDays} = Array.from(summary.values()).reduce((acc, curr) => {
-      acc.projectTotalDays += curr.totalWorkingDays;
-      acc.projectCompletedDays += curr.completedWorkingDays;
-      return acc;
-    }, { projectTotalDays: 0, projectCompletedDays: 0 });
-
-    const projectSummary: [string, ResourceSummary] = ['Project Total', {
-      startDate: projectStartDate,
-      endDate: projectEndDate,
-      totalWorkingDays: projectTotalDays,
-      completedWorkingDays: projectCompletedDays
-    }];
-    
-    const finalSummary = [...sortedSummary, projectSummary];
-    
-    return finalSummary;
-
-  }, [tasks, currentDate]);
+  // Scheduling backward, tasks whose latest start is already behind the current date but that have not started, most overdue first
+  const lateStarts = useMemo(() => {
+    if (!currentDate || !isBackward(mode)) return [];
+    return tasks
+      .filter(task => !task.isSummary && task.startDate < currentDate && !task.actualStart && getPercentComplete(task) === 0)
+      .sort((a, b) => comparePlainDates(a.startDate, b.startDate))
+      .map(task => ({ task, workingDaysLate: differenceInWorkingDays(currentDate, task.startDate, calendar) }));
+  }, [tasks, currentDate, mode, calendar]);
+
+  // Milestones still ahead of the current date, soonest first
+  const upcomingMilestones = useMemo(() => {
+    if (!currentDate) return [];
+    return tasks
+      .filter(task => isMilestone(task) && task.startDate >= currentDate)
+      .sort((a, b) => comparePlainDates(a.startDate, b.startDate))
+      .map(task => ({ task, workingDaysAway: differenceInWorkingDays(task.startDate, currentDate, calendar) }));
+  }, [tasks, currentDate, calendar]);
 
   const mainButtonText = 'Upload CSV';
 
@@ -281,6 +633,113 @@ export default function Home() {
               </SheetContent>
             </Sheet>
 
+            {tasks.length > 0 && (
+              <Sheet open={isResourcesOpen} onOpenChange={setIsResourcesOpen}>
+                <SheetTrigger asChild>
+                  <Button variant="outline">
+                    <Users className="mr-2" />
+                    Resources
+                  </Button>
+                </SheetTrigger>
+                <SheetContent className="w-full sm:max-w-[700px] overflow-y-auto">
+                  <SheetHeader>
+                    <SheetTitle>Resources</SheetTitle>
+                    <SheetDescription>
+                      Set working weeks, join dates, time off and rates. Resource calendars are layered on the project calendar.
+                    </SheetDescription>
+                  </SheetHeader>
+                  <div className="py-4">
+                    <ResourceManager
+                      resources={resources}
+                      resourceNames={Array.from(new Set(tasks.flatMap(getAssignedResources)))}
+                      projectCalendar={calendar}
+                      onSave={handleResourcesSave}
+                    />
+                  </div>
+                </SheetContent>
+              </Sheet>
+            )}
+
+            {tasks.length > 0 && (
+              <Dialog open={isBaselinesOpen} onOpenChange={setIsBaselinesOpen}>
+                <DialogTrigger asChild>
+                  <Button variant="outline">
+                    <Layers className="mr-2" />
+                    Baselines
+                  </Button>
+                </DialogTrigger>
+                <DialogContent className="sm:max-w-[520px] max-h-[90vh] overflow-y-auto">
+                  <DialogHeader>
+                    <DialogTitle>Baselines</DialogTitle>
+                  </DialogHeader>
+                  <BaselineManager
+                    baselines={baselines}
+                    activeBaselineName={activeBaselineName}
+                    onSave={handleSaveBaseline}
+                    onSelect={setActiveBaselineName}
+                    onDelete={handleDeleteBaseline}
+                  />
+                </DialogContent>
+              </Dialog>
+            )}
+
+            {scenarios.length > 1 && (
+              <Select value={activeScenarioName} onValueChange={handleSwitchScenario}>
+                <SelectTrigger className="w-[180px]" title="Scenario being shown and edited">
+                  <GitBranch className="h-4 w-4 shrink-0" />
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {scenarios.map(s => <SelectItem key={s.name} value={s.name}>{s.name}</SelectItem>)}
+                </SelectContent>
+              </Select>
+            )}
+
+            {tasks.length > 0 && (
+              <Dialog open={isScenariosOpen} onOpenChange={setIsScenariosOpen}>
+                <DialogTrigger asChild>
+                  <Button variant="outline">
+                    <GitBranch className="mr-2" />
+                    Scenarios
+                  </Button>
+                </DialogTrigger>
+                <DialogContent className="sm:max-w-[640px] max-h-[90vh] overflow-y-auto">
+                  <DialogHeader>
+                    <DialogTitle>What-if Scenarios</DialogTitle>
+                  </DialogHeader>
+                  <ScenarioManager
+                    scenarios={currentScenarios}
+                    activeScenarioName={activeScenarioName}
+                    onCreate={handleCreateScenario}
+                    onSwitch={handleSwitchScenario}
+                    onDelete={handleDeleteScenario}
+                  />
+                </DialogContent>
+              </Dialog>
+            )}
+
+            {tasks.length > 0 && (
+              <Sheet open={isRiskAnalysisOpen} onOpenChange={setIsRiskAnalysisOpen}>
+                <SheetTrigger asChild>
+                  <Button variant="outline">
+                    <Dices className="mr-2" />
+                    Risk Analysis
+                  </Button>
+                </SheetTrigger>
+                <SheetContent className="w-full sm:max-w-[800px] overflow-y-auto">
+                  <SheetHeader>
+                    <SheetTitle>Risk Analysis</SheetTitle>
+                    <SheetDescription>
+                      Schedules the project many times with durations drawn between each task's optimistic and pessimistic estimates.
+                    </SheetDescription>
+                  </SheetHeader>
+                  <div className="py-4">
+                    <RiskAnalysisPanel rawTasks={rawTasks} tasks={tasks} options={scheduleOptions} />
+                  </div>
+                </SheetContent>
+              </Sheet>
+            )}
+
             {tasks.length > 0 && (
                  <Dialog open={isSettingsOpen} onOpenChange={setIsSettingsOpen}>
                   <DialogTrigger asChild>
@@ -288,7 +747,7 @@ export default function Home() {
                         <Settings className="h-6 w-6" />
                      </Button>
                   </DialogTrigger>
-                  <DialogContent>
+                  <DialogContent className="sm:max-w-[640px] max-h-[90vh] overflow-y-auto">
                     <DialogHeader>
                       <DialogTitle>Project Settings</DialogTitle>
                     </DialogHeader>
@@ -302,9 +761,24 @@ export default function Home() {
                                 className="col-span-3"
                             />
                         </div>
+                        <div className="grid grid-cols-4 items-center gap-4">
+                            <Label htmlFor="project-budget-input" className="text-right">Budget</Label>
+                            <Input
+                                id="project-budget-input"
+                                type="number"
+                                min={0}
+                                value={tempBudget}
+                                placeholder="No budget"
+                                onChange={(e) => setTempBudget(e.target.value)}
+                                className="col-span-3"
+                            />
+                        </div>
+                        <WorkCalendarEditor calendar={tempCalendar} onChange={setTempCalendar} />
+                        <ScheduleModeSettings mode={tempMode} onChange={setTempMode} defaultFinishDate={projectFinish} />
+                        <LevelingSettings options={tempLeveling} onChange={setTempLeveling} />
                     </div>
                     <DialogFooter>
-                        <Button onClick={handleProjectNameSave}>Save Changes</Button>
+                        <Button onClick={handleSettingsSave}>Save Changes</Button>
                     </DialogFooter>
                   </DialogContent>
                 </Dialog>
@@ -317,7 +791,7 @@ export default function Home() {
            <Card className="shadow-md">
             <CardContent className="p-0">
               {tasks.length > 0 ? (
-                <GanttChart key={key} tasks={tasks} projectName={projectName} />
+                <GanttChart key={key} tasks={tasks} projectName={projectName} calendar={calendar} resources={resources} onRenameTask={handleRenameTask} onUpdateProgress={handleUpdateProgress} onUpdateWork={handleUpdateWork} onEditSeries={setEditingSeriesId} cycleTaskIds={cycleTaskIds} baseline={activeBaseline} />
               ) : (
                 <div className="flex items-center justify-center min-h-[500px] rounded-lg bg-muted/50">
                   <div className="text-center text-muted-foreground p-8">
@@ -349,7 +823,7 @@ export default function Home() {
                   Resource Summary
                 </CardTitle>
                 <CardDescription>
-                  An overview of resource allocation and project timeline.
+                  An overview of resource allocation and project timeline. Work is in person-days; completed work follows the progress reported on each task.
                 </CardDescription>
               </div>
               <div className="flex items-center gap-2">
@@ -362,14 +836,14 @@ export default function Home() {
                       className="w-[240px] justify-start text-left font-normal"
                     >
                       <CalendarIcon className="mr-2 h-4 w-4" />
-                      {currentDate ? format(currentDate, "PPP") : <span>Pick a date</span>}
+                      {currentDate ? formatPlainDate(currentDate, "PPP") : <span>Pick a date</span>}
                     </Button>
                   </PopoverTrigger>
                   <PopoverContent className="w-auto p-0">
                     <Calendar
                       mode="single"
-                      selected={currentDate || undefined}
-                      onSelect={(date) => date && setCurrentDate(date)}
+                      selected={currentDate ? toLocalDate(currentDate) : undefined}
+                      onSelect={(date) => date && setCurrentDate(toPlainDate(date))}
                       initialFocus
                     />
                   </PopoverContent>
@@ -390,34 +864,133 @@ export default function Home() {
                       <div className="flex items-center gap-2"><CalendarIcon /> End Date</div>
                     </TableHead>
                     <TableHead className="text-right">
-                       <div className="flex items-center gap-2 justify-end"><Briefcase /> Total Days</div>
+                       <div className="flex items-center gap-2 justify-end"><Briefcase /> Total Work</div>
                     </TableHead>
                     <TableHead className="text-right">
-                       <div className="flex items-center gap-2 justify-end"><CheckCircle /> Days Completed</div>
+                       <div className="flex items-center gap-2 justify-end"><CheckCircle /> Work Completed</div>
                     </TableHead>
                      <TableHead className="text-right">
-                       <div className="flex items-center gap-2 justify-end"><Clock /> Days Remaining</div>
+                       <div className="flex items-center gap-2 justify-end"><Clock /> Work Remaining</div>
                     </TableHead>
+                    {showCosts && (
+                      <>
+                        <TableHead className="text-right">
+                          <div className="flex items-center gap-2 justify-end"><Coins /> Planned Cost</div>
+                        </TableHead>
+                        <TableHead className="text-right">
+                          <div className="flex items-center gap-2 justify-end"><CheckCircle /> Cost to Date</div>
+                        </TableHead>
+                      </>
+                    )}
                   </TableRow>
                 </TableHeader>
                 <TableBody>
                   {resourceSummary.map(([resource, summary]) => {
                     const remainingDays = summary.totalWorkingDays - summary.completedWorkingDays;
+                    const isTotal = resource === PROJECT_TOTAL;
                     return (
-                    <TableRow key={resource} className={resource === 'Project Total' ? 'bg-muted/80 hover:bg-muted font-bold' : ''}>
+                    <Fragment key={resource}>
+                    <TableRow className={isTotal ? 'bg-muted/80 hover:bg-muted font-bold' : ''}>
                       <TableCell>{resource}</TableCell>
-                      <TableCell>{format(summary.startDate, 'MMM d, yyyy')}</TableCell>
-                      <TableCell>{format(summary.endDate, 'MMM d, yyyy')}</TableCell>
-                      <TableCell className="text-right">{summary.totalWorkingDays}</TableCell>
-                      <TableCell className="text-right">{summary.completedWorkingDays}</TableCell>
-                      <TableCell className="text-right">{remainingDays < 0 ? 0 : remainingDays}</TableCell>
+                      <TableCell>{formatPlainDate(summary.startDate, 'MMM d, yyyy')}</TableCell>
+                      <TableCell>{formatPlainDate(summary.endDate, 'MMM d, yyyy')}</TableCell>
+                      <TableCell className="text-right">{formatWorkingDays(summary.totalWorkingDays)}</TableCell>
+                      <TableCell className="text-right">{formatWorkingDays(summary.completedWorkingDays)}</TableCell>
+                      <TableCell className="text-right">{formatWorkingDays(remainingDays < 0 ? 0 : remainingDays)}</TableCell>
+                      {showCosts && (
+                        <>
+                          <TableCell className="text-right tabular-nums">{formatAmount(summary.cost)}</TableCell>
+                          <TableCell className="text-right tabular-nums">{formatAmount(summary.completedCost)}</TableCell>
+                        </>
+                      )}
                     </TableRow>
+                    {/* Variance from the baseline: start and finish in working days, work in resource working days */}
+                    {summary.variance && activeBaseline && (
+                      <TableRow className={cn('text-xs text-muted-foreground', { 'bg-muted/80 hover:bg-muted': isTotal })}>
+                        <TableCell className="pl-8">vs. {activeBaseline.name}</TableCell>
+                        <TableCell className={cn({ 'text-destructive': summary.variance.start > 0 })}>{formatVariance(summary.variance.start)}</TableCell>
+                        <TableCell className={cn({ 'text-destructive': summary.variance.finish > 0 })}>{formatVariance(summary.variance.finish)}</TableCell>
+                        <TableCell className={cn('text-right', { 'text-destructive': summary.variance.work > 0 })}>{formatVariance(summary.variance.work)}</TableCell>
+                        <TableCell />
+                        <TableCell />
+                        {showCosts && <TableCell colSpan={2} />}
+                      </TableRow>
+                    )}
+                    </Fragment>
                   )})}
                 </TableBody>
               </Table>
+
+              {upcomingMilestones.length > 0 && (
+                <div className="mt-6 space-y-2">
+                  <h3 className="flex items-center gap-2 font-semibold">
+                    <Flag className="h-4 w-4" />
+                    Upcoming Milestones
+                  </h3>
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead className="w-[200px]">Milestone</TableHead>
+                        <TableHead>Date</TableHead>
+                        <TableHead className="text-right">Working Days Away</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {upcomingMilestones.map(({ task, workingDaysAway }) => (
+                        <TableRow key={task.id}>
+                          <TableCell>{task.title}</TableCell>
+                          <TableCell>{formatPlainDate(task.startDate, 'MMM d, yyyy')}</TableCell>
+                          <TableCell className="text-right">{workingDaysAway === 0 ? 'Today' : workingDaysAway}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              )}
+
+              {lateStarts.length > 0 && (
+                <div className="mt-6 space-y-2">
+                  <h3 className="flex items-center gap-2 font-semibold text-destructive">
+                    <AlertTriangle className="h-4 w-4" />
+                    Should Already Have Started
+                  </h3>
+                  <p className="text-sm text-muted-foreground">
+                    To finish by {formatPlainDate(mode.finishDate!, 'MMM d, yyyy')}, these tasks had to start before the current date.
+                  </p>
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead className="w-[200px]">Task</TableHead>
+                        <TableHead>Latest Start</TableHead>
+                        <TableHead className="text-right">Working Days Late</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {lateStarts.map(({ task, workingDaysLate }) => (
+                        <TableRow key={task.id}>
+                          <TableCell>{task.title}</TableCell>
+                          <TableCell>{formatPlainDate(task.startDate, 'MMM d, yyyy')}</TableCell>
+                          <TableCell className="text-right text-destructive">{workingDaysLate}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              )}
             </CardContent>
           </Card>
         )}
+        {costReport && (
+          <CostCard report={costReport} budget={projectBudget} />
+        )}
+        {earnedValue && currentDate && (
+          <EarnedValueCard report={earnedValue} tasks={tasks} statusDate={currentDate} baselineName={activeBaseline?.name} />
+        )}
+        <TaskSeriesDialog
+          series={rawTasks.find(t => t.id === editingSeriesId) ?? null}
+          onOpenChange={(open) => !open && setEditingSeriesId(undefined)}
+          onSave={handleUpdateSeries}
+        />
       </main>
     </div>
   );
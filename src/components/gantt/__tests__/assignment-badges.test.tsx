@@ -0,0 +1,20 @@
+import { describe, expect, it } from 'vitest';
+import { renderToStaticMarkup } from 'react-dom/server';
+import AssignmentBadges from '../assignment-badges';
+
+describe('AssignmentBadges', () => {
+  it('names every assigned resource with its units', () => {
+    const html = renderToStaticMarkup(
+      <AssignmentBadges assignments={[{ resource: 'Alice', units: 50 }, { resource: 'Bob', units: 100 }, { resource: 'Carol', units: 25 }]} />,
+    );
+    expect(html.match(/rounded-full/g)).toHaveLength(3);
+    expect(html).toContain('Alice 50%');
+    expect(html).toContain('Bob');
+    expect(html).toContain('Carol 25%');
+    expect(html).not.toContain('+');
+  });
+
+  it('renders nothing for an unassigned task', () => {
+    expect(renderToStaticMarkup(<AssignmentBadges assignments={[]} />)).toBe('');
+  });
+});
@@ -0,0 +1,27 @@
+import type { ResourceAssignment } from '@/lib/types';
+import { User } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+
+export const formatAssignmentLabel = (assignment: ResourceAssignment) => {
+  return assignment.units === 100 ? assignment.resource : `${assignment.resource} ${assignment.units}%`;
+};
+
+interface AssignmentBadgesProps {
+  assignments: ResourceAssignment[];
+}
+
+// One badge per assigned resource, wrapping onto further lines when a task has many
+export default function AssignmentBadges({ assignments }: AssignmentBadgesProps) {
+  if (assignments.length === 0) return null;
+
+  return (
+    <div className="flex flex-wrap gap-1 shrink-0">
+      {assignments.map(assignment => (
+        <Badge key={assignment.resource} variant="secondary" className="gap-1.5">
+          <User className="w-3 h-3" />
+          {formatAssignmentLabel(assignment)}
+        </Badge>
+      ))}
+    </div>
+  );
+}
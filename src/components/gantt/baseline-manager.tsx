@@ -0,0 +1,81 @@
+"use client";
+
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Eye, EyeOff, Save, Trash2 } from 'lucide-react';
+import type { Baseline } from '@/lib/types';
+import { formatPlainDate } from '@/lib/plain-date';
+
+interface BaselineManagerProps {
+  baselines: Baseline[];
+  activeBaselineName?: string;
+  onSave: (name: string) => void;
+  onSelect: (name: string | undefined) => void;
+  onDelete: (name: string) => void;
+}
+
+export default function BaselineManager({ baselines, activeBaselineName, onSave, onSelect, onDelete }: BaselineManagerProps) {
+  const [name, setName] = useState('');
+  const suggestedName = `Baseline ${baselines.length + 1}`;
+  const isOverwrite = baselines.some(b => b.name === (name.trim() || suggestedName));
+
+  const handleSave = () => {
+    onSave(name.trim() || suggestedName);
+    setName('');
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-1">
+        <Label htmlFor="baseline-name">Save the current schedule as</Label>
+        <div className="flex gap-2">
+          <Input
+            id="baseline-name"
+            value={name}
+            placeholder={suggestedName}
+            onChange={(e) => setName(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleSave()}
+          />
+          <Button onClick={handleSave}>
+            <Save className="mr-2 h-4 w-4" />
+            {isOverwrite ? 'Overwrite' : 'Save'}
+          </Button>
+        </div>
+      </div>
+
+      {baselines.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No baselines yet. Save one to compare the plan against it as it changes.</p>
+      ) : (
+        <div className="space-y-2">
+          {baselines.map(baseline => {
+            const isActive = baseline.name === activeBaselineName;
+            return (
+              <div key={baseline.name} className="flex items-center gap-2 rounded-md border p-2">
+                <div className="flex-grow min-w-0">
+                  <p className="font-medium truncate">{baseline.name}</p>
+                  <p className="text-xs text-muted-foreground">
+                    Saved {formatPlainDate(baseline.savedAt, 'MMM d, yyyy')} · {baseline.tasks.size} tasks
+                  </p>
+                </div>
+                <Button
+                  variant={isActive ? 'default' : 'outline'}
+                  size="sm"
+                  onClick={() => onSelect(isActive ? undefined : baseline.name)}
+                  title={isActive ? 'Stop comparing with this baseline' : 'Compare with this baseline'}
+                >
+                  {isActive ? <EyeOff className="mr-2 h-4 w-4" /> : <Eye className="mr-2 h-4 w-4" />}
+                  {isActive ? 'Hide' : 'Show'}
+                </Button>
+                <Button variant="ghost" size="icon" onClick={() => onDelete(baseline.name)} title="Delete baseline">
+                  <Trash2 className="h-4 w-4 text-destructive" />
+                </Button>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,85 @@
+"use client";
+
+import { useMemo } from 'react';
+import { format } from 'date-fns';
+import { CartesianGrid, Line, LineChart, ReferenceLine, XAxis, YAxis } from 'recharts';
+import { Wallet } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { ChartContainer, ChartLegend, ChartLegendContent, ChartTooltip, ChartTooltipContent, type ChartConfig } from '@/components/ui/chart';
+import type { CostReport } from '@/lib/costs';
+import { formatAmount } from '@/lib/earned-value';
+import { toLocalDate } from '@/lib/plain-date';
+import { cn } from '@/lib/utils';
+
+interface CostCardProps {
+  report: CostReport;
+  budget?: number;
+}
+
+const chartConfig = {
+  cost: { label: 'Planned Cost', color: 'hsl(var(--chart-1))' },
+  budget: { label: 'Budget', color: 'hsl(var(--chart-4))' },
+} satisfies ChartConfig;
+
+export default function CostCard({ report, budget }: CostCardProps) {
+  const chartData = useMemo(() => report.curve.map(point => ({ ...point, date: toLocalDate(point.date).getTime() })), [report]);
+  const variance = budget !== undefined ? budget - report.total : undefined;
+  // The budget line is kept in view even when the plan costs far less
+  const maxCost = Math.max(report.total, budget ?? 0);
+
+  return (
+    <Card className="shadow-md">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Wallet />
+          Costs
+        </CardTitle>
+        <CardDescription>
+          What the schedule is planned to cost over time, from resource rates and fixed task costs{budget !== undefined ? ', against the project budget' : ''}.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-3 gap-2">
+          <div className="rounded-md border p-3">
+            <p className="text-xs text-muted-foreground">Planned Cost</p>
+            <p className="text-lg font-semibold tabular-nums">{formatAmount(report.total)}</p>
+          </div>
+          <div className="rounded-md border p-3">
+            <p className="text-xs text-muted-foreground">Budget</p>
+            <p className="text-lg font-semibold tabular-nums">{budget !== undefined ? formatAmount(budget) : '–'}</p>
+          </div>
+          <div className="rounded-md border p-3" title="Budget - planned cost">
+            <p className="text-xs text-muted-foreground">Variance</p>
+            <p className={cn('text-lg font-semibold tabular-nums', { 'text-destructive': variance !== undefined && variance < 0 })}>
+              {variance !== undefined ? formatAmount(variance) : '–'}
+            </p>
+          </div>
+        </div>
+
+        <ChartContainer config={chartConfig} className="aspect-auto h-[300px] w-full">
+          <LineChart data={chartData} margin={{ left: 12, right: 12 }}>
+            <CartesianGrid vertical={false} />
+            <XAxis
+              dataKey="date"
+              type="number"
+              scale="time"
+              domain={['dataMin', 'dataMax']}
+              tickFormatter={(value: number) => format(value, 'MMM d')}
+              tickLine={false}
+              axisLine={false}
+            />
+            <YAxis domain={[0, maxCost]} tickFormatter={(value: number) => formatAmount(value)} tickLine={false} axisLine={false} width={72} />
+            <ChartTooltip
+              content={<ChartTooltipContent labelFormatter={(_, payload) => payload[0] ? format(payload[0].payload.date, 'MMM d, yyyy') : ''} />}
+            />
+            <ChartLegend content={<ChartLegendContent />} />
+            {budget !== undefined && (
+              <ReferenceLine y={budget} stroke="var(--color-budget)" strokeDasharray="4 4" label={{ value: 'Budget', position: 'insideTopLeft', fontSize: 12 }} />
+            )}
+            <Line dataKey="cost" type="monotone" stroke="var(--color-cost)" strokeWidth={2} dot={false} />
+          </LineChart>
+        </ChartContainer>
+      </CardContent>
+    </Card>
+  );
+}
@@ -2,19 +2,21 @@
 "use client";
 
 import { useRef, useState, type ChangeEvent } from 'react';
-import { parse, addDays, max as dateMax, format, getDay } from 'date-fns';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
+import { Progress } from '@/components/ui/progress';
 import { useToast } from '@/hooks/use-toast';
-import type { Task, RawTask } from '@/lib/types';
-import { Upload, X, FileText, GanttChartSquare } from 'lucide-react';
+import { useScheduleWorker } from '@/hooks/use-schedule-worker';
+import type { ImportedProject } from '@/lib/types';
+import { WorkCancelledError, type WorkProgress } from '@/lib/worker-protocol';
+import { Upload, X, FileText, GanttChartSquare, Loader2 } from 'lucide-react';
 import { Alert, AlertDescription, AlertTitle } from '../ui/alert';
 import { Label } from '../ui/label';
-import { processTasks, toTitleCase } from '@/lib/task-utils';
+import { toTitleCase } from '@/lib/task-utils';
 
 
 interface CsvUploaderProps {
-  onDataUploaded: (tasks: Task[], projectName: string) => void;
+  onDataUploaded: (project: ImportedProject, projectName: string) => void;
   onClear: () => void;
   hasData: boolean;
 }
@@ -24,11 +26,21 @@ export default function CsvUploader({ onDataUploaded, onClear, hasData }: CsvUpl
   const fileInputRef = useRef<HTMLInputElement>(null);
   const [file, setFile] = useState<File | null>(null);
   const [projectName, setProjectName] = useState('');
+  const [isProcessing, setIsProcessing] = useState(false);
+  const [progress, setProgress] = useState<WorkProgress | null>(null);
+  const readerRef = useRef<FileReader | null>(null);
+  const scheduleWorker = useScheduleWorker();
 
   const handleFileChange = (event: ChangeEvent<HTMLInputElement>) => {
     const selectedFile = event.target.files?.[0];
     if (!selectedFile) return;
 
+    // Picking another file while one is being processed cancels it
+    readerRef.current?.abort();
+    scheduleWorker.cancel();
+    setIsProcessing(false);
+    setProgress(null);
+
     const fileNameWithoutExt = selectedFile.name.split('.').slice(0, -1).join('.');
     setProjectName(toTitleCase(fileNameWithoutExt));
     setFile(selectedFile);
@@ -45,22 +57,30 @@ export default function CsvUploader({ onDataUploaded, onClear, hasData }: CsvUpl
     }
 
     const reader = new FileReader();
-    reader.onload = (e) => {
+    readerRef.current = reader;
+    reader.onload = async (e) => {
       const text = e.target?.result as string;
+      setIsProcessing(true);
+      setProgress(null);
       try {
-        const parsedTasks = parseCsv(text);
-        onDataUploaded(parsedTasks, projectName);
+        // Parsing and scheduling run in a worker, so the page stays responsive on large files
+        const project: ImportedProject = await scheduleWorker.importCsv(text, setProgress);
+        onDataUploaded(project, projectName);
         toast({
           title: "Success",
-          description: `Successfully loaded ${parsedTasks.length} tasks for project "${projectName}".`,
+          description: `Successfully loaded ${project.schedule.tasks.length} tasks for project "${projectName}".`,
         });
       } catch (error: any) {
+        // Cancelled because another file was picked, which is already selected
+        if (error instanceof WorkCancelledError) return;
         toast({
           variant: "destructive",
           title: "CSV Parsing Error",
           description: error.message,
         });
       }
+      setIsProcessing(false);
+      setProgress(null);
       // Reset file input to allow re-uploading the same file
       if(fileInputRef.current) {
         fileInputRef.current.value = "";
@@ -71,56 +91,6 @@ export default function CsvUploader({ onDataUploaded, onClear, hasData }: CsvUpl
     reader.readAsText(file);
   }
 
-  const parseCsv = (csvText: string): Task[] => {
-    const lines = csvText.trim().split('\n');
-    const headerLine = lines.shift()?.trim();
-    if (!headerLine) throw new Error('CSV is empty or has no header.');
-    
-    const header = headerLine.split(',').map(h => h.trim());
-    const hasIdColumn = header.includes('id');
-
-    if (!header.includes('title') || !header.includes('startDate') || !header.includes('duration')) {
-        throw new Error('Invalid CSV header. It must contain "title", "startDate", and "duration".');
-    }
-
-    const rawTasks: RawTask[] = lines.map((line, index) => {
-        const values = line.trim().split(',');
-        const row: { [key: string]: string } = {};
-        header.forEach((h, i) => {
-            row[h] = values[i];
-        });
-
-        const { id, title, startDate: startDateStr, duration: durationStr, dependencies: dependenciesStr, resource } = row;
-
-        if (!title || !startDateStr || !durationStr) {
-            throw new Error(`Invalid data on line ${index + 2}. Each task must have a title, startDate, and duration.`);
-        }
-
-        let startDate = parse(startDateStr, 'yyyy-MM-dd', new Date());
-        if (isNaN(startDate.getTime())) {
-            throw new Error(`Invalid date format on line ${index + 2}. Use YYYY-MM-DD.`);
-        }
-        
-        const duration = parseInt(durationStr, 10);
-        if (isNaN(duration) || duration <= 0) {
-            throw new Error(`Invalid duration on line ${index + 2}. Must be a positive number.`);
-        }
-
-        const dependencies = dependenciesStr?.trim() ? dependenciesStr.trim().split(';').map(d => d.trim()).filter(Boolean) : [];
-        
-        return {
-            id: hasIdColumn && id ? id.trim() : title.trim(),
-            title: title.trim(),
-            startDate,
-            workingDuration: duration,
-            dependencies,
-            resource: resource?.trim()
-        };
-    });
-
-    return processTasks(rawTasks);
-  };
-
   return (
     <div className="space-y-4">
       <Alert>
@@ -132,14 +102,29 @@ export default function CsvUploader({ onDataUploaded, onClear, hasData }: CsvUpl
             <ul className="list-disc pl-5 space-y-1 text-sm">
                 <li><strong className="text-foreground">title:</strong> The name of the task.</li>
                 <li><strong className="text-foreground">startDate:</strong> The task's start date in <code className="font-mono bg-muted/50 p-0.5 rounded">YYYY-MM-DD</code> format.</li>
-                <li><strong className="text-foreground">duration:</strong> The number of working days for the task (weekends are skipped).</li>
+                <li><strong className="text-foreground">duration:</strong> The number of working days for the task (weekends and holidays are skipped). Use 0 for a milestone. Add <code className="font-mono bg-muted/50 p-0.5 rounded">ed</code> for elapsed days that run on calendar time, such as curing or a review period, e.g. <code className="font-mono bg-muted/50 p-0.5 rounded">10ed</code>.</li>
             </ul>
             <p>Optional columns include:</p>
             <ul className="list-disc pl-5 space-y-1 text-sm">
-                <li><strong className="text-foreground">id:</strong> A unique identifier for the task. If not provided, the title will be used as the ID.</li>
-                <li><strong className="text-foreground">dependencies:</strong> A semicolon-separated list of task <strong className="text-foreground">titles</strong> that must be completed before this task can start.</li>
-                <li><strong className="text-foreground">resource:</strong> The name of the person or resource assigned to the task.</li>
+                <li><strong className="text-foreground">id:</strong> A unique identifier for the task, used by dependencies and parentId. If not provided, the title will be used as the ID and titles must be unique.</li>
+                <li><strong className="text-foreground">dependencies:</strong> A semicolon-separated list of task <strong className="text-foreground">ids</strong> (or titles, if they are unique) that must be completed before this task can start. Append <code className="font-mono bg-muted/50 p-0.5 rounded">:SS</code>, <code className="font-mono bg-muted/50 p-0.5 rounded">:FF</code> or <code className="font-mono bg-muted/50 p-0.5 rounded">:SF</code> for other link types and a lag in working days, e.g. <code className="font-mono bg-muted/50 p-0.5 rounded">Task A:FS+2;Task B:SS-1</code>.</li>
+                <li><strong className="text-foreground">resource:</strong> The person or resource assigned to the task. Separate several with semicolons and add a share of their day if they are not full time, e.g. <code className="font-mono bg-muted/50 p-0.5 rounded">Alice:50%;Bob</code>.</li>
+                <li><strong className="text-foreground">type:</strong> Set to <code className="font-mono bg-muted/50 p-0.5 rounded">milestone</code> to mark a release, gate or sign-off. Milestones have no duration and fall on the day their predecessors finish.</li>
+                <li><strong className="text-foreground">parentId</strong> or <strong className="text-foreground">outlineLevel:</strong> Groups tasks into phases, either by the id of the summary task or by nesting level (1 for top-level rows, each row going under the closest row above it one level up). A summary task's dates and duration roll up from its children, and its dependencies apply to all of them.</li>
+                <li><strong className="text-foreground">priority:</strong> 0 to 1000 (default 500). Higher priority tasks get their resource first when conflicts are leveled.</li>
+                <li><strong className="text-foreground">constraint</strong> and <strong className="text-foreground">constraintDate:</strong> One of <code className="font-mono bg-muted/50 p-0.5 rounded">ASAP</code>, <code className="font-mono bg-muted/50 p-0.5 rounded">ALAP</code>, <code className="font-mono bg-muted/50 p-0.5 rounded">MSO</code>, <code className="font-mono bg-muted/50 p-0.5 rounded">MFO</code>, <code className="font-mono bg-muted/50 p-0.5 rounded">SNET</code>, <code className="font-mono bg-muted/50 p-0.5 rounded">SNLT</code>, <code className="font-mono bg-muted/50 p-0.5 rounded">FNET</code> or <code className="font-mono bg-muted/50 p-0.5 rounded">FNLT</code>, with a <code className="font-mono bg-muted/50 p-0.5 rounded">YYYY-MM-DD</code> date for all but ASAP and ALAP.</li>
+                <li><strong className="text-foreground">percentComplete</strong>, <strong className="text-foreground">actualStart</strong> and <strong className="text-foreground">actualFinish</strong>: Progress so far, from 0 to 100 (a <code className="font-mono bg-muted/50 p-0.5 rounded">%</code> sign is allowed), and the <code className="font-mono bg-muted/50 p-0.5 rounded">YYYY-MM-DD</code> dates work actually started and finished. A started task stays on its actual start whatever its dependencies say, and a finished task ends on its actual finish.</li>
+                <li><strong className="text-foreground">budget</strong> and <strong className="text-foreground">actualCost</strong>: The task's budget at completion and what it has cost so far, for earned value. The budget defaults to the task's planned cost.</li>
+                <li><strong className="text-foreground">optimisticDuration</strong> and <strong className="text-foreground">pessimisticDuration</strong>: The shortest and longest the task could take, in whole working days, for risk analysis. The duration is the most likely; either may be left out, which makes it that duration.</li>
+                <li><strong className="text-foreground">recurrence</strong>: Repeats the task, e.g. <code className="font-mono bg-muted/50 p-0.5 rounded">every 2 weeks on Mon;Wed until 2024-06-30</code>, <code className="font-mono bg-muted/50 p-0.5 rounded">every day, 10 times</code> or <code className="font-mono bg-muted/50 p-0.5 rounded">every month on day 15, 6 times</code>. Each occurrence lasts the task's duration and becomes a subtask of it; the recurrence must give at least one occurrence on or after the start date.</li>
+                <li><strong className="text-foreground">interruptions</strong>: Days work on the task pauses, as a semicolon-separated list of days or ranges, e.g. <code className="font-mono bg-muted/50 p-0.5 rounded">2024-08-12/2024-08-14;2024-08-20</code>. The task is split around them and finishes that much later.</li>
+                <li><strong className="text-foreground">work</strong> and <strong className="text-foreground">taskType</strong>: The task's total work in person-days, which makes it effort-driven: its duration is the work divided by the assigned units, and <strong className="text-foreground">duration</strong> may then be left out. The task type, <code className="font-mono bg-muted/50 p-0.5 rounded">fixedUnits</code> (the default), <code className="font-mono bg-muted/50 p-0.5 rounded">fixedWork</code> or <code className="font-mono bg-muted/50 p-0.5 rounded">fixedDuration</code>, decides which of them changes when another is edited; a fixed duration task with both a duration and work takes its units from them.</li>
+                <li><strong className="text-foreground">fixedCost</strong>: Cost of the task apart from its resources, such as materials or fees, spread over its working days.</li>
             </ul>
+            <p>Lines before the header can define the working calendar, e.g. <code className="font-mono bg-muted/50 p-0.5 rounded">#workingDays,Sun;Mon;Tue;Wed;Thu</code>, <code className="font-mono bg-muted/50 p-0.5 rounded">#holiday,2024-12-25,Christmas Day</code> or <code className="font-mono bg-muted/50 p-0.5 rounded">#workday,2024-12-28</code>.</p>
+            <p>Resource calendars use <code className="font-mono bg-muted/50 p-0.5 rounded">#resource,Alice,Mon;Tue;Wed;Thu,2024-08-01</code> (working days and join date) and <code className="font-mono bg-muted/50 p-0.5 rounded">#vacation,Alice,2024-08-12,2024-08-16,Summer</code>. Leveling is set with <code className="font-mono bg-muted/50 p-0.5 rounded">#leveling,on,2024-08-01,2024-09-30</code> or <code className="font-mono bg-muted/50 p-0.5 rounded">#leveling,off</code>; <code className="font-mono bg-muted/50 p-0.5 rounded">#leveling,on,,,split</code> lets leveled tasks be split around work placed before them instead of waiting for a free stretch. <code className="font-mono bg-muted/50 p-0.5 rounded">#schedule,backward,2024-12-20</code> schedules every task as late as possible to finish by the date.</p>
+            <p>Saved baselines are exported as a <code className="font-mono bg-muted/50 p-0.5 rounded">#baseline,Approved Plan,2024-07-25</code> line (name and date saved) followed by one <code className="font-mono bg-muted/50 p-0.5 rounded">#baselineTask,Approved Plan,design,2024-08-01,2024-08-07,5,5,Alice</code> line per task (task id, start, finish, working duration, work and resources), so their variances survive a round trip.</p>
+            <p>Costs come from <code className="font-mono bg-muted/50 p-0.5 rounded">#rate,Alice,480,720,50</code> (a resource's cost per day, per day of overtime and per use; any may be left empty) and the project budget from <code className="font-mono bg-muted/50 p-0.5 rounded">#budget,120000</code>.</p>
           </div>
         </AlertDescription>
       </Alert>
@@ -159,9 +144,26 @@ export default function CsvUploader({ onDataUploaded, onClear, hasData }: CsvUpl
                     placeholder="Enter project name"
                 />
             </div>
-            <Button onClick={handleProcessFile} className="w-full">
-                <GanttChartSquare className="mr-2" /> Create Chart
-            </Button>
+            {isProcessing && (
+                <div className="space-y-2">
+                    <Progress value={progress && progress.total > 0 ? progress.done / progress.total * 100 : 0} />
+                    <p className="text-sm text-muted-foreground">
+                        {!progress
+                            ? 'Reading file...'
+                            : progress.phase === 'parsing'
+                                ? `Parsed ${progress.done} of ${progress.total} rows`
+                                : `Scheduled ${progress.done} of ${progress.total} tasks`}
+                    </p>
+                </div>
+            )}
+            <div className="flex gap-2">
+                <Button onClick={handleProcessFile} className="flex-1" disabled={isProcessing}>
+                    {isProcessing ? <Loader2 className="mr-2 animate-spin" /> : <GanttChartSquare className="mr-2" />} Create Chart
+                </Button>
+                <Button onClick={() => fileInputRef.current?.click()} variant="outline">
+                    <Upload className="mr-2" /> Change File
+                </Button>
+            </div>
         </div>
       )}
       
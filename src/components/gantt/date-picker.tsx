@@ -0,0 +1,37 @@
+"use client";
+
+import { Button } from '@/components/ui/button';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Calendar } from '@/components/ui/calendar';
+import { Calendar as CalendarIcon } from 'lucide-react';
+import type { PlainDate } from '@/lib/types';
+import { formatPlainDate, toLocalDate, toPlainDate } from '@/lib/plain-date';
+import { cn } from '@/lib/utils';
+
+interface DatePickerProps {
+  date?: PlainDate;
+  onSelect: (date: PlainDate) => void;
+  placeholder: string;
+}
+
+export default function DatePicker({ date, onSelect, placeholder }: DatePickerProps) {
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="outline" className={cn("w-full justify-start text-left font-normal", !date && "text-muted-foreground")}>
+          <CalendarIcon className="mr-2 h-4 w-4" />
+          {date ? formatPlainDate(date, 'MMM d, yyyy') : <span>{placeholder}</span>}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-auto p-0">
+        <Calendar
+          mode="single"
+          selected={date ? toLocalDate(date) : undefined}
+          defaultMonth={date ? toLocalDate(date) : undefined}
+          onSelect={(selected) => selected && onSelect(toPlainDate(selected))}
+          initialFocus
+        />
+      </PopoverContent>
+    </Popover>
+  );
+}
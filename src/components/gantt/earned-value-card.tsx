@@ -0,0 +1,161 @@
+"use client";
+
+import { useMemo } from 'react';
+import { format } from 'date-fns';
+import { CartesianGrid, Line, LineChart, ReferenceLine, XAxis, YAxis } from 'recharts';
+import { TrendingUp } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { ChartContainer, ChartLegend, ChartLegendContent, ChartTooltip, ChartTooltipContent, type ChartConfig } from '@/components/ui/chart';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import type { PlainDate, Task } from '@/lib/types';
+import { formatAmount, formatIndex, type EarnedValueMetrics, type EarnedValueReport } from '@/lib/earned-value';
+import { formatPlainDate, toLocalDate } from '@/lib/plain-date';
+import { PROJECT_TOTAL } from '@/lib/summary';
+import { cn } from '@/lib/utils';
+
+interface EarnedValueCardProps {
+  report: EarnedValueReport;
+  tasks: Task[];
+  statusDate: PlainDate;
+  baselineName?: string;
+}
+
+const chartConfig = {
+  pv: { label: 'Planned Value', color: 'hsl(var(--chart-1))' },
+  ev: { label: 'Earned Value', color: 'hsl(var(--chart-2))' },
+  ac: { label: 'Actual Cost', color: 'hsl(var(--chart-3))' },
+} satisfies ChartConfig;
+
+const METRIC_COLUMNS: { key: keyof EarnedValueMetrics; label: string; title: string }[] = [
+  { key: 'bac', label: 'BAC', title: 'Budget at completion' },
+  { key: 'pv', label: 'PV', title: 'Planned value' },
+  { key: 'ev', label: 'EV', title: 'Earned value' },
+  { key: 'ac', label: 'AC', title: 'Actual cost' },
+  { key: 'sv', label: 'SV', title: 'Schedule variance (EV - PV)' },
+  { key: 'cv', label: 'CV', title: 'Cost variance (EV - AC)' },
+  { key: 'spi', label: 'SPI', title: 'Schedule performance index (EV / PV)' },
+  { key: 'cpi', label: 'CPI', title: 'Cost performance index (EV / AC)' },
+  { key: 'eac', label: 'EAC', title: 'Estimate at completion' },
+  { key: 'etc', label: 'ETC', title: 'Estimate to complete' },
+];
+
+// Indices are shown to two decimals, amounts whole; behind schedule or over budget is highlighted
+const formatMetric = (metrics: EarnedValueMetrics, key: keyof EarnedValueMetrics) => {
+  return key === 'spi' || key === 'cpi' ? formatIndex(metrics[key]) : formatAmount(metrics[key] ?? 0);
+};
+
+const isUnfavourable = (metrics: EarnedValueMetrics, key: keyof EarnedValueMetrics) => {
+  switch (key) {
+    case 'sv':
+    case 'cv':
+      return metrics[key] < 0;
+    case 'spi':
+    case 'cpi':
+      return metrics[key] !== undefined && metrics[key]! < 1;
+    case 'eac':
+      return metrics.eac > metrics.bac;
+    default:
+      return false;
+  }
+};
+
+function MetricsTable({ nameLabel, rows, total }: { nameLabel: string; rows: [string, EarnedValueMetrics][]; total: EarnedValueMetrics }) {
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead className="w-[200px]">{nameLabel}</TableHead>
+          {METRIC_COLUMNS.map(column => (
+            <TableHead key={column.key} className="text-right" title={column.title}>{column.label}</TableHead>
+          ))}
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {[...rows, [PROJECT_TOTAL, total] as [string, EarnedValueMetrics]].map(([name, metrics], index) => (
+          <TableRow key={`${name}-${index}`} className={index === rows.length ? 'bg-muted/80 hover:bg-muted font-bold' : ''}>
+            <TableCell className="truncate max-w-[200px]">{name}</TableCell>
+            {METRIC_COLUMNS.map(column => (
+              <TableCell key={column.key} className={cn('text-right tabular-nums', { 'text-destructive': isUnfavourable(metrics, column.key) })}>
+                {formatMetric(metrics, column.key)}
+              </TableCell>
+            ))}
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+}
+
+export default function EarnedValueCard({ report, tasks, statusDate, baselineName }: EarnedValueCardProps) {
+  const chartData = useMemo(() => report.curve.map(point => ({ ...point, date: toLocalDate(point.date).getTime() })), [report]);
+  // Tasks in chart order, summaries included, with their titles
+  const taskRows = useMemo(
+    () => tasks.filter(task => report.tasks.has(task.id)).map(task => [task.title, report.tasks.get(task.id)!] as [string, EarnedValueMetrics]),
+    [tasks, report],
+  );
+  const { project } = report;
+
+  return (
+    <Card className="shadow-md">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <TrendingUp />
+          Earned Value
+        </CardTitle>
+        <CardDescription>
+          As of {formatPlainDate(statusDate, 'MMM d, yyyy')}. Planned value follows {baselineName ? `the "${baselineName}" baseline` : 'the current plan'}.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-2 sm:grid-cols-5 gap-2">
+          {METRIC_COLUMNS.map(column => (
+            <div key={column.key} className="rounded-md border p-3" title={column.title}>
+              <p className="text-xs text-muted-foreground">{column.label}</p>
+              <p className={cn('text-lg font-semibold tabular-nums', { 'text-destructive': isUnfavourable(project, column.key) })}>
+                {formatMetric(project, column.key)}
+              </p>
+            </div>
+          ))}
+        </div>
+
+        <ChartContainer config={chartConfig} className="aspect-auto h-[300px] w-full">
+          <LineChart data={chartData} margin={{ left: 12, right: 12 }}>
+            <CartesianGrid vertical={false} />
+            <XAxis
+              dataKey="date"
+              type="number"
+              scale="time"
+              domain={['dataMin', 'dataMax']}
+              tickFormatter={(value: number) => format(value, 'MMM d')}
+              tickLine={false}
+              axisLine={false}
+            />
+            <YAxis tickFormatter={(value: number) => formatAmount(value)} tickLine={false} axisLine={false} width={72} />
+            <ChartTooltip
+              content={<ChartTooltipContent labelFormatter={(_, payload) => payload[0] ? format(payload[0].payload.date, 'MMM d, yyyy') : ''} />}
+            />
+            <ChartLegend content={<ChartLegendContent />} />
+            <ReferenceLine x={toLocalDate(statusDate).getTime()} stroke="hsl(var(--muted-foreground))" strokeDasharray="4 4" />
+            <Line dataKey="pv" type="monotone" stroke="var(--color-pv)" strokeWidth={2} dot={false} />
+            <Line dataKey="ev" type="monotone" stroke="var(--color-ev)" strokeWidth={2} dot={false} connectNulls={false} />
+            <Line dataKey="ac" type="monotone" stroke="var(--color-ac)" strokeWidth={2} dot={false} connectNulls={false} />
+          </LineChart>
+        </ChartContainer>
+
+        <Tabs defaultValue="resources">
+          <TabsList>
+            <TabsTrigger value="resources">By Resource</TabsTrigger>
+            <TabsTrigger value="tasks">By Task</TabsTrigger>
+          </TabsList>
+          <TabsContent value="resources">
+            <MetricsTable nameLabel="Resource" rows={report.resources} total={project} />
+          </TabsContent>
+          <TabsContent value="tasks">
+            <MetricsTable nameLabel="Task" rows={taskRows} total={project} />
+          </TabsContent>
+        </Tabs>
+      </CardContent>
+    </Card>
+  );
+}
@@ -2,20 +2,45 @@
 "use client";
 
 import React, { useState, useMemo, useRef, useEffect } from 'react';
-import type { Task } from '@/lib/types';
-import { addDays, differenceInDays, format, eachDayOfInterval, min, max, getDay } from 'date-fns';
+import type { Task, WorkCalendar, Resource, Baseline, TaskVariance, PlainDate } from '@/lib/types';
+import { formatDependency, isMilestone } from '@/lib/task-utils';
+import { analyzeCriticalPath } from '@/lib/critical-path';
+import { getCalendarException, isWorkingDay } from '@/lib/calendar';
+import { addPlainDays, differenceInPlainDays, eachPlainDay, formatPlainDate, getPlainDayOfWeek, maxPlainDate, minPlainDate, today } from '@/lib/plain-date';
+import { createCalendarResolver, getAssignedResources } from '@/lib/resources';
+import { CONSTRAINT_LABELS } from '@/lib/constraints';
+import { formatRecurrence } from '@/lib/recurrence';
+import { getAncestorIds, getOutlineDepths } from '@/lib/hierarchy';
+import { formatVariance, getTaskVariances } from '@/lib/baselines';
+import { getPercentComplete, type TaskProgress } from '@/lib/progress';
+import type { TaskBudget } from '@/lib/earned-value';
+import { DEFAULT_TASK_TYPE, TASK_TYPE_LABELS, type TaskEffort } from '@/lib/effort';
+import { getDurationUnit } from '@/lib/elapsed';
 import { Button } from '@/components/ui/button';
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip';
-import { ChevronLeft, ChevronRight, ZoomIn, ZoomOut, User } from 'lucide-react';
+import { ChevronDown, ChevronLeft, ChevronRight, ZoomIn, ZoomOut, Route, AlertTriangle, CalendarX, Repeat } from 'lucide-react';
 import { cn } from '@/lib/utils';
-import { Badge } from '@/components/ui/badge';
+import AssignmentBadges, { formatAssignmentLabel } from '@/components/gantt/assignment-badges';
+import TaskRenameDialog from '@/components/gantt/task-rename-dialog';
+import TaskWorkDialog from '@/components/gantt/task-work-dialog';
+import TaskProgressDialog from '@/components/gantt/task-progress-dialog';
 
 interface GanttChartProps {
   tasks: Task[];
   projectName: string;
+  calendar: WorkCalendar;
+  resources: Resource[];
+  onRenameTask?: (taskId: string, changes: { id: string; title: string }) => void;
+  onUpdateProgress?: (taskId: string, changes: TaskProgress & TaskBudget) => void;
+  onUpdateWork?: (taskId: string, changes: TaskEffort) => void;
+  onEditSeries?: (taskId: string) => void; // a recurring task's duration and recurrence are edited outside the chart, which only has the schedule
+  cycleTaskIds?: string[]; // tasks of a circular dependency that kept the last change from being scheduled
+  baseline?: Baseline; // drawn under the live bars, with variance columns in the task list
 }
 
 const ROW_HEIGHT = 40;
+// Elapsed tasks run on calendar time, so their bars are striped to tell them apart from working-day tasks
+const ELAPSED_PATTERN = 'bg-[repeating-linear-gradient(-45deg,transparent,transparent_4px,rgba(255,255,255,0.35)_4px,rgba(255,255,255,0.35)_8px)]';
 const DAY_CELL_WIDTH_MIN = 20;
 const DAY_CELL_WIDTH_MAX = 150;
 const DAY_CELL_WIDTH_DEFAULT = 50;
@@ -23,59 +48,174 @@ const HEADER_HEIGHT = 40;
 const TASK_LIST_WIDTH = 250;
 const TASK_BAR_HEIGHT = 28;
 const ARROW_HEAD_SIZE = 5;
+const ARROW_ELBOW_OFFSET = 12;
+const MILESTONE_SIZE = 20;
+const SUMMARY_BAR_HEIGHT = 12;
+const OUTLINE_INDENT = 16;
+const BASELINE_BAR_HEIGHT = 4;
+const BASELINE_MILESTONE_SIZE = 8;
+const VARIANCE_COLUMN_WIDTH = 48;
+const VARIANCE_COLUMNS = [
+  { key: 'start', label: 'Start', title: 'Start variance in working days' },
+  { key: 'finish', label: 'Finish', title: 'Finish variance in working days' },
+  { key: 'duration', label: 'Dur.', title: 'Duration variance in working days' },
+] as const;
 
-export default function GanttChart({ tasks, projectName }: GanttChartProps) {
+export default function GanttChart({ tasks, projectName, calendar, resources, onRenameTask, onUpdateProgress, onUpdateWork, onEditSeries, cycleTaskIds = [], baseline }: GanttChartProps) {
   const [dayCellWidth, setDayCellWidth] = useState(DAY_CELL_WIDTH_DEFAULT);
+  const [showCriticalPath, setShowCriticalPath] = useState(true);
+  const [collapsedIds, setCollapsedIds] = useState<Set<string>>(new Set());
+  const [renamingTask, setRenamingTask] = useState<Task | null>(null);
+  const [workTask, setWorkTask] = useState<Task | null>(null);
+  const [progressTask, setProgressTask] = useState<Task | null>(null);
   const scrollContainerRef = useRef<HTMLDivElement>(null);
 
   const { chartStartDate, chartEndDate } = useMemo(() => {
     if (tasks.length === 0) {
-      const today = new Date();
-      return { chartStartDate: today, chartEndDate: addDays(today, 30) };
+      const start = today();
+      return { chartStartDate: start, chartEndDate: addPlainDays(start, 30) };
     }
-    const startDates = tasks.map(t => t.startDate);
-    const endDates = tasks.map(t => t.endDate).filter((d): d is Date => !!d);
+    // Baseline dates of the current tasks are kept in view too, so tasks that moved still show where they were
+    const baselineTasks = baseline ? tasks.map(t => baseline.tasks.get(t.id)).filter(t => !!t) : [];
+    const startDates = [...tasks.map(t => t.startDate), ...baselineTasks.map(t => t.startDate)];
+    const endDates = [...tasks.map(t => t.endDate), ...baselineTasks.map(t => t.endDate)].filter((d): d is PlainDate => !!d);
     
-    const minDate = min(startDates);
-    const maxDate = endDates.length > 0 ? max(endDates) : addDays(minDate, 30);
+    const minDate = minPlainDate(startDates);
+    const maxDate = endDates.length > 0 ? maxPlainDate(endDates) : addPlainDays(minDate, 30);
     
     return {
-      chartStartDate: addDays(minDate, -1),
-      chartEndDate: addDays(maxDate, 7),
+      chartStartDate: addPlainDays(minDate, -1),
+      chartEndDate: addPlainDays(maxDate, 7),
     };
-  }, [tasks]);
+  }, [tasks, baseline]);
 
   const days = useMemo(() => {
-    return eachDayOfInterval({ start: chartStartDate, end: chartEndDate });
+    return eachPlainDay(chartStartDate, chartEndDate);
   }, [chartStartDate, chartEndDate]);
 
+  const criticalPath = useMemo(() => analyzeCriticalPath(tasks, { calendar, resources }), [tasks, calendar, resources]);
+
+  const outlineDepths = useMemo(() => getOutlineDepths(tasks), [tasks]);
+  const taskTitles = useMemo(() => new Map(tasks.map(t => [t.id, t.title])), [tasks]);
+  const cycleIds = useMemo(() => new Set(cycleTaskIds), [cycleTaskIds]);
+  const variances = useMemo(
+    () => baseline ? getTaskVariances(tasks, baseline, createCalendarResolver(calendar, resources)) : new Map<string, TaskVariance>(),
+    [tasks, baseline, calendar, resources],
+  );
+  const taskListWidth = TASK_LIST_WIDTH + (baseline ? VARIANCE_COLUMNS.length * VARIANCE_COLUMN_WIDTH : 0);
+
+  // Tasks under a collapsed summary task are hidden from both the list and the chart
+  const visibleTasks = useMemo(() => {
+    if (collapsedIds.size === 0) return tasks;
+    const taskById = new Map(tasks.map(t => [t.id, t]));
+    return tasks.filter(task => !getAncestorIds(task, taskById).some(id => collapsedIds.has(id)));
+  }, [tasks, collapsedIds]);
+
+  const handleToggleCollapsed = (taskId: string) => {
+    setCollapsedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(taskId)) {
+        next.delete(taskId);
+      } else {
+        next.add(taskId);
+      }
+      return next;
+    });
+  };
+
   const tasksWithPositions = useMemo(() => {
-    return tasks.map((task, index) => {
+    return visibleTasks.map((task, index) => {
       const top = index * ROW_HEIGHT + (ROW_HEIGHT - TASK_BAR_HEIGHT) / 2;
-      const left = differenceInDays(task.startDate, chartStartDate) * dayCellWidth;
-      const width = task.duration * dayCellWidth - 2; // -2 for padding
-      return { ...task, top, left, width, rowIndex: index };
+      const dayLeft = differenceInPlainDays(task.startDate, chartStartDate) * dayCellWidth;
+      // Milestones are diamonds centred on the end of their day, where their predecessors finish
+      const left = isMilestone(task) ? dayLeft + dayCellWidth - MILESTONE_SIZE / 2 : dayLeft;
+      const width = isMilestone(task) ? MILESTONE_SIZE : task.duration * dayCellWidth - 2; // -2 for padding
+      const barHeight = task.isSummary ? SUMMARY_BAR_HEIGHT : isMilestone(task) ? MILESTONE_SIZE : TASK_BAR_HEIGHT;
+      const bottom = top + (TASK_BAR_HEIGHT + barHeight) / 2;
+      const cpm = criticalPath.get(task.id);
+      // Float is drawn as a ghost bar from the task's finish to its late finish
+      const floatWidth = cpm ? differenceInPlainDays(cpm.lateFinish, task.endDate) * dayCellWidth : 0;
+      // The baseline is drawn as a thin bar just below the live one
+      const baselineTask = baseline?.tasks.get(task.id);
+      const baselineBar = baselineTask && {
+        top: top + TASK_BAR_HEIGHT + 1,
+        left: differenceInPlainDays(baselineTask.startDate, chartStartDate) * dayCellWidth,
+        width: (differenceInPlainDays(baselineTask.endDate, baselineTask.startDate) + 1) * dayCellWidth - 2,
+        isMilestone: baselineTask.workingDuration === 0,
+      };
+      // A split task is drawn as its segments joined by a thin line, each placed relative to the bar
+      const segmentBars = task.segments?.map(segment => ({
+        left: differenceInPlainDays(segment.startDate, task.startDate) * dayCellWidth,
+        width: (differenceInPlainDays(segment.endDate, segment.startDate) + 1) * dayCellWidth - 2,
+      }));
+      return { ...task, top, left, width, bottom, floatWidth, cpm, baselineTask, baselineBar, segmentBars, percentComplete: getPercentComplete(task), rowIndex: index };
     });
-  }, [tasks, chartStartDate, dayCellWidth]);
+  }, [visibleTasks, chartStartDate, dayCellWidth, criticalPath, baseline]);
+
+  // Days one of a task's resources is unavailable although the project is working (vacations, part-time days, before joining)
+  const resourceOffDays = useMemo(() => {
+    const getCalendar = createCalendarResolver(calendar, resources);
+    const resourceMap = new Map(resources.map(r => [r.name, r]));
+    const cells: { key: string; top: number; left: number }[] = [];
+
+    visibleTasks.forEach((task, rowIndex) => {
+      const taskResources = task.assignments.map(a => resourceMap.get(a.resource)).filter((r): r is Resource => !!r);
+      // Elapsed tasks run through their resources' days off
+      if (taskResources.length === 0 || task.elapsed) return;
+      const resourceCalendar = getCalendar(getAssignedResources(task));
+      days.forEach((day, dayIndex) => {
+        const beforeJoining = taskResources.some(r => !!r.startDate && day < r.startDate);
+        if (isWorkingDay(day, calendar) && (beforeJoining || !isWorkingDay(day, resourceCalendar))) {
+          cells.push({ key: `${task.id}-${dayIndex}`, top: rowIndex * ROW_HEIGHT, left: dayIndex * dayCellWidth });
+        }
+      });
+    });
+    return cells;
+  }, [visibleTasks, days, calendar, resources, dayCellWidth]);
 
   const dependencyLines = useMemo(() => {
-    const taskMap = new Map(tasksWithPositions.map(t => [t.title, t]));
+    const taskMap = new Map(tasksWithPositions.map(t => [t.id, t]));
     const lines: { key: string; d: string }[] = [];
   
     tasksWithPositions.forEach(task => {
       if(task.dependencies) {
-        task.dependencies.forEach(depTitle => {
-          const dependencyTask = taskMap.get(depTitle);
+        task.dependencies.forEach(dependency => {
+          const dependencyTask = taskMap.get(dependency.predecessor);
           if (dependencyTask) {
-            const startX = dependencyTask.left + dependencyTask.width / 2;
-            const startY = dependencyTask.top + TASK_BAR_HEIGHT; 
-            
-            const endX = task.left;
             const endY = task.top + TASK_BAR_HEIGHT / 2;
+            const dependencyCenterY = dependencyTask.top + TASK_BAR_HEIGHT / 2;
+            const dependencyRight = dependencyTask.left + dependencyTask.width;
+            const taskRight = task.left + task.width;
+            let d: string;
 
-            const d = `M ${startX} ${startY} V ${endY} H ${endX}`;
+            switch (dependency.type) {
+              case 'SS': {
+                // From the predecessor's left edge, out to the left, down, then into the successor's left edge
+                const turnX = Math.min(dependencyTask.left, task.left) - ARROW_ELBOW_OFFSET;
+                d = `M ${dependencyTask.left} ${dependencyCenterY} H ${turnX} V ${endY} H ${task.left}`;
+                break;
+              }
+              case 'FF': {
+                // From the predecessor's right edge, out to the right, down, then into the successor's right edge
+                const turnX = Math.max(dependencyRight, taskRight) + ARROW_ELBOW_OFFSET;
+                d = `M ${dependencyRight} ${dependencyCenterY} H ${turnX} V ${endY} H ${taskRight}`;
+                break;
+              }
+              case 'SF': {
+                // From the predecessor's left edge, out to the left, down, then into the successor's right edge
+                const turnX = dependencyTask.left - ARROW_ELBOW_OFFSET;
+                d = `M ${dependencyTask.left} ${dependencyCenterY} H ${turnX} V ${endY} H ${taskRight}`;
+                break;
+              }
+              case 'FS':
+              default: {
+                const startX = dependencyTask.left + dependencyTask.width / 2;
+                d = `M ${startX} ${dependencyTask.bottom} V ${endY} H ${task.left}`;
+                break;
+              }
+            }
 
-            lines.push({ key: `${depTitle}-${task.id}`, d });
+            lines.push({ key: `${dependency.predecessor}-${dependency.type}-${task.id}`, d });
           }
         });
       }
@@ -98,13 +238,23 @@ export default function GanttChart({ tasks, projectName }: GanttChartProps) {
     }
   };
   
+  // What the scroll position was last set for. When tasks are rescheduled in place the same dates stay in view;
+  // the view is only positioned afresh on mount and when zooming.
+  const scrollAnchorRef = useRef<{ chartStartDate: PlainDate; dayCellWidth: number } | null>(null);
+
   useEffect(() => {
     if (scrollContainerRef.current) {
+      const anchor = scrollAnchorRef.current;
+      scrollAnchorRef.current = { chartStartDate, dayCellWidth };
+      if (anchor && anchor.dayCellWidth === dayCellWidth) {
+        scrollContainerRef.current.scrollLeft += differenceInPlainDays(anchor.chartStartDate, chartStartDate) * dayCellWidth;
+        return;
+      }
       if(tasks.length > 0) {
-        const firstTaskLeft = differenceInDays(tasks[0].startDate, chartStartDate) * dayCellWidth;
+        const firstTaskLeft = differenceInPlainDays(tasks[0].startDate, chartStartDate) * dayCellWidth;
         scrollContainerRef.current.scrollLeft = Math.max(0, firstTaskLeft - 50);
       } else {
-        const todayIndex = differenceInDays(new Date(), chartStartDate);
+        const todayIndex = differenceInPlainDays(today(), chartStartDate);
         if (todayIndex > 0 && todayIndex < days.length) {
           scrollContainerRef.current.scrollLeft = (todayIndex * dayCellWidth) - (scrollContainerRef.current.clientWidth / 2);
         } else {
@@ -115,7 +265,7 @@ export default function GanttChart({ tasks, projectName }: GanttChartProps) {
   }, [tasks, chartStartDate, dayCellWidth, days.length]);
 
   const chartWidth = days.length * dayCellWidth;
-  const chartHeight = tasks.length * ROW_HEIGHT;
+  const chartHeight = visibleTasks.length * ROW_HEIGHT;
 
   return (
     <TooltipProvider>
@@ -125,6 +275,14 @@ export default function GanttChart({ tasks, projectName }: GanttChartProps) {
             {projectName} Timeline
           </div>
           <div className="flex items-center gap-1">
+            <Button
+              variant={showCriticalPath ? 'default' : 'outline'}
+              size="icon"
+              onClick={() => setShowCriticalPath(prev => !prev)}
+              title={showCriticalPath ? 'Hide critical path' : 'Show critical path'}
+            >
+              <Route className="h-4 w-4" />
+            </Button>
             <Button variant="outline" size="icon" onClick={() => handlePan('left')}>
               <ChevronLeft className="h-4 w-4" />
             </Button>
@@ -141,28 +299,74 @@ export default function GanttChart({ tasks, projectName }: GanttChartProps) {
         </div>
         <div className="flex">
            {/* Task List and Header (Sticky) */}
-           <div className="sticky left-0 z-20 bg-background flex flex-col border-r" style={{ width: TASK_LIST_WIDTH, minWidth: TASK_LIST_WIDTH }}>
-              <div className="z-10 border-b p-2 flex items-center bg-background" style={{ width: TASK_LIST_WIDTH, minWidth: TASK_LIST_WIDTH, height: HEADER_HEIGHT }}>
-                  <h4 className="font-semibold">Tasks</h4>
+           <div className="sticky left-0 z-20 bg-background flex flex-col border-r" style={{ width: taskListWidth, minWidth: taskListWidth }}>
+              <div className="z-10 border-b p-2 flex items-center bg-background" style={{ width: taskListWidth, minWidth: taskListWidth, height: HEADER_HEIGHT }}>
+                  <h4 className="font-semibold flex-grow">Tasks</h4>
+                  {baseline && VARIANCE_COLUMNS.map(column => (
+                    <span key={column.key} className="shrink-0 text-right text-xs text-muted-foreground" style={{ width: VARIANCE_COLUMN_WIDTH }} title={column.title}>
+                      {column.label}
+                    </span>
+                  ))}
               </div>
               <div className="flex-grow bg-background" style={{ height: chartHeight }}>
                  {tasksWithPositions.map((task, index) => (
                     <div 
                       key={task.id} 
-                      className="p-2 border-b truncate text-sm flex items-center justify-between"
-                      style={{ height: ROW_HEIGHT, width: TASK_LIST_WIDTH }}
+                      className={cn("p-2 border-b truncate text-sm flex items-center justify-between", { "bg-destructive/10": cycleIds.has(task.id) })}
+                      style={{ height: ROW_HEIGHT, width: taskListWidth }}
                     >
-                      <div className='flex items-center gap-2'>
-                          <span className="font-medium truncate">{task.title}</span>
-                          <span className="text-muted-foreground">{task.workingDuration} days</span>
+                      <div className='flex items-center gap-2 min-w-0' style={{ paddingLeft: (outlineDepths.get(task.id) ?? 0) * OUTLINE_INDENT }}>
+                          {task.isSummary && (
+                            <button
+                              type="button"
+                              className="shrink-0 text-muted-foreground hover:text-foreground"
+                              onClick={() => handleToggleCollapsed(task.id)}
+                              title={collapsedIds.has(task.id) ? 'Expand' : 'Collapse'}
+                            >
+                              {collapsedIds.has(task.id) ? <ChevronRight className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+                            </button>
+                          )}
+                          <span
+                            className={cn("truncate", task.isSummary ? "font-bold" : "font-medium", { "cursor-pointer hover:underline": onRenameTask })}
+                            onClick={() => onRenameTask && setRenamingTask(task)}
+                            title={onRenameTask ? 'Rename task' : undefined}
+                          >
+                            {task.title}
+                          </span>
+                          {task.recurrence && (
+                            <button
+                              type="button"
+                              className={cn("shrink-0 text-muted-foreground", { "hover:text-foreground": onEditSeries })}
+                              onClick={() => onEditSeries?.(task.id)}
+                              title={`Repeats ${formatRecurrence(task.recurrence)}`}
+                            >
+                              <Repeat className="h-4 w-4" />
+                            </button>
+                          )}
+                          <span
+                            className={cn("text-muted-foreground whitespace-nowrap", { "cursor-pointer hover:underline": onUpdateWork && !task.isSummary })}
+                            onClick={() => onUpdateWork && !task.isSummary && setWorkTask(task)}
+                            title={onUpdateWork && !task.isSummary ? 'Edit work, duration and units' : undefined}
+                          >
+                            {isMilestone(task) ? 'Milestone' : `${task.workingDuration} ${getDurationUnit(task)}`}
+                            {task.percentComplete > 0 && ` · ${task.percentComplete}%`}
+                          </span>
                       </div>
 
-                      {task.resource && (
-                        <Badge variant="secondary" className="gap-1.5 shrink-0">
-                          <User className="w-3 h-3" />
-                          {task.resource}
-                        </Badge>
-                      )}
+                      <AssignmentBadges assignments={task.assignments} />
+
+                      {baseline && VARIANCE_COLUMNS.map(column => {
+                        const variance = variances.get(task.id)?.[column.key];
+                        return (
+                          <span
+                            key={column.key}
+                            className={cn("shrink-0 text-right text-xs tabular-nums", (variance ?? 0) > 0 ? "text-destructive" : "text-muted-foreground")}
+                            style={{ width: VARIANCE_COLUMN_WIDTH }}
+                          >
+                            {variance === undefined ? '–' : formatVariance(variance)}
+                          </span>
+                        );
+                      })}
                     </div>
                   ))}
               </div>
@@ -173,17 +377,19 @@ export default function GanttChart({ tasks, projectName }: GanttChartProps) {
               {/* Header Row */}
               <div className="sticky top-0 z-20 bg-background flex" style={{ width: chartWidth }}>
                  {days.map((day) => {
-                      const dayOfWeek = getDay(day);
-                      const isWeekend = dayOfWeek === 0 || dayOfWeek === 6;
+                      const isNonWorking = !isWorkingDay(day, calendar);
+                      const exception = getCalendarException(day, calendar);
                       return (
                         <div 
-                          key={day.toISOString()} 
+                          key={day} 
+                          title={exception?.name || undefined}
                           className={cn("flex items-center justify-center border-b border-r text-center text-xs text-muted-foreground", {
-                            "bg-muted/75": isWeekend,
+                            "bg-muted/75": isNonWorking,
+                            "text-accent": exception && !exception.isWorking,
                           })}
                           style={{ width: dayCellWidth, minWidth: dayCellWidth, height: HEADER_HEIGHT }}
                         >
-                          <div>{format(day, 'MMM d')}</div>
+                          <div>{formatPlainDate(day, 'MMM d')}</div>
                         </div>
                       )
                     })}
@@ -196,13 +402,13 @@ export default function GanttChart({ tasks, projectName }: GanttChartProps) {
                 {/* Vertical grid lines */}
                 <div className="absolute top-0 left-0 h-full w-full">
                   {days.map((day, index) => {
-                    const dayOfWeek = getDay(day);
-                    const isWeekend = dayOfWeek === 0 || dayOfWeek === 6;
+                    const dayOfWeek = getPlainDayOfWeek(day);
+                    const isNonWorking = !isWorkingDay(day, calendar);
                     return (
                       <div 
-                        key={day.toISOString()} 
+                        key={day} 
                         className={cn("absolute top-0 h-full border-r", {
-                          "bg-muted/75": isWeekend,
+                          "bg-muted/75": isNonWorking,
                         })}
                         style={{ 
                           left: index * dayCellWidth, 
@@ -214,6 +420,15 @@ export default function GanttChart({ tasks, projectName }: GanttChartProps) {
                   })}
                 </div>
                 
+                {/* Resource non-working days */}
+                {resourceOffDays.map(cell => (
+                  <div
+                    key={cell.key}
+                    className="absolute bg-muted/75 bg-[repeating-linear-gradient(45deg,transparent,transparent_4px,hsl(var(--border))_4px,hsl(var(--border))_5px)]"
+                    style={{ top: cell.top, left: cell.left, width: dayCellWidth, height: ROW_HEIGHT }}
+                  />
+                ))}
+
                 {/* Horizontal grid lines */}
                 {tasksWithPositions.map((_, index) => (
                   <div key={index} className="w-full border-b" style={{ height: ROW_HEIGHT, top: index*ROW_HEIGHT, position: 'absolute' }} />
@@ -233,23 +448,165 @@ export default function GanttChart({ tasks, projectName }: GanttChartProps) {
                       ))}
                     </svg>
 
+                    {/* Float Ghost Bars */}
+                    {showCriticalPath && tasksWithPositions.map((task) => task.floatWidth > 0 && (
+                        <div
+                          key={`float-${task.id}`}
+                          className="absolute rounded-md border border-dashed border-primary/50 bg-primary/10 z-0"
+                          style={{ top: task.top, left: task.left + task.width + 2, width: task.floatWidth - 2, height: TASK_BAR_HEIGHT }}
+                        />
+                    ))}
+
+                    {/* Baseline Ghost Bars */}
+                    {tasksWithPositions.map((task) => task.baselineBar && (
+                        task.baselineBar.isMilestone ? (
+                          <div
+                            key={`baseline-${task.id}`}
+                            className="absolute bg-muted-foreground/50 z-0"
+                            style={{
+                              top: task.baselineBar.top + BASELINE_BAR_HEIGHT - BASELINE_MILESTONE_SIZE,
+                              left: task.baselineBar.left + dayCellWidth - BASELINE_MILESTONE_SIZE / 2,
+                              width: BASELINE_MILESTONE_SIZE,
+                              height: BASELINE_MILESTONE_SIZE,
+                              clipPath: 'polygon(50% 0, 100% 50%, 50% 100%, 0 50%)',
+                            }}
+                          />
+                        ) : (
+                          <div
+                            key={`baseline-${task.id}`}
+                            className="absolute rounded-sm bg-muted-foreground/50 z-0"
+                            style={{ top: task.baselineBar.top, left: task.baselineBar.left, width: task.baselineBar.width, height: BASELINE_BAR_HEIGHT }}
+                          />
+                        )
+                    ))}
+
                     {/* Task Bars */}
                     {tasksWithPositions.map((task) => (
                         <Tooltip key={task.id}>
                           <TooltipTrigger asChild>
-                            <div
-                              className="absolute rounded-md flex items-center justify-start pl-2 cursor-pointer transition-all duration-200 z-10 bg-primary/80 hover:bg-primary"
-                              style={{ top: task.top, left: task.left, width: task.width, height: TASK_BAR_HEIGHT }}
-                            >
-                              <span className="text-xs font-medium text-primary-foreground truncate hidden md:inline">{task.title}</span>
-                            </div>
+                            {task.isSummary ? (
+                              <div
+                                className={cn("absolute cursor-pointer transition-all duration-200 z-10",
+                                  showCriticalPath && task.cpm?.isCritical
+                                    ? "bg-destructive hover:bg-destructive/80"
+                                    : "bg-foreground/80 hover:bg-foreground"
+                                )}
+                                style={{
+                                  top: task.top + (TASK_BAR_HEIGHT - SUMMARY_BAR_HEIGHT) / 2,
+                                  left: task.left,
+                                  width: task.width,
+                                  height: SUMMARY_BAR_HEIGHT,
+                                  // Bracket shape with downward points at both ends
+                                  clipPath: 'polygon(0 0, 100% 0, 100% 100%, calc(100% - 6px) 50%, 6px 50%, 0 100%)',
+                                }}
+                              >
+                                {/* Rolled-up progress fills the top of the bracket */}
+                                <div className="h-1/2 bg-primary" style={{ width: `${task.percentComplete}%` }} />
+                              </div>
+                            ) : isMilestone(task) ? (
+                              <div
+                                className="absolute flex items-center gap-1 cursor-pointer z-10"
+                                style={{ top: task.top, left: task.left, height: TASK_BAR_HEIGHT }}
+                                onClick={() => onUpdateProgress && setProgressTask(task)}
+                              >
+                                <div
+                                  className={cn("shrink-0 transition-all duration-200",
+                                    showCriticalPath && task.cpm?.isCritical
+                                      ? "bg-destructive/80 hover:bg-destructive"
+                                      : "bg-accent hover:bg-accent/80"
+                                  )}
+                                  style={{ width: MILESTONE_SIZE, height: MILESTONE_SIZE, clipPath: 'polygon(50% 0, 100% 50%, 50% 100%, 0 50%)' }}
+                                />
+                                {task.constraintConflict && <CalendarX className="w-3 h-3 shrink-0 text-destructive" />}
+                                <span className="text-xs font-medium whitespace-nowrap hidden md:inline">{task.title}</span>
+                              </div>
+                            ) : (
+                              <div
+                                className={cn("group absolute rounded-md flex items-center justify-start pl-2 cursor-pointer transition-all duration-200 z-10", 
+                                  task.segmentBars
+                                    ? "bg-transparent"
+                                    : showCriticalPath && task.cpm?.isCritical
+                                      ? "bg-destructive/80 hover:bg-destructive"
+                                      : "bg-primary/80 hover:bg-primary",
+                                  { [ELAPSED_PATTERN]: task.elapsed && !task.segmentBars },
+                                  { "ring-2 ring-destructive ring-offset-1": task.isOverallocated },
+                                { "outline outline-2 outline-offset-2 outline-accent": cycleIds.has(task.id) }
+                                )}
+                                style={{ top: task.top, left: task.left, width: task.width, height: TASK_BAR_HEIGHT }}
+                                onClick={() => onUpdateProgress && setProgressTask(task)}
+                              >
+                                {task.segmentBars && (
+                                  <>
+                                    <div className={cn("absolute left-0 top-1/2 h-0.5 w-full -translate-y-1/2 pointer-events-none",
+                                      showCriticalPath && task.cpm?.isCritical ? "bg-destructive/80" : "bg-primary/80"
+                                    )} />
+                                    {task.segmentBars.map(segment => (
+                                      <div
+                                        key={segment.left}
+                                        className={cn("absolute top-0 h-full rounded-md pointer-events-none",
+                                          showCriticalPath && task.cpm?.isCritical
+                                            ? "bg-destructive/80 group-hover:bg-destructive"
+                                            : "bg-primary/80 group-hover:bg-primary",
+                                          { [ELAPSED_PATTERN]: task.elapsed }
+                                        )}
+                                        style={{ left: segment.left, width: segment.width }}
+                                      />
+                                    ))}
+                                  </>
+                                )}
+                                {/* Progress fills the bar from the left; the icons and title stay on top */}
+                                {task.percentComplete > 0 && (
+                                  <div className="absolute top-0 left-0 h-full rounded-md bg-black/25 pointer-events-none" style={{ width: `${task.percentComplete}%` }} />
+                                )}
+                                {task.isOverallocated && <AlertTriangle className="relative w-3 h-3 mr-1 shrink-0 text-primary-foreground" />}
+                                {task.constraintConflict && <CalendarX className="relative w-3 h-3 mr-1 shrink-0 text-primary-foreground" />}
+                                <span className="relative text-xs font-medium text-primary-foreground truncate hidden md:inline">{task.title}</span>
+                              </div>
+                            )}
                           </TooltipTrigger>
                           <TooltipContent>
                             <p className="font-bold">{task.title}</p>
-                            {task.resource && <p>Resource: {task.resource}</p>}
-                            <p>Start: {format(task.startDate, 'MMM d, yyyy')}</p>
-                            {task.endDate && <p>End: {format(task.endDate, 'MMM d, yyyy')}</p>}
-                            <p>Duration: {task.workingDuration} working days</p>
+                            {task.assignments.length > 0 && <p>Resources: {task.assignments.map(formatAssignmentLabel).join(', ')}</p>}
+                            {task.isSummary && <p>Summary task</p>}
+                            {isMilestone(task) ? (
+                              <p>Milestone: {formatPlainDate(task.startDate, 'MMM d, yyyy')}</p>
+                            ) : (
+                              <>
+                                <p>Start: {formatPlainDate(task.startDate, 'MMM d, yyyy')}</p>
+                                {task.endDate && <p>End: {formatPlainDate(task.endDate, 'MMM d, yyyy')}</p>}
+                                <p>Duration: {task.workingDuration} {getDurationUnit(task)}</p>
+                                {task.work !== undefined && <p>Work: {task.work} person-days ({TASK_TYPE_LABELS[task.taskType ?? DEFAULT_TASK_TYPE]})</p>}
+                              </>
+                            )}
+                            {task.priority !== undefined && <p>Priority: {task.priority}</p>}
+                            {(task.percentComplete > 0 || task.actualStart) && <p>Progress: {task.percentComplete}% complete</p>}
+                            {task.actualStart && <p>Actual Start: {formatPlainDate(task.actualStart, 'MMM d, yyyy')}</p>}
+                            {task.actualFinish && <p>Actual Finish: {formatPlainDate(task.actualFinish, 'MMM d, yyyy')}</p>}
+                            {task.constraint && (
+                              <p>Constraint: {CONSTRAINT_LABELS[task.constraint.type]}{task.constraint.date && ` ${formatPlainDate(task.constraint.date, 'MMM d, yyyy')}`}</p>
+                            )}
+                            {task.baselineTask && baseline && (
+                              <p>
+                                Baseline ({baseline.name}): {formatPlainDate(task.baselineTask.startDate, 'MMM d, yyyy')} – {formatPlainDate(task.baselineTask.endDate, 'MMM d, yyyy')}
+                                {variances.has(task.id) && `, finish ${formatVariance(variances.get(task.id)!.finish)}`}
+                              </p>
+                            )}
+                            {task.segments && <p>Split into {task.segments.length} segments</p>}
+                            {task.levelingDelay > 0 && <p>Moved by leveling: {task.levelingDelay} working days</p>}
+                            {task.isOverallocated && <p className="font-semibold text-destructive">Overallocated: a resource is booked beyond full time while this task runs</p>}
+                            {task.constraintConflict && <p className="font-semibold text-destructive">Constraint conflict: {task.constraintConflict}</p>}
+                            {cycleIds.has(task.id) && <p className="font-semibold text-destructive">Part of a circular dependency</p>}
+                            {task.dependencies.length > 0 && (
+                              <p>Depends on: {task.dependencies.map(d => formatDependency({ ...d, predecessor: taskTitles.get(d.predecessor) ?? d.predecessor })).join(', ')}</p>
+                            )}
+                            {task.cpm && (
+                              <>
+                                <p>Late Start: {formatPlainDate(task.cpm.lateStart, 'MMM d, yyyy')}</p>
+                                <p>Late Finish: {formatPlainDate(task.cpm.lateFinish, 'MMM d, yyyy')}</p>
+                                <p>Total Float: {task.cpm.totalFloat} days, Free Float: {task.cpm.freeFloat} days</p>
+                                {task.cpm.isCritical && <p className="font-semibold text-destructive">On the critical path</p>}
+                              </>
+                            )}
                           </TooltipContent>
                         </Tooltip>
                     ))}
@@ -259,6 +616,36 @@ export default function GanttChart({ tasks, projectName }: GanttChartProps) {
           </div>
         </div>
       </div>
+      {onUpdateProgress && (
+        <TaskProgressDialog
+          task={progressTask}
+          onOpenChange={(open) => !open && setProgressTask(null)}
+          onSave={(taskId, changes) => {
+            onUpdateProgress(taskId, changes);
+            setProgressTask(null);
+          }}
+        />
+      )}
+      {onUpdateWork && (
+        <TaskWorkDialog
+          task={workTask}
+          onOpenChange={(open) => !open && setWorkTask(null)}
+          onSave={(taskId, changes) => {
+            onUpdateWork(taskId, changes);
+            setWorkTask(null);
+          }}
+        />
+      )}
+      {onRenameTask && (
+        <TaskRenameDialog
+          task={renamingTask}
+          onOpenChange={(open) => !open && setRenamingTask(null)}
+          onSave={(taskId, changes) => {
+            onRenameTask(taskId, changes);
+            setRenamingTask(null);
+          }}
+        />
+      )}
     </TooltipProvider>
   );
 }
@@ -0,0 +1,77 @@
+"use client";
+
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { X } from 'lucide-react';
+import type { LevelingOptions } from '@/lib/types';
+import DatePicker from '@/components/gantt/date-picker';
+
+interface LevelingSettingsProps {
+  options: LevelingOptions;
+  onChange: (options: LevelingOptions) => void;
+}
+
+export default function LevelingSettings({ options, onChange }: LevelingSettingsProps) {
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-2">
+        <Switch
+          id="leveling-enabled"
+          checked={options.enabled}
+          onCheckedChange={(enabled) => onChange({ ...options, enabled })}
+        />
+        <Label htmlFor="leveling-enabled">Level resources</Label>
+      </div>
+      <p className="text-sm text-muted-foreground">
+        {options.enabled
+          ? 'Resource conflicts are resolved by priority, then float, then task id.'
+          : 'Showing the unleveled schedule. Overallocated tasks are flagged on the chart.'}
+      </p>
+      {options.enabled && (
+        <div className="grid grid-cols-2 gap-2">
+          <div className="space-y-1">
+            <Label className="text-xs text-muted-foreground">Level From</Label>
+            <div className="flex gap-1">
+              <DatePicker
+                date={options.windowStart}
+                onSelect={(windowStart) => onChange({ ...options, windowStart })}
+                placeholder="Project start"
+              />
+              {options.windowStart && (
+                <Button variant="ghost" size="icon" onClick={() => onChange({ ...options, windowStart: undefined })}>
+                  <X className="h-4 w-4" />
+                </Button>
+              )}
+            </div>
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs text-muted-foreground">Level To</Label>
+            <div className="flex gap-1">
+              <DatePicker
+                date={options.windowEnd}
+                onSelect={(windowEnd) => onChange({ ...options, windowEnd })}
+                placeholder="Project finish"
+              />
+              {options.windowEnd && (
+                <Button variant="ghost" size="icon" onClick={() => onChange({ ...options, windowEnd: undefined })}>
+                  <X className="h-4 w-4" />
+                </Button>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+      {options.enabled && (
+        <div className="flex items-center gap-2">
+          <Switch
+            id="leveling-split"
+            checked={!!options.splitTasks}
+            onCheckedChange={(splitTasks) => onChange({ ...options, splitTasks: splitTasks || undefined })}
+          />
+          <Label htmlFor="leveling-split">Split tasks around higher-priority work</Label>
+        </div>
+      )}
+    </div>
+  );
+}
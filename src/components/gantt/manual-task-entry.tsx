@@ -8,20 +8,40 @@ import { Label } from '@/components/ui/label';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
 import { Calendar } from '@/components/ui/calendar';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Calendar as CalendarIcon, GanttChartSquare, Plus, Trash2 } from 'lucide-react';
-import { format, parse } from 'date-fns';
 import { cn } from '@/lib/utils';
 import { useToast } from '@/hooks/use-toast';
-import type { RawTask } from '@/lib/types';
+import type { ConstraintType, DateRange, PlainDate, RawTask, Recurrence, ResourceAssignment, TaskConstraint } from '@/lib/types';
+import { parseDependencies } from '@/lib/task-utils';
+import { parseAssignments } from '@/lib/resources';
+import { parsePriority } from '@/lib/leveling';
+import { CONSTRAINT_LABELS, CONSTRAINT_TYPES, isDatedConstraint, parseConstraint } from '@/lib/constraints';
+import { parseEstimate, type DurationEstimate } from '@/lib/risk-analysis';
+import { parseRecurrence, validateSeriesDates } from '@/lib/recurrence';
+import { parseInterruptions } from '@/lib/interruptions';
+import { editEffort, parseWork, type TaskEffort } from '@/lib/effort';
+import { formatPlainDate, parsePlainDate, toLocalDate, toPlainDate, today } from '@/lib/plain-date';
+import DatePicker from '@/components/gantt/date-picker';
 
 
 interface ManualTask {
   id: string;
   title: string;
   startDate: string; // YYYY-MM-DD
-  duration: string;
+  duration: string; // most likely, when a range is given
+  durationType: string; // 'working' days, or 'elapsed' calendar days
+  work: string; // person-days, sets the duration from the resource units when given
+  optimistic: string; // shortest duration for risk analysis, optional
+  pessimistic: string; // longest duration for risk analysis, optional
   dependencies: string;
   resource: string;
+  priority: string;
+  constraint: string; // constraint type, ASAP by default
+  constraintDate: string; // YYYY-MM-DD
+  parent: string; // title of the summary task
+  recurrence: string; // e.g. "every week on Mon, 10 times", optional
+  interruptions: string; // days the work pauses, e.g. "2024-08-12/2024-08-14", optional
 }
 
 interface ManualTaskEntryProps {
@@ -32,10 +52,20 @@ interface ManualTaskEntryProps {
 const newRow = (): ManualTask => ({
   id: `task-${Date.now()}-${Math.random()}`,
   title: '',
-  startDate: format(new Date(), 'yyyy-MM-dd'),
+  startDate: today(),
   duration: '1',
+  durationType: 'working',
+  work: '',
+  optimistic: '',
+  pessimistic: '',
   dependencies: '',
   resource: '',
+  priority: '',
+  constraint: 'ASAP',
+  constraintDate: '',
+  parent: '',
+  recurrence: '',
+  interruptions: '',
 });
 
 export default function ManualTaskEntry({ onAddTasks, hasTasks }: ManualTaskEntryProps) {
@@ -73,25 +103,53 @@ export default function ManualTaskEntry({ onAddTasks, hasTasks }: ManualTaskEntr
               throw new Error(`Invalid data on row ${index + 1}. Each task must have a title, startDate, and duration.`);
           }
 
-          let startDate = parse(row.startDate, 'yyyy-MM-dd', new Date());
-          if (isNaN(startDate.getTime())) {
+          const startDate = parsePlainDate(row.startDate);
+          if (!startDate) {
               throw new Error(`Invalid date format on row ${index + 1}. Use YYYY-MM-DD.`);
           }
           
           const duration = parseInt(row.duration, 10);
-          if (isNaN(duration) || duration <= 0) {
-              throw new Error(`Invalid duration on row ${index + 1}. Must be a positive number.`);
+          if (isNaN(duration) || duration < 0) {
+              throw new Error(`Invalid duration on row ${index + 1}. Must be 0 for a milestone or a positive number.`);
           }
 
-          const dependencies = row.dependencies?.trim() ? row.dependencies.trim().split(';').map(d => d.trim()).filter(Boolean) : [];
+          const dependencies = parseDependencies(row.dependencies);
+
+          let priority: number | undefined;
+          let assignments: ResourceAssignment[];
+          let constraint: TaskConstraint | undefined;
+          let estimate: DurationEstimate;
+          let recurrence: Recurrence | undefined;
+          let interruptions: DateRange[] | undefined;
+          let effort: TaskEffort;
+          try {
+              priority = parsePriority(row.priority);
+              assignments = parseAssignments(row.resource);
+              constraint = parseConstraint(row.constraint, row.constraintDate);
+              estimate = parseEstimate(row.optimistic, row.pessimistic, duration);
+              recurrence = parseRecurrence(row.recurrence);
+              if (recurrence) validateSeriesDates(row.title.trim(), startDate, recurrence);
+              interruptions = parseInterruptions(row.interruptions);
+              const work = parseWork(row.work);
+              effort = { workingDuration: duration, assignments };
+              if (work !== undefined) effort = editEffort(effort, { work });
+          } catch (error: any) {
+              throw new Error(`${error.message} (row ${index + 1})`);
+          }
           
           return {
-              id: row.title, // Use title as ID for dependency linking and uniqueness
+              id: row.title.trim(), // The title doubles as the id; clashes with existing ids are made unique when the tasks are added
               title: row.title.trim(),
               startDate,
-              workingDuration: duration,
               dependencies,
-              resource: row.resource?.trim()
+              ...effort,
+              elapsed: row.durationType === 'elapsed' && duration > 0 ? true : undefined,
+              priority,
+              constraint,
+              parentId: row.parent.trim() || undefined,
+              ...estimate,
+              recurrence,
+              interruptions,
           };
         });
 
@@ -134,10 +192,17 @@ export default function ManualTaskEntry({ onAddTasks, hasTasks }: ManualTaskEntr
           <TableHeader>
             <TableRow>
               <TableHead>Title</TableHead>
+              <TableHead>Parent</TableHead>
               <TableHead>Start Date</TableHead>
-              <TableHead className="w-[100px]">Duration</TableHead>
+              <TableHead className="w-[190px]" title="Working days skip weekends and holidays; elapsed days run on calendar time">Duration</TableHead>
+              <TableHead className="w-[150px]" title="Optimistic and pessimistic durations for risk analysis">Range</TableHead>
+              <TableHead className="w-[100px]" title="Person-days; the duration becomes the work divided by the resource units">Work</TableHead>
               <TableHead>Dependencies</TableHead>
               <TableHead>Resource</TableHead>
+              <TableHead className="w-[90px]">Priority</TableHead>
+              <TableHead>Constraint</TableHead>
+              <TableHead title="How the task repeats; each occurrence lasts the duration">Repeats</TableHead>
+              <TableHead title="Days work on the task pauses, which split it into segments">Paused</TableHead>
               <TableHead className="w-[50px]"></TableHead>
             </TableRow>
           </TableHeader>
@@ -151,6 +216,13 @@ export default function ManualTaskEntry({ onAddTasks, hasTasks }: ManualTaskEntr
                     placeholder={`Task ${index + 1}`}
                   />
                 </TableCell>
+                <TableCell>
+                  <Input 
+                    value={row.parent} 
+                    onChange={e => handleRowChange(row.id, 'parent', e.target.value)}
+                    placeholder='Phase 1'
+                  />
+                </TableCell>
                 <TableCell>
                     <Popover>
                         <PopoverTrigger asChild>
@@ -159,40 +231,123 @@ export default function ManualTaskEntry({ onAddTasks, hasTasks }: ManualTaskEntr
                             className={cn("w-full justify-start text-left font-normal", !row.startDate && "text-muted-foreground")}
                             >
                             <CalendarIcon className="mr-2 h-4 w-4" />
-                            {row.startDate ? format(parse(row.startDate, 'yyyy-MM-dd', new Date()), "PPP") : <span>Pick a date</span>}
+                            {row.startDate ? formatPlainDate(row.startDate as PlainDate, "PPP") : <span>Pick a date</span>}
                             </Button>
                         </PopoverTrigger>
                         <PopoverContent className="w-auto p-0">
                             <Calendar
                                 mode="single"
-                                selected={parse(row.startDate, 'yyyy-MM-dd', new Date())}
-                                onSelect={(date) => date && handleRowChange(row.id, 'startDate', format(date, 'yyyy-MM-dd'))}
+                                selected={toLocalDate(row.startDate as PlainDate)}
+                                onSelect={(date) => date && handleRowChange(row.id, 'startDate', toPlainDate(date))}
                                 initialFocus
                             />
                         </PopoverContent>
                     </Popover>
                 </TableCell>
                  <TableCell>
-                  <Input 
+                  <div className="flex gap-1">
+                    <Input 
+                      type="number"
+                      value={row.duration} 
+                      onChange={e => handleRowChange(row.id, 'duration', e.target.value)}
+                      min="0"
+                      placeholder='Days'
+                    />
+                    <Select value={row.durationType} onValueChange={value => handleRowChange(row.id, 'durationType', value)}>
+                      <SelectTrigger className="w-[100px]">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="working">Working</SelectItem>
+                        <SelectItem value="elapsed">Elapsed</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </TableCell>
+                <TableCell>
+                  <div className="flex gap-1">
+                    <Input
+                      type="number"
+                      value={row.optimistic}
+                      onChange={e => handleRowChange(row.id, 'optimistic', e.target.value)}
+                      min="1"
+                      placeholder='Min'
+                    />
+                    <Input
+                      type="number"
+                      value={row.pessimistic}
+                      onChange={e => handleRowChange(row.id, 'pessimistic', e.target.value)}
+                      min="1"
+                      placeholder='Max'
+                    />
+                  </div>
+                </TableCell>
+                <TableCell>
+                  <Input
                     type="number"
-                    value={row.duration} 
-                    onChange={e => handleRowChange(row.id, 'duration', e.target.value)}
-                    min="1"
-                    placeholder='Days'
+                    value={row.work}
+                    onChange={e => handleRowChange(row.id, 'work', e.target.value)}
+                    min="0"
+                    placeholder='Person-days'
                   />
                 </TableCell>
                  <TableCell>
                   <Input 
                     value={row.dependencies} 
                     onChange={e => handleRowChange(row.id, 'dependencies', e.target.value)}
-                    placeholder='Task 1;Task 2'
+                    placeholder='Task 1;Task 2:SS+1'
                   />
                 </TableCell>
                 <TableCell>
                   <Input 
                     value={row.resource} 
                     onChange={e => handleRowChange(row.id, 'resource', e.target.value)}
-                    placeholder='Resource Name'
+                    placeholder='Alice:50%;Bob'
+                  />
+                </TableCell>
+                <TableCell>
+                  <Input 
+                    type="number"
+                    value={row.priority} 
+                    onChange={e => handleRowChange(row.id, 'priority', e.target.value)}
+                    min="0"
+                    max="1000"
+                    placeholder='500'
+                  />
+                </TableCell>
+                <TableCell>
+                  <div className="flex gap-1">
+                    <Select value={row.constraint} onValueChange={value => handleRowChange(row.id, 'constraint', value)}>
+                      <SelectTrigger className="w-[110px]">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {CONSTRAINT_TYPES.map(type => (
+                          <SelectItem key={type} value={type}>{type} - {CONSTRAINT_LABELS[type]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    {isDatedConstraint(row.constraint as ConstraintType) && (
+                      <DatePicker
+                        date={parsePlainDate(row.constraintDate)}
+                        onSelect={(date) => handleRowChange(row.id, 'constraintDate', date)}
+                        placeholder="Date"
+                      />
+                    )}
+                  </div>
+                </TableCell>
+                <TableCell>
+                  <Input
+                    value={row.recurrence}
+                    onChange={e => handleRowChange(row.id, 'recurrence', e.target.value)}
+                    placeholder='every week on Mon, 10 times'
+                  />
+                </TableCell>
+                <TableCell>
+                  <Input
+                    value={row.interruptions}
+                    onChange={e => handleRowChange(row.id, 'interruptions', e.target.value)}
+                    placeholder='2024-08-12/2024-08-14'
                   />
                 </TableCell>
                 <TableCell>
@@ -0,0 +1,216 @@
+"use client";
+
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Plus, Save, Trash2, User, X } from 'lucide-react';
+import type { Resource, ResourceVacation, WorkCalendar } from '@/lib/types';
+import { WEEKDAY_LABELS } from '@/lib/calendar';
+import { createResource } from '@/lib/resources';
+import { hasRates } from '@/lib/costs';
+import { today } from '@/lib/plain-date';
+import DatePicker from '@/components/gantt/date-picker';
+
+interface ResourceManagerProps {
+  resources: Resource[];
+  resourceNames: string[]; // resources assigned to tasks, shown even without a calendar of their own
+  projectCalendar: WorkCalendar;
+  onSave: (resources: Resource[]) => void;
+}
+
+// Rates left empty are not set; anything that is not an amount of at least 0 is ignored
+const parseRateInput = (value: string): number | undefined => {
+  const rate = Number(value);
+  return value.trim() && !isNaN(rate) && rate >= 0 ? rate : undefined;
+};
+
+const RATE_FIELDS: { key: 'rate' | 'overtimeRate' | 'costPerUse'; label: string; placeholder: string }[] = [
+  { key: 'rate', label: 'Rate per Day', placeholder: 'No rate' },
+  { key: 'overtimeRate', label: 'Overtime per Day', placeholder: 'Same as rate' },
+  { key: 'costPerUse', label: 'Cost per Use', placeholder: 'None' },
+];
+
+export default function ResourceManager({ resources, resourceNames, projectCalendar, onSave }: ResourceManagerProps) {
+  // Every assigned resource gets an entry so it can be edited, defaulting to the project calendar
+  const [draft, setDraft] = useState<Resource[]>(() => {
+    const names = Array.from(new Set([...resources.map(r => r.name), ...resourceNames])).sort((a, b) => a.localeCompare(b));
+    return names.map(name => resources.find(r => r.name === name) ?? createResource(name));
+  });
+
+  const updateResource = (name: string, changes: Partial<Resource>) => {
+    setDraft(draft.map(r => r.name === name ? { ...r, ...changes } : r));
+  };
+
+  // Resources without settings of their own simply follow the project calendar, so they are not kept
+  const handleSave = () => {
+    onSave(draft.filter(r => r.workingDays || r.startDate || r.vacations.length > 0 || hasRates(r)));
+  };
+
+  const handleToggleCustomWeek = (resource: Resource, useCustomWeek: boolean) => {
+    updateResource(resource.name, { workingDays: useCustomWeek ? [...projectCalendar.workingDays] : undefined });
+  };
+
+  const handleToggleWorkingDay = (resource: Resource, day: number) => {
+    const workingDays = resource.workingDays ?? projectCalendar.workingDays;
+    updateResource(resource.name, {
+      workingDays: workingDays.includes(day)
+        ? workingDays.filter(d => d !== day)
+        : [...workingDays, day].sort((a, b) => a - b),
+    });
+  };
+
+  const handleAddVacation = (resource: Resource) => {
+    const day = today();
+    const vacation: ResourceVacation = { startDate: day, endDate: day, name: '' };
+    updateResource(resource.name, { vacations: [...resource.vacations, vacation] });
+  };
+
+  const handleVacationChange = (resource: Resource, index: number, changes: Partial<ResourceVacation>) => {
+    updateResource(resource.name, {
+      vacations: resource.vacations.map((v, i) => i === index ? { ...v, ...changes } : v),
+    });
+  };
+
+  const handleRemoveVacation = (resource: Resource, index: number) => {
+    updateResource(resource.name, { vacations: resource.vacations.filter((_, i) => i !== index) });
+  };
+
+  if (draft.length === 0) {
+    return <p className="text-sm text-muted-foreground">Assign resources to tasks to manage their calendars.</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      {draft.map(resource => (
+        <div key={resource.name} className="rounded-md border p-4 space-y-4">
+          <div className="flex items-center gap-2 font-semibold">
+            <User className="h-4 w-4" />
+            {resource.name}
+          </div>
+
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div className="space-y-2">
+              <div className="flex items-center gap-2">
+                <Switch
+                  id={`custom-week-${resource.name}`}
+                  checked={!!resource.workingDays}
+                  onCheckedChange={(checked) => handleToggleCustomWeek(resource, checked)}
+                />
+                <Label htmlFor={`custom-week-${resource.name}`}>Custom working week</Label>
+              </div>
+              <div className="flex flex-wrap gap-1">
+                {WEEKDAY_LABELS.map((label, day) => (
+                  <Button
+                    key={label}
+                    type="button"
+                    size="sm"
+                    variant={(resource.workingDays ?? projectCalendar.workingDays).includes(day) ? 'default' : 'outline'}
+                    disabled={!resource.workingDays}
+                    onClick={() => handleToggleWorkingDay(resource, day)}
+                  >
+                    {label}
+                  </Button>
+                ))}
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label>Joins Project On</Label>
+              <div className="flex gap-1">
+                <DatePicker
+                  date={resource.startDate}
+                  onSelect={(startDate) => updateResource(resource.name, { startDate })}
+                  placeholder="From the start"
+                />
+                {resource.startDate && (
+                  <Button variant="ghost" size="icon" onClick={() => updateResource(resource.name, { startDate: undefined })}>
+                    <X className="h-4 w-4" />
+                  </Button>
+                )}
+              </div>
+            </div>
+          </div>
+
+          <div className="grid gap-4 sm:grid-cols-3">
+            {RATE_FIELDS.map(field => (
+              <div key={field.key} className="space-y-2">
+                <Label htmlFor={`${field.key}-${resource.name}`}>{field.label}</Label>
+                <Input
+                  id={`${field.key}-${resource.name}`}
+                  type="number"
+                  min={0}
+                  value={resource[field.key] ?? ''}
+                  placeholder={field.placeholder}
+                  onChange={e => updateResource(resource.name, { [field.key]: parseRateInput(e.target.value) })}
+                />
+              </div>
+            ))}
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label>Vacations &amp; Days Off</Label>
+              <Button type="button" variant="outline" size="sm" onClick={() => handleAddVacation(resource)}>
+                <Plus className="mr-2 h-4 w-4" />
+                Add Time Off
+              </Button>
+            </div>
+            {resource.vacations.length > 0 && (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>From</TableHead>
+                    <TableHead>To</TableHead>
+                    <TableHead>Reason</TableHead>
+                    <TableHead className="w-[50px]"></TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {resource.vacations.map((vacation, index) => (
+                    <TableRow key={index}>
+                      <TableCell>
+                        <DatePicker
+                          date={vacation.startDate}
+                          onSelect={(startDate) => handleVacationChange(resource, index, { startDate })}
+                          placeholder="Start"
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <DatePicker
+                          date={vacation.endDate}
+                          onSelect={(endDate) => handleVacationChange(resource, index, { endDate })}
+                          placeholder="End"
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <Input
+                          value={vacation.name}
+                          onChange={e => handleVacationChange(resource, index, { name: e.target.value })}
+                          placeholder="Vacation"
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <Button variant="ghost" size="icon" onClick={() => handleRemoveVacation(resource, index)}>
+                          <Trash2 className="h-4 w-4 text-destructive" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </div>
+        </div>
+      ))}
+
+      <div className="flex justify-end">
+        <Button onClick={handleSave}>
+          <Save className="mr-2" />
+          Save Resources
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,222 @@
+"use client";
+
+import { useEffect, useMemo, useState } from 'react';
+import { Bar, CartesianGrid, ComposedChart, Line, ReferenceLine, XAxis, YAxis } from 'recharts';
+import { Dices, Loader2, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from '@/components/ui/chart';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import type { PlainDate, RawTask, Task } from '@/lib/types';
+import { DEFAULT_SIMULATION_SETTINGS, hasEstimate, type FinishDistribution, type SimulationResult } from '@/lib/risk-analysis';
+import { WorkCancelledError, type WorkerScheduleOptions, type WorkProgress } from '@/lib/worker-protocol';
+import { formatPlainDate } from '@/lib/plain-date';
+import { useScheduleWorker } from '@/hooks/use-schedule-worker';
+import { useToast } from '@/hooks/use-toast';
+
+interface RiskAnalysisPanelProps {
+  rawTasks: RawTask[];
+  tasks: Task[];
+  options: WorkerScheduleOptions;
+}
+
+const chartConfig = {
+  count: { label: 'Iterations', color: 'hsl(var(--chart-1))' },
+  cumulative: { label: 'Finished by', color: 'hsl(var(--chart-2))' },
+} satisfies ChartConfig;
+
+const CONFIDENCE_LEVELS = ['p50', 'p80', 'p90'] as const;
+const MAX_CRITICAL_TASKS = 15;
+
+const formatDate = (date: PlainDate) => formatPlainDate(date, 'MMM d, yyyy');
+
+export default function RiskAnalysisPanel({ rawTasks, tasks, options }: RiskAnalysisPanelProps) {
+  const [iterations, setIterations] = useState(String(DEFAULT_SIMULATION_SETTINGS.iterations));
+  const [seed, setSeed] = useState(String(DEFAULT_SIMULATION_SETTINGS.seed));
+  const [isRunning, setIsRunning] = useState(false);
+  const [progress, setProgress] = useState<WorkProgress | null>(null);
+  const [result, setResult] = useState<SimulationResult | null>(null);
+  const { toast } = useToast();
+  // A worker of its own, so a long simulation can be stopped without touching the page's scheduling
+  const simulationWorker = useScheduleWorker();
+
+  const estimatedCount = rawTasks.filter(hasEstimate).length;
+
+  // Results belong to the plan they were run on
+  useEffect(() => {
+    simulationWorker.cancel();
+    setResult(null);
+  }, [rawTasks, options, simulationWorker]);
+
+  const handleRun = async () => {
+    setIsRunning(true);
+    setProgress(null);
+    try {
+      setResult(await simulationWorker.simulate(rawTasks, options, { iterations: Number(iterations), seed: Number(seed) }, setProgress));
+    } catch (error: any) {
+      if (!(error instanceof WorkCancelledError)) {
+        toast({
+          variant: "destructive",
+          title: "Simulation Failed",
+          description: error.message,
+        });
+      }
+    } finally {
+      setIsRunning(false);
+      setProgress(null);
+    }
+  };
+
+  const finishRows = useMemo((): [string, FinishDistribution][] => {
+    if (!result) return [];
+    return [['Project finish', result.project], ...result.milestones.map(m => [m.title, m.finish] as [string, FinishDistribution])];
+  }, [result]);
+
+  const chartData = useMemo(() => (result?.histogram ?? []).map(bin => ({
+    label: formatPlainDate(bin.date, 'MMM d'),
+    count: bin.count,
+    cumulative: Math.round(bin.cumulative * 100),
+  })), [result]);
+
+  // Confidence levels are marked on the bar their date falls in
+  const confidenceBins = useMemo(() => {
+    if (!result) return [];
+    return CONFIDENCE_LEVELS.map(level => {
+      const date = result.project[level];
+      const bin = [...result.histogram].reverse().find(b => b.date <= date) ?? result.histogram[0];
+      return { level, label: formatPlainDate(bin.date, 'MMM d') };
+    });
+  }, [result]);
+
+  const criticalTasks = useMemo(() => {
+    if (!result) return [];
+    const titles = new Map(tasks.map(t => [t.id, t.title]));
+    return Array.from(result.criticality)
+      .filter(([, index]) => index > 0)
+      .sort(([, a], [, b]) => b - a)
+      .slice(0, MAX_CRITICAL_TASKS)
+      .map(([id, index]) => ({ id, title: titles.get(id) ?? id, index }));
+  }, [result, tasks]);
+
+  return (
+    <div className="space-y-6">
+      <p className="text-sm text-muted-foreground">
+        {estimatedCount > 0
+          ? `${estimatedCount} tasks have a duration range. The others keep their durations in every iteration.`
+          : 'No task has a duration range yet. Add optimisticDuration and pessimisticDuration columns to the CSV, or a range in the worksheet.'}
+      </p>
+
+      <div className="flex items-end gap-2">
+        <div className="space-y-1">
+          <Label htmlFor="simulation-iterations">Iterations</Label>
+          <Input id="simulation-iterations" type="number" min={1} value={iterations} onChange={e => setIterations(e.target.value)} className="w-[120px]" />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="simulation-seed">Seed</Label>
+          <Input id="simulation-seed" type="number" value={seed} onChange={e => setSeed(e.target.value)} className="w-[120px]" />
+        </div>
+        {isRunning ? (
+          <Button variant="outline" onClick={simulationWorker.cancel}>
+            <X className="mr-2" />
+            Cancel
+          </Button>
+        ) : (
+          <Button onClick={handleRun}>
+            <Dices className="mr-2" />
+            Run Simulation
+          </Button>
+        )}
+      </div>
+
+      {isRunning && (
+        <div className="space-y-1">
+          <Progress value={progress && progress.total > 0 ? progress.done / progress.total * 100 : 0} />
+          <p className="text-sm text-muted-foreground flex items-center gap-2">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            {progress ? `Ran ${progress.done} of ${progress.total} iterations` : 'Starting...'}
+          </p>
+        </div>
+      )}
+
+      {result && (
+        <>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Finish</TableHead>
+                <TableHead>Planned</TableHead>
+                <TableHead>P50</TableHead>
+                <TableHead>P80</TableHead>
+                <TableHead>P90</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {finishRows.map(([name, finish], index) => (
+                <TableRow key={`${name}-${index}`} className={index === 0 ? 'font-bold' : ''}>
+                  <TableCell>{name}</TableCell>
+                  <TableCell>{formatDate(finish.planned)}</TableCell>
+                  {CONFIDENCE_LEVELS.map(level => <TableCell key={level}>{formatDate(finish[level])}</TableCell>)}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+
+          <div className="space-y-2">
+            <h3 className="font-semibold">Project Finish Dates</h3>
+            <ChartContainer config={chartConfig} className="aspect-auto h-[260px] w-full">
+              <ComposedChart data={chartData} margin={{ left: 12, right: 12 }}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="label" tickLine={false} axisLine={false} />
+                <YAxis yAxisId="count" tickLine={false} axisLine={false} allowDecimals={false} />
+                <YAxis yAxisId="cumulative" orientation="right" domain={[0, 100]} tickFormatter={(value: number) => `${value}%`} tickLine={false} axisLine={false} />
+                <ChartTooltip content={<ChartTooltipContent />} />
+                <Bar yAxisId="count" dataKey="count" fill="var(--color-count)" radius={2} />
+                <Line yAxisId="cumulative" dataKey="cumulative" type="stepAfter" stroke="var(--color-cumulative)" strokeWidth={2} dot={false} />
+                {confidenceBins.map(({ level, label }) => (
+                  <ReferenceLine
+                    key={level}
+                    yAxisId="count"
+                    x={label}
+                    stroke="hsl(var(--muted-foreground))"
+                    strokeDasharray="4 4"
+                    label={{ value: level.toUpperCase(), position: 'top', fontSize: 10 }}
+                  />
+                ))}
+              </ComposedChart>
+            </ChartContainer>
+          </div>
+
+          {criticalTasks.length > 0 && (
+            <div className="space-y-2">
+              <h3 className="font-semibold">Criticality Index</h3>
+              <p className="text-sm text-muted-foreground">Share of iterations in which the task was on the critical path.</p>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Task</TableHead>
+                    <TableHead className="w-[200px]">Critical In</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {criticalTasks.map(({ id, title, index }) => (
+                    <TableRow key={id}>
+                      <TableCell>{title}</TableCell>
+                      <TableCell>
+                        <div className="flex items-center gap-2">
+                          <Progress value={index * 100} className="h-2" />
+                          <span className="w-10 text-right tabular-nums">{Math.round(index * 100)}%</span>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,134 @@
+"use client";
+
+import { useEffect, useState } from 'react';
+import { ArrowLeftRight, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import type { PlainDate, Scenario } from '@/lib/types';
+import type { DateComparison, ScenarioComparison as Comparison } from '@/lib/scenarios';
+import { formatVariance } from '@/lib/baselines';
+import { formatPlainDate } from '@/lib/plain-date';
+import { cn } from '@/lib/utils';
+import { useScheduleWorker } from '@/hooks/use-schedule-worker';
+
+interface ScenarioComparisonProps {
+  scenarios: Scenario[]; // the active one with its current plan
+  activeScenarioName: string;
+}
+
+const formatDate = (date: PlainDate | undefined) => date ? formatPlainDate(date, 'MMM d, yyyy') : '–';
+
+function ScenarioSelect({ scenarios, value, onChange }: { scenarios: Scenario[]; value?: string; onChange: (name: string) => void }) {
+  return (
+    <Select value={value} onValueChange={onChange}>
+      <SelectTrigger>
+        <SelectValue placeholder="Pick a scenario" />
+      </SelectTrigger>
+      <SelectContent>
+        {scenarios.map(s => <SelectItem key={s.name} value={s.name}>{s.name}</SelectItem>)}
+      </SelectContent>
+    </Select>
+  );
+}
+
+function ComparisonRows({ heading, rows }: { heading: string; rows: ({ key: string; name: string } & DateComparison)[] }) {
+  if (rows.length === 0) return null;
+  return (
+    <>
+      <TableRow className="bg-muted/50 hover:bg-muted/50">
+        <TableCell colSpan={4} className="font-semibold">{heading}</TableCell>
+      </TableRow>
+      {rows.map(row => (
+        <TableRow key={row.key}>
+          <TableCell className="truncate max-w-[200px]">{row.name}</TableCell>
+          <TableCell>{formatDate(row.first)}</TableCell>
+          <TableCell>{formatDate(row.second)}</TableCell>
+          <TableCell className={cn('text-right tabular-nums', { 'text-destructive': (row.difference ?? 0) > 0 })}>
+            {row.difference !== undefined ? formatVariance(row.difference) : '–'}
+          </TableCell>
+        </TableRow>
+      ))}
+    </>
+  );
+}
+
+export default function ScenarioComparison({ scenarios, activeScenarioName }: ScenarioComparisonProps) {
+  // The active scenario is compared against the one it was branched from unless other scenarios are picked
+  const activeScenario = scenarios.find(s => s.name === activeScenarioName);
+  const [firstName, setFirstName] = useState(activeScenario?.basedOn ?? scenarios[0]?.name);
+  const [secondName, setSecondName] = useState(activeScenarioName);
+  const [comparison, setComparison] = useState<Comparison | null>(null);
+  const [error, setError] = useState<string | undefined>();
+  const comparisonWorker = useScheduleWorker();
+
+  const first = scenarios.find(s => s.name === firstName);
+  const second = scenarios.find(s => s.name === secondName);
+
+  useEffect(() => {
+    setComparison(null);
+    setError(undefined);
+    if (!first || !second || first === second) return;
+
+    let isCurrent = true;
+    comparisonWorker.compareScenarios(first.plan, second.plan)
+      .then(result => { if (isCurrent) setComparison(result); })
+      .catch((e: Error) => { if (isCurrent) setError(e.message); });
+    return () => { isCurrent = false; };
+  }, [first, second, comparisonWorker]);
+
+  const handleSwap = () => {
+    setFirstName(secondName);
+    setSecondName(firstName);
+  };
+
+  if (scenarios.length < 2) {
+    return <p className="text-sm text-muted-foreground">Branch a scenario from the plan to compare the two.</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-end gap-2">
+        <div className="flex-1 space-y-1">
+          <Label>Compare</Label>
+          <ScenarioSelect scenarios={scenarios} value={firstName} onChange={setFirstName} />
+        </div>
+        <Button variant="ghost" size="icon" onClick={handleSwap} title="Swap scenarios">
+          <ArrowLeftRight className="h-4 w-4" />
+        </Button>
+        <div className="flex-1 space-y-1">
+          <Label>With</Label>
+          <ScenarioSelect scenarios={scenarios} value={secondName} onChange={setSecondName} />
+        </div>
+      </div>
+
+      {first && first === second && <p className="text-sm text-muted-foreground">Pick two different scenarios.</p>}
+      {error && <p className="text-sm text-destructive">{error}</p>}
+      {first && second && first !== second && !comparison && !error && (
+        <p className="text-sm text-muted-foreground flex items-center gap-2">
+          <Loader2 className="h-4 w-4 animate-spin" />
+          Scheduling both scenarios...
+        </p>
+      )}
+
+      {comparison && (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead></TableHead>
+              <TableHead>{firstName}</TableHead>
+              <TableHead>{secondName}</TableHead>
+              <TableHead className="text-right" title="Working days the second scenario finishes later">Difference</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            <ComparisonRows heading="Project" rows={[{ key: 'project', name: 'Finish', ...comparison.project }]} />
+            <ComparisonRows heading="Milestones" rows={comparison.milestones.map(m => ({ ...m, key: m.id, name: m.title }))} />
+            <ComparisonRows heading="Resources" rows={comparison.resources.map(r => ({ ...r, key: r.name }))} />
+          </TableBody>
+        </Table>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,102 @@
+"use client";
+
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { ArrowRightLeft, GitBranch, Trash2 } from 'lucide-react';
+import type { Scenario } from '@/lib/types';
+import { validateScenarioName } from '@/lib/scenarios';
+import { formatPlainDate } from '@/lib/plain-date';
+import ScenarioComparison from '@/components/gantt/scenario-comparison';
+
+interface ScenarioManagerProps {
+  scenarios: Scenario[]; // the active one with its current plan
+  activeScenarioName: string;
+  onCreate: (name: string) => void;
+  onSwitch: (name: string) => void;
+  onDelete: (name: string) => void;
+}
+
+export default function ScenarioManager({ scenarios, activeScenarioName, onCreate, onSwitch, onDelete }: ScenarioManagerProps) {
+  const [name, setName] = useState('');
+  const suggestedName = `Scenario ${scenarios.length}`;
+
+  let error: string | undefined;
+  try {
+    validateScenarioName(name.trim() || suggestedName, scenarios);
+  } catch (e: any) {
+    error = e.message;
+  }
+
+  const handleCreate = () => {
+    if (error) return;
+    onCreate(name.trim() || suggestedName);
+    setName('');
+  };
+
+  return (
+    <Tabs defaultValue="scenarios">
+      <TabsList>
+        <TabsTrigger value="scenarios">Scenarios</TabsTrigger>
+        <TabsTrigger value="compare">Compare</TabsTrigger>
+      </TabsList>
+      <TabsContent value="scenarios" className="space-y-4">
+        <div className="space-y-1">
+          <Label htmlFor="scenario-name">Branch "{activeScenarioName}" as</Label>
+          <div className="flex gap-2">
+            <Input
+              id="scenario-name"
+              value={name}
+              placeholder={suggestedName}
+              onChange={(e) => setName(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleCreate()}
+            />
+            <Button onClick={handleCreate} disabled={!!error}>
+              <GitBranch className="mr-2 h-4 w-4" />
+              Branch
+            </Button>
+          </div>
+          {error && name.trim() && <p className="text-sm text-destructive">{error}</p>}
+        </div>
+
+        <div className="space-y-2">
+          {scenarios.map(scenario => {
+            const isActive = scenario.name === activeScenarioName;
+            return (
+              <div key={scenario.name} className="flex items-center gap-2 rounded-md border p-2">
+                <div className="flex-grow min-w-0">
+                  <p className="font-medium truncate">
+                    {scenario.name}
+                    {isActive && <Badge variant="secondary" className="ml-2">Active</Badge>}
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    {scenario.basedOn ? `Branched from "${scenario.basedOn}"` : 'Created'} {formatPlainDate(scenario.createdAt, 'MMM d, yyyy')} · {scenario.plan.rawTasks.length} tasks
+                  </p>
+                </div>
+                <Button variant="outline" size="sm" onClick={() => onSwitch(scenario.name)} disabled={isActive} title="Edit this scenario">
+                  <ArrowRightLeft className="mr-2 h-4 w-4" />
+                  Switch
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => onDelete(scenario.name)}
+                  disabled={isActive}
+                  title={isActive ? 'Switch to another scenario to delete this one' : 'Delete scenario'}
+                >
+                  <Trash2 className="h-4 w-4 text-destructive" />
+                </Button>
+              </div>
+            );
+          })}
+        </div>
+      </TabsContent>
+      <TabsContent value="compare">
+        <ScenarioComparison scenarios={scenarios} activeScenarioName={activeScenarioName} />
+      </TabsContent>
+    </Tabs>
+  );
+}
@@ -0,0 +1,46 @@
+"use client";
+
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import type { PlainDate, ScheduleMode } from '@/lib/types';
+import { isBackward } from '@/lib/schedule-mode';
+import DatePicker from '@/components/gantt/date-picker';
+
+interface ScheduleModeSettingsProps {
+  mode: ScheduleMode;
+  onChange: (mode: ScheduleMode) => void;
+  defaultFinishDate?: PlainDate; // offered when switching to backward scheduling without a finish date yet
+}
+
+export default function ScheduleModeSettings({ mode, onChange, defaultFinishDate }: ScheduleModeSettingsProps) {
+  const backward = isBackward(mode);
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-2">
+        <Switch
+          id="schedule-backward"
+          checked={backward}
+          onCheckedChange={(checked) => onChange(checked
+            ? { direction: 'backward', finishDate: mode.finishDate ?? defaultFinishDate }
+            : { direction: 'forward' })}
+        />
+        <Label htmlFor="schedule-backward">Schedule backward from a finish date</Label>
+      </div>
+      <p className="text-sm text-muted-foreground">
+        {backward
+          ? 'Tasks are placed as late as their successors and resources allow, so the project finishes by the date below. Task start dates are ignored.'
+          : 'Tasks are placed as soon as their start dates, dependencies and resources allow.'}
+      </p>
+      {backward && (
+        <div className="space-y-1">
+          <Label className="text-xs text-muted-foreground">Project Finish</Label>
+          <DatePicker
+            date={mode.finishDate}
+            onSelect={(finishDate) => onChange({ ...mode, finishDate })}
+            placeholder="Pick a finish date"
+          />
+        </div>
+      )}
+    </div>
+  );
+}
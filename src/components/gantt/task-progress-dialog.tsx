@@ -0,0 +1,122 @@
+"use client";
+
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Save, X } from 'lucide-react';
+import type { PlainDate, Task } from '@/lib/types';
+import { validateProgress, type TaskProgress } from '@/lib/progress';
+import { parseAmount, type TaskBudget } from '@/lib/earned-value';
+import DatePicker from '@/components/gantt/date-picker';
+
+interface TaskProgressDialogProps {
+  task: Task | null;
+  onOpenChange: (open: boolean) => void;
+  onSave: (taskId: string, changes: TaskProgress & TaskBudget) => void;
+}
+
+export default function TaskProgressDialog({ task, onOpenChange, onSave }: TaskProgressDialogProps) {
+  const [percentComplete, setPercentComplete] = useState('');
+  const [actualStart, setActualStart] = useState<PlainDate | undefined>();
+  const [actualFinish, setActualFinish] = useState<PlainDate | undefined>();
+  const [budget, setBudget] = useState('');
+  const [actualCost, setActualCost] = useState('');
+
+  useEffect(() => {
+    setPercentComplete(task?.percentComplete !== undefined ? String(task.percentComplete) : '');
+    setActualStart(task?.actualStart);
+    setActualFinish(task?.actualFinish);
+    setBudget(task?.budget !== undefined ? String(task.budget) : '');
+    setActualCost(task?.actualCost !== undefined ? String(task.actualCost) : '');
+  }, [task]);
+
+  // A finished task is complete, so the percentage follows the actual finish
+  const progress: TaskProgress = {
+    percentComplete: actualFinish ? 100 : percentComplete.trim() ? Number(percentComplete) : undefined,
+    actualStart,
+    actualFinish,
+  };
+  let costs: TaskBudget = {};
+  let error: string | undefined;
+  try {
+    validateProgress(progress);
+    costs = { budget: parseAmount(budget, 'budget'), actualCost: parseAmount(actualCost, 'actual cost') };
+  } catch (e: any) {
+    error = e.message;
+  }
+
+  const handleSave = () => {
+    if (!task || error) return;
+    onSave(task.id, { ...progress, ...costs });
+  };
+
+  return (
+    <Dialog open={!!task} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Progress of {task?.title}</DialogTitle>
+          <DialogDescription>
+            A task with an actual start is scheduled from that date, and one with an actual finish ends on it.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4 py-4">
+          <div className="space-y-2">
+            <Label htmlFor="task-percent-complete">Percent Complete</Label>
+            <Input
+              id="task-percent-complete"
+              type="number"
+              min={0}
+              max={100}
+              value={actualFinish ? '100' : percentComplete}
+              disabled={!!actualFinish}
+              onChange={e => setPercentComplete(e.target.value)}
+            />
+          </div>
+          <div className="grid grid-cols-2 gap-2">
+            <div className="space-y-2">
+              <Label>Actual Start</Label>
+              <div className="flex gap-1">
+                <DatePicker date={actualStart} onSelect={setActualStart} placeholder="Not started" />
+                {actualStart && (
+                  <Button variant="ghost" size="icon" onClick={() => setActualStart(undefined)}>
+                    <X className="h-4 w-4" />
+                  </Button>
+                )}
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label>Actual Finish</Label>
+              <div className="flex gap-1">
+                <DatePicker date={actualFinish} onSelect={setActualFinish} placeholder="Not finished" />
+                {actualFinish && (
+                  <Button variant="ghost" size="icon" onClick={() => setActualFinish(undefined)}>
+                    <X className="h-4 w-4" />
+                  </Button>
+                )}
+              </div>
+            </div>
+          </div>
+          <div className="grid grid-cols-2 gap-2">
+            <div className="space-y-2">
+              <Label htmlFor="task-budget">Budget</Label>
+              <Input id="task-budget" type="number" min={0} value={budget} placeholder="None" onChange={e => setBudget(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="task-actual-cost">Actual Cost</Label>
+              <Input id="task-actual-cost" type="number" min={0} value={actualCost} placeholder="None" onChange={e => setActualCost(e.target.value)} />
+            </div>
+          </div>
+          {error && <p className="text-sm text-destructive">{error}</p>}
+        </div>
+        <DialogFooter>
+          <Button onClick={handleSave} disabled={!!error}>
+            <Save className="mr-2" />
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
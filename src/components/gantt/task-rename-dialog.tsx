@@ -0,0 +1,60 @@
+"use client";
+
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Save } from 'lucide-react';
+import type { Task } from '@/lib/types';
+
+interface TaskRenameDialogProps {
+  task: Task | null;
+  onOpenChange: (open: boolean) => void;
+  onSave: (taskId: string, changes: { id: string; title: string }) => void;
+}
+
+export default function TaskRenameDialog({ task, onOpenChange, onSave }: TaskRenameDialogProps) {
+  const [id, setId] = useState('');
+  const [title, setTitle] = useState('');
+
+  useEffect(() => {
+    setId(task?.id ?? '');
+    setTitle(task?.title ?? '');
+  }, [task]);
+
+  const handleSave = () => {
+    if (!task || !id.trim() || !title.trim()) return;
+    onSave(task.id, { id: id.trim(), title: title.trim() });
+  };
+
+  return (
+    <Dialog open={!!task} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Rename Task</DialogTitle>
+          <DialogDescription>
+            Dependencies and subtasks refer to the task by its id, so they follow the task when either changes.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4 py-4">
+          <div className="space-y-2">
+            <Label htmlFor="task-title">Title</Label>
+            <Input id="task-title" value={title} onChange={e => setTitle(e.target.value)} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="task-id">Id</Label>
+            <Input id="task-id" value={id} onChange={e => setId(e.target.value)} disabled={!!task?.seriesId} />
+            {task?.seriesId && <p className="text-sm text-muted-foreground">Occurrences take their id from the recurring task.</p>}
+          </div>
+        </div>
+        <DialogFooter>
+          <Button onClick={handleSave} disabled={!id.trim() || !title.trim()}>
+            <Save className="mr-2" />
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
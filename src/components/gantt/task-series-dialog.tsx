@@ -0,0 +1,82 @@
+"use client";
+
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Save } from 'lucide-react';
+import type { RawTask, Recurrence } from '@/lib/types';
+import { formatRecurrence, parseRecurrence, validateSeriesDates } from '@/lib/recurrence';
+
+interface TaskSeriesDialogProps {
+  series: RawTask | null; // a recurring task as entered, not its rolled-up schedule
+  onOpenChange: (open: boolean) => void;
+  onSave: (taskId: string, changes: { workingDuration: number; recurrence: Recurrence }) => void;
+}
+
+export default function TaskSeriesDialog({ series, onOpenChange, onSave }: TaskSeriesDialogProps) {
+  const [duration, setDuration] = useState('');
+  const [recurrenceText, setRecurrenceText] = useState('');
+
+  useEffect(() => {
+    setDuration(series ? String(series.workingDuration) : '');
+    setRecurrenceText(series?.recurrence ? formatRecurrence(series.recurrence) : '');
+  }, [series]);
+
+  const workingDuration = parseInt(duration, 10);
+  let recurrence: Recurrence | undefined;
+  let error: string | undefined;
+  try {
+    if (isNaN(workingDuration) || workingDuration < 0) {
+      throw new Error('Duration must be 0 for milestones or a positive number.');
+    }
+    recurrence = parseRecurrence(recurrenceText);
+    if (!recurrence) {
+      throw new Error('Enter how the task repeats.');
+    }
+    if (series) validateSeriesDates(series.title, series.startDate, recurrence);
+  } catch (e: any) {
+    error = e.message;
+  }
+
+  const handleSave = () => {
+    if (!series || !recurrence || error) return;
+    onSave(series.id, { workingDuration, recurrence });
+  };
+
+  return (
+    <Dialog open={!!series} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Series of {series?.title}</DialogTitle>
+          <DialogDescription>
+            Changes apply to every occurrence except those edited on their own, which keep their changes.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4 py-4">
+          <div className="space-y-2">
+            <Label htmlFor="series-duration">Duration of Each Occurrence</Label>
+            <Input id="series-duration" type="number" min={0} value={duration} onChange={e => setDuration(e.target.value)} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="series-recurrence">Repeats</Label>
+            <Input
+              id="series-recurrence"
+              value={recurrenceText}
+              placeholder="every week on Mon, 10 times"
+              onChange={e => setRecurrenceText(e.target.value)}
+            />
+          </div>
+          {error && <p className="text-sm text-destructive">{error}</p>}
+        </div>
+        <DialogFooter>
+          <Button onClick={handleSave} disabled={!!error}>
+            <Save className="mr-2" />
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,142 @@
+"use client";
+
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Save } from 'lucide-react';
+import type { Task, TaskType } from '@/lib/types';
+import { DEFAULT_TASK_TYPE, editEffort, parseWork, TASK_TYPE_LABELS, TASK_TYPES, type EffortEdit, type TaskEffort } from '@/lib/effort';
+import { formatAssignments, parseAssignments } from '@/lib/resources';
+import { getDurationUnit } from '@/lib/elapsed';
+
+interface TaskWorkDialogProps {
+  task: Task | null;
+  onOpenChange: (open: boolean) => void;
+  onSave: (taskId: string, changes: TaskEffort) => void;
+}
+
+const getEffort = (task: Task): TaskEffort => ({
+  workingDuration: task.workingDuration,
+  work: task.work,
+  assignments: task.assignments,
+  taskType: task.taskType,
+});
+
+export default function TaskWorkDialog({ task, onOpenChange, onSave }: TaskWorkDialogProps) {
+  const [effort, setEffort] = useState<TaskEffort | null>(null);
+  const [duration, setDuration] = useState('');
+  const [work, setWork] = useState('');
+  const [resources, setResources] = useState('');
+  const [error, setError] = useState<string | undefined>();
+
+  useEffect(() => {
+    setEffort(task ? getEffort(task) : null);
+    setDuration(task ? String(task.workingDuration) : '');
+    setWork(task?.work !== undefined ? String(task.work) : '');
+    setResources(task ? formatAssignments(task.assignments) : '');
+    setError(undefined);
+  }, [task]);
+
+  // The edited field keeps what was typed; the field the task type lets go follows it once the input is valid
+  const handleEdit = (setText: (text: string) => void, text: string, parseEdit: (text: string) => EffortEdit) => {
+    setText(text);
+    if (!effort) return;
+    try {
+      const edit = parseEdit(text);
+      const next = editEffort(effort, edit);
+      setEffort(next);
+      if (!('workingDuration' in edit)) setDuration(String(next.workingDuration));
+      if (!('work' in edit)) setWork(next.work !== undefined ? String(next.work) : '');
+      if (!('assignments' in edit)) setResources(formatAssignments(next.assignments));
+      setError(undefined);
+    } catch (e: any) {
+      setError(e.message);
+    }
+  };
+
+  const parseDuration = (text: string): EffortEdit => {
+    const workingDuration = parseInt(text, 10);
+    if (isNaN(workingDuration) || workingDuration < 0) {
+      throw new Error('Duration must be 0 for milestones or a positive number.');
+    }
+    return { workingDuration };
+  };
+
+  const handleSave = () => {
+    if (!task || !effort || error) return;
+    onSave(task.id, effort);
+  };
+
+  return (
+    <Dialog open={!!task} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Work for {task?.title}</DialogTitle>
+          <DialogDescription>
+            With work entered, the duration is the work divided by the assigned units. The task type decides which of them changes when you edit another.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4 py-4">
+          <div className="space-y-2">
+            <Label htmlFor="task-type">Task Type</Label>
+            <Select
+              value={effort?.taskType ?? DEFAULT_TASK_TYPE}
+              onValueChange={(taskType) => effort && setEffort({ ...effort, taskType: taskType as TaskType })}
+            >
+              <SelectTrigger id="task-type">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {TASK_TYPES.map(type => (
+                  <SelectItem key={type} value={type}>{TASK_TYPE_LABELS[type]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="task-work">Work (person-days)</Label>
+              <Input
+                id="task-work"
+                type="number"
+                min={0}
+                value={work}
+                placeholder="Duration-driven"
+                onChange={e => handleEdit(setWork, e.target.value, text => ({ work: parseWork(text) }))}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="task-duration">Duration ({task ? getDurationUnit(task) : 'working days'})</Label>
+              <Input
+                id="task-duration"
+                type="number"
+                min={0}
+                value={duration}
+                onChange={e => handleEdit(setDuration, e.target.value, parseDuration)}
+              />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="task-resources">Resources and Units</Label>
+            <Input
+              id="task-resources"
+              value={resources}
+              placeholder="Alice:50%;Bob"
+              onChange={e => handleEdit(setResources, e.target.value, text => ({ assignments: parseAssignments(text) }))}
+            />
+          </div>
+          {error && <p className="text-sm text-destructive">{error}</p>}
+        </div>
+        <DialogFooter>
+          <Button onClick={handleSave} disabled={!!error}>
+            <Save className="mr-2" />
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
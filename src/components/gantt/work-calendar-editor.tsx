@@ -0,0 +1,120 @@
+"use client";
+
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Plus, Trash2 } from 'lucide-react';
+import type { CalendarException, WorkCalendar } from '@/lib/types';
+import { WEEKDAY_LABELS } from '@/lib/calendar';
+import { today } from '@/lib/plain-date';
+import DatePicker from '@/components/gantt/date-picker';
+
+interface WorkCalendarEditorProps {
+  calendar: WorkCalendar;
+  onChange: (calendar: WorkCalendar) => void;
+}
+
+export default function WorkCalendarEditor({ calendar, onChange }: WorkCalendarEditorProps) {
+  const handleToggleWorkingDay = (day: number) => {
+    const workingDays = calendar.workingDays.includes(day)
+      ? calendar.workingDays.filter(d => d !== day)
+      : [...calendar.workingDays, day].sort((a, b) => a - b);
+    onChange({ ...calendar, workingDays });
+  };
+
+  const handleAddException = () => {
+    const exception: CalendarException = { date: today(), name: '', isWorking: false };
+    onChange({ ...calendar, exceptions: [...calendar.exceptions, exception] });
+  };
+
+  const handleExceptionChange = (index: number, changes: Partial<CalendarException>) => {
+    onChange({
+      ...calendar,
+      exceptions: calendar.exceptions.map((e, i) => i === index ? { ...e, ...changes } : e),
+    });
+  };
+
+  const handleRemoveException = (index: number) => {
+    onChange({ ...calendar, exceptions: calendar.exceptions.filter((_, i) => i !== index) });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <Label>Working Days</Label>
+        <div className="flex flex-wrap gap-1">
+          {WEEKDAY_LABELS.map((label, day) => (
+            <Button
+              key={label}
+              type="button"
+              size="sm"
+              variant={calendar.workingDays.includes(day) ? 'default' : 'outline'}
+              onClick={() => handleToggleWorkingDay(day)}
+            >
+              {label}
+            </Button>
+          ))}
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <Label>Holidays &amp; Exceptions</Label>
+          <Button type="button" variant="outline" size="sm" onClick={handleAddException}>
+            <Plus className="mr-2 h-4 w-4" />
+            Add Date
+          </Button>
+        </div>
+        {calendar.exceptions.length > 0 ? (
+          <div className="rounded-md border max-h-[240px] overflow-y-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Name</TableHead>
+                  <TableHead className="w-[90px]">Working</TableHead>
+                  <TableHead className="w-[50px]"></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {calendar.exceptions.map((exception, index) => (
+                  <TableRow key={index}>
+                    <TableCell>
+                      <DatePicker
+                        date={exception.date}
+                        onSelect={(date) => handleExceptionChange(index, { date })}
+                        placeholder="Pick a date"
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <Input
+                        value={exception.name}
+                        onChange={e => handleExceptionChange(index, { name: e.target.value })}
+                        placeholder={exception.isWorking ? 'Extra working day' : 'Holiday name'}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <Switch
+                        checked={exception.isWorking}
+                        onCheckedChange={(isWorking) => handleExceptionChange(index, { isWorking })}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <Button variant="ghost" size="icon" onClick={() => handleRemoveException(index)}>
+                        <Trash2 className="h-4 w-4 text-destructive" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground">No holidays or exceptions defined.</p>
+        )}
+      </div>
+    </div>
+  );
+}
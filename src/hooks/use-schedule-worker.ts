@@ -0,0 +1,127 @@
+"use client"
+
+import * as React from "react"
+
+import type { Baseline, PlainDate, ProjectPlan, RawTask, Schedule, ScheduleChanges, Task } from "@/lib/types"
+import {
+  WorkCancelledError,
+  type ScheduleWorkerRequest,
+  type ScheduleWorkerRequestType,
+  type ScheduleWorkerResponse,
+  type ScheduleWorkerResults,
+  type WorkerScheduleOptions,
+  type WorkProgress,
+} from "@/lib/worker-protocol"
+import type { SimulationSettings } from "@/lib/risk-analysis"
+import { CircularDependencyError } from "@/lib/topology"
+
+type RequestInput<K extends ScheduleWorkerRequestType> = Omit<Extract<ScheduleWorkerRequest, { type: K }>, "id">
+type ScheduleWorkerResult = ScheduleWorkerResults[ScheduleWorkerRequestType]
+
+interface PendingRequest {
+  resolve: (result: ScheduleWorkerResult) => void
+  reject: (error: Error) => void
+  onProgress?: (progress: WorkProgress) => void
+}
+
+// Errors arrive as plain messages; circular dependencies become a CircularDependencyError again so the chart can show the loop
+const toError = (response: Extract<ScheduleWorkerResponse, { type: "error" }>): Error => {
+  if (!response.cycle) return new Error(response.message)
+  const error = new CircularDependencyError(response.cycle)
+  error.message = response.message
+  return error
+}
+
+// Tasks sent back by the worker are copies; the ones that did not change are swapped for the previous objects
+const keepUnchangedTasks = (previous: Schedule, changes: ScheduleChanges): ScheduleChanges => {
+  const changedIds = new Set(changes.changedTasks.map(t => t.id))
+  const previousTaskMap = new Map(previous.tasks.map(t => [t.id, t]))
+  const tasks = changes.schedule.tasks.map(task => changedIds.has(task.id) ? task : previousTaskMap.get(task.id) ?? task)
+  return { ...changes, schedule: { ...changes.schedule, tasks } }
+}
+
+/**
+ * Runs parsing, scheduling and summaries in a dedicated web worker, one per component using the hook.
+ * cancel() stops the worker mid-way and rejects whatever was running with a WorkCancelledError;
+ * the next request starts a fresh worker.
+ */
+export function useScheduleWorker() {
+  const workerRef = React.useRef<Worker | null>(null)
+  const pendingRef = React.useRef(new Map<number, PendingRequest>())
+  const nextIdRef = React.useRef(1)
+
+  const rejectAll = React.useCallback((error: Error) => {
+    pendingRef.current.forEach(pending => pending.reject(error))
+    pendingRef.current.clear()
+  }, [])
+
+  const getWorker = React.useCallback(() => {
+    if (workerRef.current) return workerRef.current
+
+    const worker = new Worker(new URL("../workers/schedule.worker.ts", import.meta.url))
+    worker.onmessage = (event: MessageEvent<ScheduleWorkerResponse>) => {
+      const response = event.data
+      const pending = pendingRef.current.get(response.id)
+      if (!pending) return
+      if (response.type === "progress") {
+        pending.onProgress?.(response.progress)
+        return
+      }
+      pendingRef.current.delete(response.id)
+      if (response.type === "error") {
+        pending.reject(toError(response))
+      } else {
+        pending.resolve(response.result)
+      }
+    }
+    worker.onerror = (event) => {
+      event.preventDefault()
+      rejectAll(new Error(event.message || "The scheduler stopped unexpectedly."))
+      worker.terminate()
+      workerRef.current = null
+    }
+    workerRef.current = worker
+    return worker
+  }, [rejectAll])
+
+  const cancel = React.useCallback(() => {
+    workerRef.current?.terminate()
+    workerRef.current = null
+    rejectAll(new WorkCancelledError())
+  }, [rejectAll])
+
+  // The worker goes away with the component
+  React.useEffect(() => cancel, [cancel])
+
+  const run = React.useCallback(<K extends ScheduleWorkerRequestType>(
+    request: RequestInput<K>,
+    onProgress?: (progress: WorkProgress) => void,
+  ): Promise<ScheduleWorkerResults[K]> => {
+    return new Promise((resolve, reject) => {
+      const id = nextIdRef.current++
+      // The worker answers with the id it was sent, so the result is the one for this request's type
+      pendingRef.current.set(id, { resolve: result => resolve(result as ScheduleWorkerResults[K]), reject, onProgress })
+      getWorker().postMessage({ ...request, id })
+    })
+  }, [getWorker])
+
+  return React.useMemo(() => ({
+    importCsv: (csvText: string, onProgress?: (progress: WorkProgress) => void) =>
+      run<"import">({ type: "import", csvText }, onProgress),
+    schedule: (rawTasks: RawTask[], options: WorkerScheduleOptions) =>
+      run<"schedule">({ type: "schedule", rawTasks, options }),
+    reschedule: async (previous: Schedule, rawTasks: RawTask[], changedIds: string[], options: WorkerScheduleOptions) =>
+      keepUnchangedTasks(previous, await run<"reschedule">({ type: "reschedule", previous, rawTasks, changedIds, options })),
+    summarize: (tasks: Task[], options: WorkerScheduleOptions, baseline?: Baseline) =>
+      run<"summarize">({ type: "summarize", tasks, options, baseline }),
+    costs: (tasks: Task[], options: WorkerScheduleOptions) =>
+      run<"costs">({ type: "costs", tasks, options }),
+    earnedValue: (tasks: Task[], statusDate: PlainDate, options: WorkerScheduleOptions, baseline?: Baseline) =>
+      run<"earnedValue">({ type: "earnedValue", tasks, statusDate, options, baseline }),
+    simulate: (rawTasks: RawTask[], options: WorkerScheduleOptions, settings: SimulationSettings, onProgress?: (progress: WorkProgress) => void) =>
+      run<"simulate">({ type: "simulate", rawTasks, options, settings }, onProgress),
+    compareScenarios: (first: ProjectPlan, second: ProjectPlan) =>
+      run<"compare">({ type: "compare", first, second }),
+    cancel,
+  }), [run, cancel])
+}
@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import type { Baseline } from '../types';
+import { applyBaselineDirective, createBaseline, formatBaselineDirectives, formatVariance, getTaskVariances, renameBaselineTask } from '../baselines';
+import { DEFAULT_WORK_CALENDAR } from '../calendar';
+import { processTasks } from '../task-utils';
+import { date, link, rawTask } from './helpers';
+
+const alice = [{ resource: 'Alice', units: 50 }];
+const schedule = (durationOfA: number) => processTasks([
+  rawTask('A', durationOfA, { assignments: alice }),
+  rawTask('B', 2, { dependencies: [link('A')] }),
+], { leveling: { enabled: false } });
+
+describe('baseline variances', () => {
+  it('counts slips in working days of the task calendar', () => {
+    const baseline = createBaseline('Approved', schedule(3), date('2026-02-27'));
+    const variances = getTaskVariances(schedule(5), baseline, () => DEFAULT_WORK_CALENDAR);
+    expect(variances.get('A')).toEqual({ start: 0, finish: 2, duration: 2, work: 1 });
+    // B moves across the weekend, which does not count
+    expect(variances.get('B')).toEqual({ start: 2, finish: 2, duration: 0, work: 0 });
+  });
+
+  it('leaves out tasks added since the baseline was saved', () => {
+    const baseline = createBaseline('Approved', schedule(3).filter(t => t.id === 'A'), date('2026-02-27'));
+    expect(getTaskVariances(schedule(3), baseline, () => DEFAULT_WORK_CALENDAR).has('B')).toBe(false);
+  });
+
+  it('formats variances with their sign', () => {
+    expect(formatVariance(2)).toBe('+2d');
+    expect(formatVariance(-1.26)).toBe('-1.3d');
+    expect(formatVariance(0.01)).toBe('0');
+  });
+
+  it('follows a task to its new id', () => {
+    const [baseline] = renameBaselineTask([createBaseline('Approved', schedule(3))], 'A', 'Design');
+    expect(baseline.tasks.has('A')).toBe(false);
+    expect(baseline.tasks.get('Design')!.workingDuration).toBe(3);
+  });
+});
+
+describe('baseline directives', () => {
+  it('round-trips baselines through their directive lines', () => {
+    const baselines = [createBaseline('Approved, v2', schedule(3), date('2026-02-27'))];
+    const lines = formatBaselineDirectives(baselines);
+    expect(lines[0]).toBe('#baseline,"Approved, v2",2026-02-27');
+    expect(lines[1]).toBe('#baselineTask,"Approved, v2","A",2026-03-02,2026-03-04,3,1.5,"Alice:50%"');
+    expect(lines.reduce((parsed, line) => applyBaselineDirective(line, parsed), [] as Baseline[])).toEqual(baselines);
+  });
+
+  it('rejects lines it cannot read', () => {
+    expect(() => applyBaselineDirective('#baselineTask,Approved,,2026-03-02', [])).toThrow('Missing task id in baselineTask directive.');
+    expect(() => applyBaselineDirective('#baselineTask,Approved,A,2026-03-02,2026-03-04,x,1', [])).toThrow('Invalid number "x"');
+    expect(() => applyBaselineDirective('#baseline,Approved,03/02/2026', [])).toThrow('Invalid date "03/02/2026" in baseline directive.');
+  });
+});
@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+import type { WorkCalendar } from '../types';
+import {
+  addWorkingDays,
+  applyCalendarDirective,
+  countWorkingDays,
+  DEFAULT_WORK_CALENDAR,
+  differenceInWorkingDays,
+  formatCalendarDirectives,
+  intersectCalendars,
+  isWorkingDay,
+  nextWorkingDay,
+  offsetWorkingDays,
+  parseWorkingDays,
+  previousWorkingDay,
+} from '../calendar';
+import { date } from './helpers';
+
+const withHoliday: WorkCalendar = {
+  ...DEFAULT_WORK_CALENDAR,
+  exceptions: [
+    { date: date('2026-03-04'), name: 'Holiday', isWorking: false },
+    { date: date('2026-03-07'), name: 'Make-up Day', isWorking: true },
+  ],
+};
+
+describe('working days', () => {
+  it('skips weekends and holidays and works on make-up days', () => {
+    expect(isWorkingDay(date('2026-03-04'), withHoliday)).toBe(false);
+    expect(isWorkingDay(date('2026-03-07'), withHoliday)).toBe(true);
+    expect(isWorkingDay(date('2026-03-08'), withHoliday)).toBe(false);
+    expect(nextWorkingDay(date('2026-03-08'), withHoliday)).toBe('2026-03-09');
+    expect(previousWorkingDay(date('2026-03-04'), withHoliday)).toBe('2026-03-03');
+  });
+
+  it('counts the start date as the first day of a duration', () => {
+    expect(addWorkingDays(date('2026-03-02'), 1, DEFAULT_WORK_CALENDAR)).toBe('2026-03-02');
+    expect(addWorkingDays(date('2026-03-02'), 5, DEFAULT_WORK_CALENDAR)).toBe('2026-03-06');
+    expect(addWorkingDays(date('2026-03-02'), 5, withHoliday)).toBe('2026-03-07');
+  });
+
+  it('offsets by whole weeks the same as day by day', () => {
+    const start = date('2026-03-02');
+    for (const offset of [-40, -11, -5, -1, 0, 1, 5, 11, 40]) {
+      let expected = start;
+      for (let i = 0; i < Math.abs(offset); i++) {
+        expected = offsetWorkingDays(expected, Math.sign(offset), withHoliday);
+      }
+      expect(offsetWorkingDays(start, offset, withHoliday)).toBe(expected);
+      expect(differenceInWorkingDays(expected, start, withHoliday)).toBe(offset);
+    }
+  });
+
+  it('counts working days inclusive of both ends', () => {
+    expect(countWorkingDays(date('2026-03-02'), date('2026-03-08'), withHoliday)).toBe(5);
+  });
+});
+
+describe('intersectCalendars', () => {
+  it('works only the days every calendar works', () => {
+    const partTime: WorkCalendar = { workingDays: [1, 2, 3], exceptions: [] };
+    const calendar = intersectCalendars([withHoliday, partTime]);
+    expect(calendar.workingDays).toEqual([1, 2, 3]);
+    expect(isWorkingDay(date('2026-03-04'), calendar)).toBe(false);
+    expect(isWorkingDay(date('2026-03-07'), calendar)).toBe(false);
+  });
+});
+
+describe('calendar directives', () => {
+  it('parses weekday names and rejects unknown ones', () => {
+    expect(parseWorkingDays('Sun;Mon;tuesday;Mon')).toEqual([0, 1, 2]);
+    expect(() => parseWorkingDays('Mon;Funday')).toThrow('Invalid working day "Funday"');
+  });
+
+  it('round-trips a calendar through its directive lines', () => {
+    const lines = formatCalendarDirectives(withHoliday);
+    expect(lines).toEqual(['#workingDays,Mon;Tue;Wed;Thu;Fri', '#holiday,2026-03-04,"Holiday"', '#workday,2026-03-07,"Make-up Day"']);
+    const parsed = lines.reduce((calendar, line) => applyCalendarDirective(line, calendar), { workingDays: [], exceptions: [] } as WorkCalendar);
+    expect(parsed).toEqual(withHoliday);
+  });
+
+  it('rejects invalid dates', () => {
+    expect(() => applyCalendarDirective('#holiday,2026-02-30,Nope', DEFAULT_WORK_CALENDAR)).toThrow('Invalid date "2026-02-30"');
+  });
+});
@@ -0,0 +1,108 @@
+import { describe, expect, it } from 'vitest';
+import { processTasks } from '../task-utils';
+import { LATE_AS_POSSIBLE_CONFLICT, parseConstraint } from '../constraints';
+import { byId, date, datesOf, link, rawTask } from './helpers';
+
+describe('parseConstraint', () => {
+  it('needs a date for dated constraints', () => {
+    expect(parseConstraint('snet', '2026-03-04')).toEqual({ type: 'SNET', date: '2026-03-04' });
+    expect(() => parseConstraint('MSO', '')).toThrow(/constraintDate/);
+  });
+
+  it('treats ASAP as no constraint', () => {
+    expect(parseConstraint('ASAP', undefined)).toBeUndefined();
+    expect(parseConstraint('ALAP', undefined)).toEqual({ type: 'ALAP' });
+  });
+});
+
+describe('dated constraints', () => {
+  it('pins a Must Start On task to its date, moved to the next working day', () => {
+    const tasks = byId(processTasks([rawTask('A', 2, { constraint: { type: 'MSO', date: date('2026-03-07') } })]));
+    expect(datesOf(tasks.get('A'))).toEqual({ startDate: '2026-03-09', endDate: '2026-03-10' });
+  });
+
+  it('delays a Start No Earlier Than task but not before its dependencies allow', () => {
+    const tasks = byId(processTasks([
+      rawTask('A', 5),
+      rawTask('B', 1, { dependencies: [link('A')], constraint: { type: 'SNET', date: date('2026-03-04') } }),
+    ]));
+    expect(tasks.get('B')!.startDate).toBe('2026-03-09');
+    expect(tasks.get('B')!.constraintConflict).toBeUndefined();
+  });
+
+  it('reports a Finish No Later Than date its dependencies make it miss', () => {
+    const tasks = byId(processTasks([
+      rawTask('A', 5),
+      rawTask('B', 2, { dependencies: [link('A')], constraint: { type: 'FNLT', date: date('2026-03-06') } }),
+    ]));
+    expect(tasks.get('B')!.endDate).toBe('2026-03-10');
+    expect(tasks.get('B')!.constraintConflict).toMatch(/its dependencies/);
+  });
+});
+
+describe('as late as possible', () => {
+  it('moves a task without successors to finish with the project', () => {
+    const tasks = byId(processTasks([rawTask('A', 2, { constraint: { type: 'ALAP' } }), rawTask('C', 15)]));
+    expect(datesOf(tasks.get('A'))).toEqual({ startDate: '2026-03-19', endDate: '2026-03-20' });
+  });
+
+  it('uses its total float and takes a finish-to-start successor along', () => {
+    const tasks = byId(processTasks([
+      rawTask('A', 2, { constraint: { type: 'ALAP' } }),
+      rawTask('B', 2, { dependencies: [link('A')] }),
+      rawTask('C', 15),
+    ]));
+    expect(datesOf(tasks.get('A'))).toEqual({ startDate: '2026-03-17', endDate: '2026-03-18' });
+    expect(datesOf(tasks.get('B'))).toEqual({ startDate: '2026-03-19', endDate: '2026-03-20' });
+    expect(tasks.get('A')!.constraintConflict).toBeUndefined();
+  });
+
+  it('takes a start-to-start successor along', () => {
+    const tasks = byId(processTasks([
+      rawTask('A', 2, { constraint: { type: 'ALAP' } }),
+      rawTask('B', 2, { dependencies: [link('A', 'SS')] }),
+      rawTask('C', 15),
+    ]));
+    expect(tasks.get('A')!.startDate).toBe('2026-03-19');
+    expect(tasks.get('B')!.startDate).toBe('2026-03-19');
+  });
+
+  it('moves as late as a parallel longer branch allows, though its successor has no free float', () => {
+    const tasks = byId(processTasks([
+      rawTask('A', 5),
+      rawTask('B', 1, { constraint: { type: 'ALAP' } }),
+      rawTask('C', 1, { dependencies: [link('B')] }),
+    ]));
+    expect(datesOf(tasks.get('B'))).toEqual({ startDate: '2026-03-05', endDate: '2026-03-05' });
+    expect(datesOf(tasks.get('C'))).toEqual({ startDate: '2026-03-06', endDate: '2026-03-06' });
+  });
+
+  it('does not move a successor pinned to its date', () => {
+    const tasks = byId(processTasks([
+      rawTask('A', 2, { constraint: { type: 'ALAP' } }),
+      rawTask('B', 2, { dependencies: [link('A')], constraint: { type: 'MSO', date: date('2026-03-11') } }),
+      rawTask('C', 15),
+    ]));
+    expect(datesOf(tasks.get('A'))).toEqual({ startDate: '2026-03-09', endDate: '2026-03-10' });
+    expect(tasks.get('B')!.startDate).toBe('2026-03-11');
+  });
+
+  it('moves a chain of as late as possible tasks together', () => {
+    const tasks = byId(processTasks([
+      rawTask('A', 2, { constraint: { type: 'ALAP' } }),
+      rawTask('B', 2, { dependencies: [link('A')], constraint: { type: 'ALAP' } }),
+      rawTask('C', 15),
+    ]));
+    expect(datesOf(tasks.get('A'))).toEqual({ startDate: '2026-03-17', endDate: '2026-03-18' });
+    expect(datesOf(tasks.get('B'))).toEqual({ startDate: '2026-03-19', endDate: '2026-03-20' });
+  });
+
+  it('flags a conflict when a pinned successor leaves no room', () => {
+    const tasks = byId(processTasks([
+      rawTask('A', 3, { constraint: { type: 'ALAP' } }),
+      rawTask('B', 1, { dependencies: [link('A')], constraint: { type: 'MSO', date: date('2026-03-03') } }),
+    ]));
+    expect(tasks.get('A')!.startDate).toBe('2026-03-02');
+    expect(tasks.get('A')!.constraintConflict).toBe(LATE_AS_POSSIBLE_CONFLICT);
+  });
+});
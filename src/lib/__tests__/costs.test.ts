@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import type { Resource } from '../types';
+import { calculateCosts, formatBudgetDirective, parseBudgetDirective } from '../costs';
+import { processTasks } from '../task-utils';
+import { link, rawTask } from './helpers';
+
+const alice: Resource = { name: 'Alice', vacations: [], rate: 400, overtimeRate: 600, costPerUse: 50 };
+const resources = [alice];
+
+const costsOf = (tasks: ReturnType<typeof rawTask>[]) => {
+  const options = { resources, leveling: { enabled: false } };
+  return calculateCosts(processTasks(tasks, options), options);
+};
+
+describe('calculateCosts', () => {
+  it('pays the rate for each day worked and the cost per use once', () => {
+    const report = costsOf([rawTask('A', 3, { assignments: [{ resource: 'Alice', units: 100 }] })]);
+    expect(report.tasks.get('A')!.resourceCost).toBe(3 * 400 + 50);
+    expect(report.resources.get('Alice')).toBe(1250);
+  });
+
+  it('pays the overtime rate for work beyond a full day', () => {
+    const report = costsOf([
+      rawTask('A', 1, { assignments: [{ resource: 'Alice', units: 100 }] }),
+      rawTask('B', 1, { assignments: [{ resource: 'Alice', units: 50 }] }),
+    ]);
+    expect(report.tasks.get('A')!.resourceCost + report.tasks.get('B')!.resourceCost).toBeCloseTo(400 + 0.5 * 600 + 2 * 50);
+  });
+
+  it('spreads fixed costs over the working days', () => {
+    const report = costsOf([rawTask('A', 4, { fixedCost: 1000 })]);
+    expect(report.total).toBe(1000);
+    expect(report.curve[report.curve.length - 1].cost).toBe(1000);
+  });
+
+  it('charges milestones only their fixed cost', () => {
+    const report = costsOf([
+      rawTask('A', 2),
+      rawTask('Sign-off', 0, { dependencies: [link('A')], assignments: [{ resource: 'Alice', units: 100 }], fixedCost: 200 }),
+    ]);
+    expect(report.tasks.get('Sign-off')).toMatchObject({ resourceCost: 0, fixedCost: 200, total: 200 });
+    expect(report.resources.has('Alice')).toBe(false);
+  });
+});
+
+describe('budget directive', () => {
+  it('round-trips', () => {
+    expect(parseBudgetDirective(formatBudgetDirective(120000))).toBe(120000);
+  });
+});
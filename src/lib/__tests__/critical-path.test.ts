@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import type { RawTask } from '../types';
+import { analyzeCriticalPath } from '../critical-path';
+import { processTasks } from '../task-utils';
+import { date, link, rawTask } from './helpers';
+
+const analyze = (tasks: RawTask[]) => {
+  const options = { leveling: { enabled: false } };
+  return analyzeCriticalPath(processTasks(tasks, options), options);
+};
+
+describe('analyzeCriticalPath', () => {
+  it('marks the longest chain critical and gives the shorter branch float', () => {
+    const info = analyze([
+      rawTask('A', 2),
+      rawTask('B', 5, { dependencies: [link('A')] }),
+      rawTask('C', 2, { dependencies: [link('A')] }),
+      rawTask('D', 1, { dependencies: [link('B'), link('C')] }),
+    ]);
+    expect(['A', 'B', 'D'].map(id => info.get(id)!.isCritical)).toEqual([true, true, true]);
+    expect(info.get('C')).toMatchObject({ isCritical: false, totalFloat: 3, freeFloat: 3 });
+    expect(info.get('C')!.lateFinish).toBe('2026-03-10');
+  });
+
+  it('gives free float only up to the next task, and total float up to the project finish', () => {
+    const info = analyze([
+      rawTask('A', 1),
+      rawTask('B', 1, { dependencies: [link('A')] }),
+      rawTask('C', 4),
+    ]);
+    expect(info.get('A')).toMatchObject({ totalFloat: 2, freeFloat: 0 });
+    expect(info.get('B')).toMatchObject({ totalFloat: 2, freeFloat: 2 });
+  });
+
+  it('measures float through start-to-start and finish-to-finish links', () => {
+    const info = analyze([
+      rawTask('A', 3),
+      rawTask('B', 5, { dependencies: [link('A', 'SS', 1)] }),
+      rawTask('C', 2, { dependencies: [link('A', 'FF')] }),
+    ]);
+    expect(info.get('B')!.totalFloat).toBe(0);
+    expect(info.get('A')!.totalFloat).toBe(0);
+    expect(info.get('C')!.totalFloat).toBe(3);
+  });
+
+  it('gives negative float when a finish-no-later-than date is missed', () => {
+    const info = analyze([
+      rawTask('A', 5, { constraint: { type: 'FNLT', date: date('2026-03-04') } }),
+    ]);
+    expect(info.get('A')!.totalFloat).toBe(-2);
+    expect(info.get('A')!.isCritical).toBe(true);
+  });
+
+  it('rolls summary figures up from their leaves', () => {
+    const info = analyze([
+      rawTask('Phase', 0),
+      rawTask('A', 2, { parentId: 'Phase' }),
+      rawTask('B', 4, { parentId: 'Phase' }),
+    ]);
+    expect(info.get('Phase')).toMatchObject({ isCritical: true, totalFloat: 0, lateFinish: '2026-03-05' });
+  });
+});
@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { parseProjectCsv } from '../csv-import';
+import { PROJECT_TOTAL, summarizeResources } from '../summary';
+import { splitCsvLine } from '../csv-utils';
+import { processTasks } from '../task-utils';
+import { byId, link } from './helpers';
+
+const csv = [
+  '#workingDays,Mon;Tue;Wed;Thu;Fri',
+  '#holiday,2026-03-04,"Founders, Day"',
+  '#resource,Alice,Mon;Tue;Wed;Thu,',
+  '#rate,Alice,400,,',
+  '#schedule,forward',
+  'id,title,startDate,duration,dependencies,resource,outlineLevel,type',
+  'design,Design,2026-03-02,,,,1,',
+  'sketch,Sketch,2026-03-02,2,,Alice:50%,2,',
+  'review,Review,2026-03-02,1,sketch,Alice,2,',
+  'done,Sign-off,2026-03-02,5,Design,,1,milestone',
+].join('\n');
+
+describe('parseProjectCsv', () => {
+  it('reads the directives, the outline and every task row', () => {
+    const project = parseProjectCsv(csv);
+    expect(project.calendar.exceptions).toEqual([{ date: '2026-03-04', name: 'Founders, Day', isWorking: false }]);
+    expect(project.resources.map(r => r.name)).toEqual(['Alice']);
+    const tasks = byId(project.rawTasks);
+    expect(tasks.get('sketch')).toMatchObject({ parentId: 'design', workingDuration: 2, assignments: [{ resource: 'Alice', units: 50 }] });
+    expect(tasks.get('review')!.dependencies).toEqual([link('sketch')]);
+    // Milestones take no time whatever the duration column says, and a title still finds its task
+    expect(tasks.get('done')).toMatchObject({ workingDuration: 0, dependencies: [link('design')] });
+  });
+
+  it('reports the line of a row it cannot read', () => {
+    expect(() => parseProjectCsv('title,startDate,duration\nA,2026-03-02,3\nB,03/02/2026,1')).toThrow('Invalid date format on line 3.');
+    expect(() => parseProjectCsv('title,startDate,duration,resource\nA,2026-03-02,3,Alice:150%')).toThrow(/Invalid allocation.*\(line 2\)/);
+    expect(() => parseProjectCsv('name,start\nA,2026-03-02')).toThrow('Invalid CSV header.');
+  });
+
+  it('splits quoted values with commas and escaped quotes', () => {
+    expect(splitCsvLine('a, "b, c" ,"say ""hi"""')).toEqual(['a', 'b, c', 'say "hi"']);
+  });
+});
+
+describe('summarizeResources', () => {
+  it('credits each resource with its share of the work and its cost, then totals the project', () => {
+    const project = parseProjectCsv(csv);
+    const options = { calendar: project.calendar, resources: project.resources, leveling: project.leveling };
+    const summary = new Map(summarizeResources(processTasks(project.rawTasks, options), options));
+    expect(summary.get('Alice')).toMatchObject({ startDate: '2026-03-02', totalWorkingDays: 2, cost: 800 });
+    expect(summary.get(PROJECT_TOTAL)).toMatchObject({ totalWorkingDays: 2, cost: 800, completedCost: 0 });
+  });
+});
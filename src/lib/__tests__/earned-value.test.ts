@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import type { RawTask } from '../types';
+import { calculateEarnedValue, parseAmount } from '../earned-value';
+import { createBaseline } from '../baselines';
+import { processTasks } from '../task-utils';
+import { date, rawTask } from './helpers';
+
+const options = { leveling: { enabled: false } };
+const schedule = (tasks: RawTask[]) => processTasks(tasks, options);
+
+const underway = rawTask('A', 4, { budget: 1000, percentComplete: 25, actualStart: date('2026-03-02'), actualCost: 400 });
+
+describe('calculateEarnedValue', () => {
+  it('compares the work done and its cost with the work planned by the status date', () => {
+    const metrics = calculateEarnedValue(schedule([underway]), date('2026-03-03'), options).project;
+    expect(metrics).toMatchObject({ bac: 1000, pv: 500, ev: 250, ac: 400, sv: -250, cv: -150, spi: 0.5, cpi: 0.625 });
+    // The remaining work is expected to overrun at the same rate
+    expect(metrics.eac).toBe(1600);
+    expect(metrics.etc).toBe(1200);
+  });
+
+  it('plans the budget along the baseline when one is given', () => {
+    const baseline = createBaseline('Approved', schedule([underway]), date('2026-02-27'));
+    const slipped = schedule([{ ...underway, startDate: date('2026-03-04'), actualStart: undefined, percentComplete: 0, actualCost: undefined }]);
+    expect(calculateEarnedValue(slipped, date('2026-03-03'), options).project.pv).toBe(0);
+    expect(calculateEarnedValue(slipped, date('2026-03-03'), options, baseline).project.pv).toBe(500);
+  });
+
+  it('shares task figures among its resources by their units', () => {
+    const report = calculateEarnedValue(schedule([
+      { ...underway, assignments: [{ resource: 'Alice', units: 100 }, { resource: 'Bob', units: 50 }] },
+    ]), date('2026-03-03'), options);
+    expect(new Map(report.resources).get('Bob')!.bac).toBeCloseTo(1000 / 3);
+  });
+
+  it('draws the curve up to the last planned finish with earned value only up to the status date', () => {
+    const { curve } = calculateEarnedValue(schedule([underway]), date('2026-03-03'), options);
+    expect(curve[0].date).toBe('2026-03-02');
+    expect(curve[curve.length - 1]).toEqual({ date: '2026-03-05', pv: 1000, ev: undefined, ac: undefined });
+    expect(curve.find(point => point.date === '2026-03-03')).toEqual({ date: '2026-03-03', pv: 500, ev: 250, ac: 400 });
+  });
+});
+
+describe('parseAmount', () => {
+  it('allows thousands separators and rejects negative amounts', () => {
+    expect(parseAmount('12,500', 'budget')).toBe(12500);
+    expect(parseAmount(' ', 'budget')).toBeUndefined();
+    expect(() => parseAmount('-1', 'actualCost')).toThrow('Invalid actualCost "-1". Must be a number of at least 0.');
+  });
+});
@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import type { TaskEffort } from '../effort';
+import { editEffort, getAssignmentWork, getEffortDuration, parseTaskType, parseWork } from '../effort';
+
+const halfTime = [{ resource: 'Alice', units: 50 }];
+
+const effortTask = (taskType: TaskEffort['taskType']): TaskEffort => ({
+  workingDuration: 4,
+  work: 2,
+  assignments: halfTime,
+  taskType,
+});
+
+describe('effort-driven durations', () => {
+  it('takes the work divided by the units, in whole days', () => {
+    expect(getEffortDuration(2, halfTime)).toBe(4);
+    expect(getEffortDuration(1, [{ resource: 'Alice', units: 33.33 }, { resource: 'Bob', units: 33.33 }, { resource: 'Carol', units: 33.34 }])).toBe(1);
+    expect(getEffortDuration(0.1, halfTime)).toBe(1);
+    expect(getEffortDuration(0, halfTime)).toBe(0);
+  });
+
+  it('shares the work among resources by their units', () => {
+    const task = { workingDuration: 2, work: 3, assignments: [{ resource: 'Alice', units: 100 }, { resource: 'Bob', units: 50 }] };
+    expect(getAssignmentWork(task, task.assignments[0])).toBe(2);
+    expect(getAssignmentWork(task, task.assignments[1])).toBe(1);
+  });
+});
+
+describe('editEffort', () => {
+  it('keeps units fixed: a new duration changes the work, new units change the duration', () => {
+    expect(editEffort(effortTask('fixedUnits'), { workingDuration: 6 })).toMatchObject({ work: 3, assignments: halfTime });
+    expect(editEffort(effortTask('fixedUnits'), { assignments: [{ resource: 'Alice', units: 100 }] })).toMatchObject({ workingDuration: 2, work: 2 });
+  });
+
+  it('keeps work fixed: a new duration changes the units', () => {
+    expect(editEffort(effortTask('fixedWork'), { workingDuration: 2 })).toMatchObject({ work: 2, assignments: [{ resource: 'Alice', units: 100 }] });
+    expect(() => editEffort(effortTask('fixedWork'), { workingDuration: 1 })).toThrow("'Alice' would need 200% units.");
+  });
+
+  it('keeps the duration fixed: new work changes the units, new units change the work', () => {
+    expect(editEffort(effortTask('fixedDuration'), { work: 1 })).toMatchObject({ workingDuration: 4, assignments: [{ resource: 'Alice', units: 25 }] });
+    expect(editEffort(effortTask('fixedDuration'), { assignments: [{ resource: 'Alice', units: 100 }] })).toMatchObject({ workingDuration: 4, work: 4 });
+  });
+
+  it('needs a resource before work can be entered', () => {
+    expect(() => editEffort({ workingDuration: 3, assignments: [] }, { work: 2 })).toThrow('Assign a resource before entering work');
+  });
+});
+
+describe('parsing', () => {
+  it('reads work in person-days and task types as written or labelled', () => {
+    expect(parseWork('2.5')).toBe(2.5);
+    expect(() => parseWork('-1')).toThrow('Invalid work "-1"');
+    expect(parseTaskType('Fixed Work')).toBe('fixedWork');
+    expect(parseTaskType('fixedduration')).toBe('fixedDuration');
+    expect(() => parseTaskType('fixedCost')).toThrow('Invalid task type "fixedCost". Use one of: fixedUnits, fixedWork, fixedDuration.');
+  });
+});
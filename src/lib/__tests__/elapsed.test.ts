@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest';
+import { formatDuration, parseDuration } from '../elapsed';
+import { processTasks } from '../task-utils';
+import { analyzeCriticalPath } from '../critical-path';
+import { parseProjectCsv } from '../csv-import';
+import type { RawTask, ScheduleMode } from '../types';
+import { byId, date, datesOf, link, rawTask } from './helpers';
+
+const BACKWARD: ScheduleMode = { direction: 'backward', finishDate: date('2026-03-20') };
+
+const schedule = (tasks: RawTask[], mode?: ScheduleMode) => {
+  const scheduled = processTasks(tasks, { mode });
+  return { tasks: byId(scheduled), float: analyzeCriticalPath(scheduled, { mode }) };
+};
+
+describe('parseDuration', () => {
+  it('reads working and elapsed days', () => {
+    expect(parseDuration('10')).toEqual({ workingDuration: 10, elapsed: undefined });
+    expect(parseDuration(' 10ed ')).toEqual({ workingDuration: 10, elapsed: true });
+    expect(parseDuration('').workingDuration).toBeNaN();
+  });
+
+  it('reads only a whole number, with or without a space before "ed"', () => {
+    expect(parseDuration('10 ed')).toEqual({ workingDuration: 10, elapsed: true });
+    expect(parseDuration('10ed')).toEqual({ workingDuration: 10, elapsed: true });
+    expect(parseDuration('10x').workingDuration).toBeNaN();
+    expect(parseDuration('10.5').workingDuration).toBeNaN();
+  });
+
+  it('round-trips through formatDuration', () => {
+    expect(formatDuration(parseDuration('14ed'))).toBe('14ed');
+    expect(formatDuration(parseDuration('3'))).toBe('3');
+  });
+
+  it('is read from the CSV duration column', () => {
+    const { rawTasks } = parseProjectCsv('title,startDate,duration\nCure,2026-03-06,7ed\nGate,2026-03-06,0ed');
+    expect(rawTasks.map(t => [t.workingDuration, t.elapsed])).toEqual([[7, true], [0, undefined]]);
+    expect(() => parseProjectCsv('title,startDate,duration\nCure,2026-03-06,10x')).toThrow('Invalid duration on line 2.');
+  });
+});
+
+describe('elapsed tasks', () => {
+  it('run through weekends and holidays', () => {
+    const { tasks } = schedule([rawTask('Cure', 7, { elapsed: true, startDate: date('2026-03-06') })]);
+    expect(datesOf(tasks.get('Cure'))).toEqual({ startDate: '2026-03-06', endDate: '2026-03-12' });
+  });
+
+  it('start the day after their predecessor, weekend or not', () => {
+    const { tasks } = schedule([rawTask('Pour', 5), rawTask('Cure', 3, { elapsed: true, dependencies: [link('Pour')] })]);
+    expect(datesOf(tasks.get('Cure'))).toEqual({ startDate: '2026-03-07', endDate: '2026-03-09' });
+  });
+
+  it('are followed on the working calendar', () => {
+    const { tasks } = schedule([rawTask('Cure', 6, { elapsed: true }), rawTask('Frame', 1, { dependencies: [link('Cure')] })]);
+    expect(tasks.get('Cure')!.endDate).toBe('2026-03-07');
+    expect(tasks.get('Frame')!.startDate).toBe('2026-03-09');
+  });
+});
+
+describe('lag into an elapsed task', () => {
+  const tasks = [rawTask('Pour', 5), rawTask('Cure', 3, { elapsed: true, dependencies: [link('Pour', 'FS', 2)] })];
+
+  it('counts calendar days of the successor', () => {
+    // Pour finishes on Friday; two calendar days of lag are the weekend
+    const { tasks: scheduled } = schedule(tasks);
+    expect(scheduled.get('Cure')!.startDate).toBe('2026-03-09');
+  });
+
+  it('leaves no float on the predecessor of a critical elapsed task', () => {
+    const { float } = schedule(tasks);
+    expect(float.get('Pour')!.totalFloat).toBe(0);
+    expect(float.get('Cure')!.totalFloat).toBe(0);
+  });
+
+  it('is kept the same way scheduling backward', () => {
+    const { tasks: scheduled } = schedule(tasks, BACKWARD);
+    expect(datesOf(scheduled.get('Cure'))).toEqual({ startDate: '2026-03-18', endDate: '2026-03-20' });
+    // Cure starts on Wednesday, so Pour finishes by the Sunday before with the lag, and so on the Friday
+    expect(datesOf(scheduled.get('Pour'))).toEqual({ startDate: '2026-03-09', endDate: '2026-03-13' });
+  });
+});
+
+describe('lag out of an elapsed task', () => {
+  it('counts working days of the successor', () => {
+    const { tasks, float } = schedule([rawTask('Cure', 5, { elapsed: true }), rawTask('Frame', 3, { dependencies: [link('Cure', 'FS', 2)] })]);
+    // Cure finishes on Friday; the lag is Monday and Tuesday
+    expect(tasks.get('Frame')!.startDate).toBe('2026-03-11');
+    // Cure could finish as late as Sunday without moving Frame
+    expect(float.get('Cure')!.totalFloat).toBe(2);
+  });
+});
@@ -0,0 +1,22 @@
+import type { Dependency, DependencyType, PlainDate, RawTask, Task } from '../types';
+
+// Monday 2 March 2026; the default calendar works Monday to Friday
+export const PROJECT_START = '2026-03-02' as PlainDate;
+
+export const date = (value: string): PlainDate => value as PlainDate;
+
+export const rawTask = (id: string, workingDuration: number, fields: Partial<RawTask> = {}): RawTask => ({
+  id,
+  title: id,
+  startDate: PROJECT_START,
+  workingDuration,
+  dependencies: [],
+  assignments: [],
+  ...fields,
+});
+
+export const link = (predecessor: string, type: DependencyType = 'FS', lag = 0): Dependency => ({ predecessor, type, lag });
+
+export const byId = <T extends { id: string }>(tasks: T[]): Map<string, T> => new Map(tasks.map(t => [t.id, t]));
+
+export const datesOf = (task: Task | undefined) => task && { startDate: task.startDate, endDate: task.endDate };
@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { expandSummaryDependencies, getOutlineDepths, orderByHierarchy, validateHierarchy } from '../hierarchy';
+import { processTasks } from '../task-utils';
+import { byId, datesOf, link, rawTask } from './helpers';
+
+const phased = [
+  rawTask('Design', 0),
+  rawTask('Sketch', 2, { parentId: 'Design' }),
+  rawTask('Review', 1, { parentId: 'Design', dependencies: [link('Sketch')] }),
+  rawTask('Build', 3, { dependencies: [link('Design')] }),
+];
+
+describe('summary tasks', () => {
+  it('rolls up their dates from their children', () => {
+    const tasks = byId(processTasks(phased, { leveling: { enabled: false } }));
+    expect(tasks.get('Design')!.isSummary).toBe(true);
+    expect(datesOf(tasks.get('Design'))).toEqual({ startDate: '2026-03-02', endDate: '2026-03-04' });
+    expect(tasks.get('Design')!.workingDuration).toBe(3);
+  });
+
+  it('hold back successors until all of their work is done', () => {
+    const tasks = byId(processTasks(phased, { leveling: { enabled: false } }));
+    expect(tasks.get('Build')!.startDate).toBe('2026-03-05');
+    expect(expandSummaryDependencies(phased).get('Build')).toEqual([link('Sketch'), link('Review')]);
+  });
+
+  it('pass their own links on to their children', () => {
+    const tasks = [rawTask('Start', 1), rawTask('Phase', 0, { dependencies: [link('Start')] }), rawTask('Work', 1, { parentId: 'Phase' })];
+    expect(expandSummaryDependencies(tasks).get('Work')).toEqual([link('Start')]);
+  });
+});
+
+describe('validateHierarchy', () => {
+  it('rejects unknown parents, nesting loops and links between a summary and its children', () => {
+    expect(() => validateHierarchy([rawTask('A', 1, { parentId: 'Missing' })])).toThrow("Parent 'Missing' for task 'A' not found.");
+    expect(() => validateHierarchy([rawTask('A', 1, { parentId: 'B' }), rawTask('B', 1, { parentId: 'A' })])).toThrow('cannot be nested inside itself');
+    expect(() => validateHierarchy([rawTask('P', 0), rawTask('A', 1, { parentId: 'P', dependencies: [link('P')] })]))
+      .toThrow("Task 'A' cannot depend on 'P' because one contains the other.");
+  });
+});
+
+describe('outline', () => {
+  it('places children after their summary and counts their depth', () => {
+    const tasks = [rawTask('Child', 1, { parentId: 'Phase' }), rawTask('Other', 1), rawTask('Phase', 0)];
+    expect(orderByHierarchy(tasks).map(t => t.id)).toEqual(['Other', 'Phase', 'Child']);
+    expect(getOutlineDepths(tasks)).toEqual(new Map([['Child', 1], ['Other', 0], ['Phase', 0]]));
+  });
+});
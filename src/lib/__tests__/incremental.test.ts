@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import type { RawTask, ScheduleOptions } from '../types';
+import { rescheduleTasks } from '../incremental';
+import { scheduleProject } from '../task-utils';
+import { byId, link, rawTask } from './helpers';
+
+const alice = [{ resource: 'Alice', units: 100 }];
+
+const tasks = [
+  rawTask('A', 2, { assignments: alice }),
+  rawTask('B', 3, { dependencies: [link('A')] }),
+  rawTask('C', 2, { assignments: alice }),
+  rawTask('D', 1, { dependencies: [link('B')] }),
+  rawTask('E', 4),
+];
+
+const edit = (id: string, fields: Partial<RawTask>) => tasks.map(t => (t.id === id ? { ...t, ...fields } : t));
+
+const expectSameAsFullSchedule = (edited: RawTask[], changedIds: string[], options: ScheduleOptions) => {
+  const changes = rescheduleTasks(scheduleProject(tasks, options), edited, changedIds, options);
+  expect(byId(changes.schedule.tasks)).toEqual(byId(scheduleProject(edited, options).tasks));
+  return changes;
+};
+
+describe('rescheduleTasks', () => {
+  it('moves the successors of an edited task and reports only what changed', () => {
+    const changes = expectSameAsFullSchedule(edit('B', { workingDuration: 5 }), ['B'], { leveling: { enabled: false } });
+    expect(changes.changedTasks.map(t => t.id).sort()).toEqual(['B', 'D']);
+    expect(changes.removedIds).toEqual([]);
+  });
+
+  it('levels an edited task against the tasks sharing its resource', () => {
+    expectSameAsFullSchedule(edit('A', { priority: 100 }), ['A'], {});
+    expectSameAsFullSchedule(edit('C', { workingDuration: 4 }), ['C'], {});
+  });
+
+  it('reports removed tasks', () => {
+    const changes = expectSameAsFullSchedule(tasks.filter(t => t.id !== 'E'), [], {});
+    expect(changes.removedIds).toEqual(['E']);
+  });
+
+  it('reports added tasks', () => {
+    const changes = expectSameAsFullSchedule([...tasks, rawTask('F', 1, { dependencies: [link('D')] })], ['F'], {});
+    expect(changes.changedTasks.map(t => t.id)).toEqual(['F']);
+  });
+});
@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { formatInterruptions, parseInterruptions } from '../interruptions';
+import { processTasks } from '../task-utils';
+import { byId, datesOf, date, link, rawTask } from './helpers';
+
+const options = { leveling: { enabled: false } };
+
+describe('interrupted tasks', () => {
+  it('pause on their interruptions and resume after them', () => {
+    const tasks = byId(processTasks([
+      rawTask('A', 4, { interruptions: [{ startDate: date('2026-03-03'), endDate: date('2026-03-04') }] }),
+      rawTask('B', 1, { dependencies: [link('A')] }),
+    ], options));
+    expect(datesOf(tasks.get('A'))).toEqual({ startDate: '2026-03-02', endDate: '2026-03-09' });
+    expect(tasks.get('A')!.segments).toEqual([
+      { startDate: '2026-03-02', endDate: '2026-03-02' },
+      { startDate: '2026-03-05', endDate: '2026-03-09' },
+    ]);
+    expect(tasks.get('B')!.startDate).toBe('2026-03-10');
+  });
+
+  it('are worked throughout when no interruption falls within them', () => {
+    const tasks = byId(processTasks([
+      rawTask('A', 2, { interruptions: [{ startDate: date('2026-04-01'), endDate: date('2026-04-01') }] }),
+    ], options));
+    expect(tasks.get('A')!.segments).toBeUndefined();
+  });
+
+  it('leave their resources free while paused, so leveling can fit other work in', () => {
+    const alice = [{ resource: 'Alice', units: 100 }];
+    const tasks = byId(processTasks([
+      rawTask('A', 3, { assignments: alice, priority: 600, interruptions: [{ startDate: date('2026-03-03'), endDate: date('2026-03-03') }] }),
+      rawTask('B', 1, { assignments: alice }),
+    ]));
+    expect(tasks.get('B')!.startDate).toBe('2026-03-03');
+    expect(tasks.get('B')!.isOverallocated).toBe(false);
+  });
+});
+
+describe('parseInterruptions', () => {
+  it('reads days and ranges and formats them back', () => {
+    const interruptions = parseInterruptions('2026-03-03/2026-03-04; 2026-03-10')!;
+    expect(interruptions).toEqual([
+      { startDate: '2026-03-03', endDate: '2026-03-04' },
+      { startDate: '2026-03-10', endDate: '2026-03-10' },
+    ]);
+    expect(formatInterruptions(interruptions)).toBe('2026-03-03/2026-03-04;2026-03-10');
+    expect(parseInterruptions(' ')).toBeUndefined();
+  });
+
+  it('rejects invalid dates and ranges that end before they start', () => {
+    expect(() => parseInterruptions('2026-03-03/2026-03-04/2026-03-05')).toThrow('Invalid interruption');
+    expect(() => parseInterruptions('2026-03-32')).toThrow('Invalid interruption "2026-03-32"');
+    expect(() => parseInterruptions('2026-03-04/2026-03-03')).toThrow('Interruption "2026-03-04/2026-03-03" ends before it starts.');
+  });
+});
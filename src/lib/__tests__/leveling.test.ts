@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import type { RawTask } from '../types';
+import { addTaskBookings, compareLevelingOrder, findAvailableStart, parsePriority, type ResourceBookings } from '../leveling';
+import { DEFAULT_WORK_CALENDAR } from '../calendar';
+import { processTasks } from '../task-utils';
+import { byId, datesOf, date, link, rawTask } from './helpers';
+
+const alice = (units = 100) => [{ resource: 'Alice', units }];
+
+const level = (tasks: RawTask[], splitTasks = false) => byId(processTasks(tasks, { leveling: { enabled: true, splitTasks } }));
+
+describe('leveling', () => {
+  it('delays the lower priority task until the resource is free', () => {
+    const tasks = level([
+      rawTask('A', 3, { assignments: alice(), priority: 400 }),
+      rawTask('B', 2, { assignments: alice(), priority: 600 }),
+    ]);
+    expect(datesOf(tasks.get('B'))).toEqual({ startDate: '2026-03-02', endDate: '2026-03-03' });
+    expect(datesOf(tasks.get('A'))).toEqual({ startDate: '2026-03-04', endDate: '2026-03-06' });
+    expect(tasks.get('A')!.levelingDelay).toBe(2);
+    expect(tasks.get('A')!.isOverallocated).toBe(false);
+  });
+
+  it('runs tasks side by side when their units fit in a full day', () => {
+    const tasks = level([
+      rawTask('A', 3, { assignments: alice(50) }),
+      rawTask('B', 3, { assignments: alice(50) }),
+    ]);
+    expect(tasks.get('A')!.startDate).toBe('2026-03-02');
+    expect(tasks.get('B')!.startDate).toBe('2026-03-02');
+  });
+
+  it('splits a task around work already booked when allowed', () => {
+    const tasks = level([
+      rawTask('A', 2, { assignments: alice(), priority: 600 }),
+      rawTask('B', 1, { assignments: alice(), priority: 600, startDate: date('2026-03-04') }),
+      rawTask('C', 3, { assignments: alice(), dependencies: [link('A')] }),
+    ], true);
+    expect(datesOf(tasks.get('C'))).toEqual({ startDate: '2026-03-05', endDate: '2026-03-09' });
+  });
+
+  it('flags tasks pinned to a date that overallocate their resource', () => {
+    const tasks = level([
+      rawTask('A', 2, { assignments: alice(), constraint: { type: 'MSO', date: date('2026-03-02') } }),
+      rawTask('B', 2, { assignments: alice(), constraint: { type: 'MSO', date: date('2026-03-03') } }),
+    ]);
+    expect(tasks.get('A')!.isOverallocated).toBe(true);
+    expect(tasks.get('B')!.isOverallocated).toBe(true);
+  });
+});
+
+describe('findAvailableStart', () => {
+  it('starts after the days the resource is fully booked', () => {
+    const bookings: ResourceBookings = new Map();
+    const booked = processTasks([rawTask('A', 3, { assignments: alice() })], { leveling: { enabled: false } })[0];
+    addTaskBookings(bookings, booked);
+    expect(findAvailableStart(date('2026-03-02'), 2, alice(), bookings, DEFAULT_WORK_CALENDAR)).toBe('2026-03-05');
+    expect(findAvailableStart(date('2026-03-02'), 2, [{ resource: 'Bob', units: 100 }], bookings, DEFAULT_WORK_CALENDAR)).toBe('2026-03-02');
+  });
+});
+
+describe('compareLevelingOrder', () => {
+  it('orders by priority, then total float, then id', () => {
+    const float = new Map([['A', 5], ['B', 0]]);
+    expect(compareLevelingOrder(rawTask('A', 1, { priority: 700 }), rawTask('B', 1), float)).toBeLessThan(0);
+    expect(compareLevelingOrder(rawTask('A', 1), rawTask('B', 1), float)).toBeGreaterThan(0);
+    expect(compareLevelingOrder(rawTask('A', 1), rawTask('C', 1), new Map())).toBeLessThan(0);
+  });
+});
+
+describe('parsePriority', () => {
+  it('accepts whole numbers from 0 to 1000', () => {
+    expect(parsePriority('750')).toBe(750);
+    expect(parsePriority(' ')).toBeUndefined();
+    expect(() => parsePriority('1001')).toThrow('Invalid priority');
+    expect(() => parsePriority('1.5')).toThrow('Invalid priority');
+  });
+});
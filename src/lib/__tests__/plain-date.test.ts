@@ -0,0 +1,44 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { addPlainDays, differenceInPlainDays, eachPlainDay, getPlainDayOfWeek, isPlainDate, parsePlainDate } from '../plain-date';
+import { processTasks } from '../task-utils';
+import { date, rawTask } from './helpers';
+
+const originalTimeZone = process.env.TZ;
+
+afterEach(() => {
+  if (originalTimeZone === undefined) delete process.env.TZ;
+  else process.env.TZ = originalTimeZone;
+});
+
+describe('plain dates', () => {
+  it('accepts only days that exist', () => {
+    expect(isPlainDate('2028-02-29')).toBe(true);
+    expect(isPlainDate('2026-02-29')).toBe(false);
+    expect(isPlainDate('2026-3-1')).toBe(false);
+    expect(parsePlainDate(' 2026-03-01 ')).toBe('2026-03-01');
+    expect(parsePlainDate('03/01/2026')).toBeUndefined();
+  });
+
+  it('counts every day as one across daylight saving changes and year ends', () => {
+    expect(addPlainDays(date('2026-03-28'), 2)).toBe('2026-03-30');
+    expect(addPlainDays(date('2026-12-31'), 1)).toBe('2027-01-01');
+    expect(addPlainDays(date('2026-03-01'), -1)).toBe('2026-02-28');
+    expect(differenceInPlainDays(date('2026-11-02'), date('2026-10-31'))).toBe(2);
+    expect(eachPlainDay(date('2026-03-07'), date('2026-03-09'))).toEqual(['2026-03-07', '2026-03-08', '2026-03-09']);
+  });
+
+  it('numbers the days of the week from Sunday', () => {
+    expect(getPlainDayOfWeek(date('2026-03-01'))).toBe(0);
+    expect(getPlainDayOfWeek(date('2026-03-07'))).toBe(6);
+    expect(getPlainDayOfWeek(date('1969-12-31'))).toBe(3);
+  });
+
+  it('schedules the same dates in every timezone', () => {
+    const tasks = [rawTask('A', 10, { startDate: date('2026-03-26') })];
+    const schedules = ['UTC', 'America/Los_Angeles', 'Europe/Berlin', 'Pacific/Auckland'].map(timeZone => {
+      process.env.TZ = timeZone;
+      return processTasks(tasks)[0].endDate;
+    });
+    expect(new Set(schedules)).toEqual(new Set(['2026-04-08']));
+  });
+});
@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { getPercentComplete, parseProgress } from '../progress';
+import { processTasks } from '../task-utils';
+import { byId, datesOf, date, link, rawTask } from './helpers';
+
+describe('parseProgress', () => {
+  it('reads the percent complete and actual dates', () => {
+    expect(parseProgress('40%', '2026-03-02', '')).toEqual({ percentComplete: 40, actualStart: '2026-03-02', actualFinish: undefined });
+    expect(parseProgress('', '', '')).toEqual({ percentComplete: undefined, actualStart: undefined, actualFinish: undefined });
+  });
+
+  it('rejects progress that does not add up', () => {
+    expect(() => parseProgress('120', '', '')).toThrow('Invalid percent complete "120"');
+    expect(() => parseProgress('', '', '2026-03-04')).toThrow('An actual finish needs an actual start.');
+    expect(() => parseProgress('', '2026-03-04', '2026-03-02')).toThrow('The actual finish cannot be before the actual start.');
+    expect(() => parseProgress('', '2026-3-4', '')).toThrow('Invalid actualStart "2026-3-4"');
+  });
+
+  it('counts a finished task as complete', () => {
+    expect(getPercentComplete({ percentComplete: 60, actualStart: date('2026-03-02'), actualFinish: date('2026-03-03') })).toBe(100);
+  });
+});
+
+describe('scheduling with progress', () => {
+  it('starts tasks on their actual start and ends finished ones on their actual finish', () => {
+    const tasks = byId(processTasks([
+      rawTask('A', 5, { actualStart: date('2026-03-03'), actualFinish: date('2026-03-04') }),
+      rawTask('B', 2, { dependencies: [link('A')], actualStart: date('2026-03-04') }),
+      rawTask('C', 1, { dependencies: [link('A')] }),
+    ], { leveling: { enabled: false } }));
+    expect(datesOf(tasks.get('A'))).toEqual({ startDate: '2026-03-03', endDate: '2026-03-04' });
+    expect(datesOf(tasks.get('B'))).toEqual({ startDate: '2026-03-04', endDate: '2026-03-05' });
+    expect(tasks.get('C')!.startDate).toBe('2026-03-05');
+  });
+
+  it('rolls summary progress up weighted by working days', () => {
+    const tasks = byId(processTasks([
+      rawTask('Phase', 0),
+      rawTask('A', 3, { parentId: 'Phase', percentComplete: 100, actualStart: date('2026-03-02'), actualFinish: date('2026-03-04') }),
+      rawTask('B', 1, { parentId: 'Phase' }),
+    ], { leveling: { enabled: false } }));
+    expect(tasks.get('Phase')).toMatchObject({ percentComplete: 75, actualStart: '2026-03-02', actualFinish: undefined });
+  });
+});
@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_WORK_CALENDAR } from '../calendar';
+import { expandRecurrences, formatRecurrence, getOccurrenceDates, parseRecurrence, validateSeriesDates } from '../recurrence';
+import { processTasks } from '../task-utils';
+import { parseProjectCsv } from '../csv-import';
+import { byId, date, rawTask } from './helpers';
+
+describe('parseRecurrence', () => {
+  it('reads weekly, daily and monthly rules and formats them back', () => {
+    for (const text of ['every 2 weeks on Mon;Wed until 2026-06-30', 'every day, 10 times', 'every month on day 15, 6 times']) {
+      expect(formatRecurrence(parseRecurrence(text)!)).toBe(text);
+    }
+  });
+
+  it('needs an end', () => {
+    expect(() => parseRecurrence('every week on Mon')).toThrow(/Invalid recurrence/);
+  });
+});
+
+describe('getOccurrenceDates', () => {
+  it('moves dates off non-working days', () => {
+    const dates = getOccurrenceDates(date('2026-03-06'), parseRecurrence('every day, 3 times')!, DEFAULT_WORK_CALENDAR);
+    // Saturday moves to Monday; Sunday's and Monday's own date would land on it too, so they are left out
+    expect(dates).toEqual(['2026-03-06', '2026-03-09', '2026-03-10']);
+  });
+
+  it('takes the last day of shorter months', () => {
+    const dates = getOccurrenceDates(date('2026-01-30'), parseRecurrence('every month on day 30, 2 times')!, { workingDays: [0, 1, 2, 3, 4, 5, 6], exceptions: [] });
+    expect(dates).toEqual(['2026-01-30', '2026-02-28']);
+  });
+});
+
+describe('series without occurrences', () => {
+  const recurrence = parseRecurrence('every week on Mon until 2026-03-01')!;
+
+  it('is rejected, naming the task', () => {
+    expect(() => validateSeriesDates('Status review', date('2026-03-02'), recurrence)).toThrow(/"Status review" has no occurrences/);
+  });
+
+  it('is not scheduled as a one-off task', () => {
+    const series = rawTask('Status review', 1, { recurrence });
+    expect(() => expandRecurrences([series], DEFAULT_WORK_CALENDAR)).toThrow(/no occurrences/);
+  });
+
+  it('is rejected on import with its line', () => {
+    const csv = 'title,startDate,duration,recurrence\nStatus review,2026-03-02,1,every week on Mon until 2026-03-01';
+    expect(() => parseProjectCsv(csv)).toThrow(/no occurrences.*\(line 2\)/);
+  });
+
+  it('also covers weekdays that only fall after the end', () => {
+    const weekly = parseRecurrence('every week on Fri until 2026-03-05')!;
+    expect(() => validateSeriesDates('Demo', date('2026-03-02'), weekly)).toThrow(/first falls on 2026-03-06/);
+  });
+});
+
+describe('expandRecurrences', () => {
+  it('schedules the series as a summary over its occurrences', () => {
+    const tasks = byId(processTasks([rawTask('Review', 1, { recurrence: parseRecurrence('every week on Mon;Thu, 3 times')! })]));
+    expect(['Review#1', 'Review#2', 'Review#3'].map(id => tasks.get(id)?.startDate)).toEqual(['2026-03-02', '2026-03-05', '2026-03-09']);
+    expect(tasks.get('Review')!.isSummary).toBe(true);
+    expect(tasks.get('Review')!.endDate).toBe('2026-03-09');
+  });
+
+  it('groups the occurrences under the series without linking them to each other', () => {
+    const occurrences = expandRecurrences([rawTask('Review', 1, { recurrence: parseRecurrence('every day, 2 times')! })], DEFAULT_WORK_CALENDAR).slice(1);
+    expect(occurrences.map(t => [t.id, t.parentId, t.seriesId, t.dependencies])).toEqual([
+      ['Review#1', 'Review', 'Review', []],
+      ['Review#2', 'Review', 'Review', []],
+    ]);
+  });
+});
@@ -0,0 +1,97 @@
+import { describe, expect, it } from 'vitest';
+import type { Resource, WorkCalendar } from '../types';
+import { applyResourceDirective, createCalendarResolver, formatAssignments, formatResourceDirectives, getResourceCalendar, parseAssignments } from '../resources';
+import { DEFAULT_WORK_CALENDAR, isWorkingDay } from '../calendar';
+import { processTasks } from '../task-utils';
+import { byId, datesOf, date, rawTask } from './helpers';
+
+const projectCalendar: WorkCalendar = {
+  ...DEFAULT_WORK_CALENDAR,
+  exceptions: [{ date: date('2026-03-06'), name: 'Holiday', isWorking: false }],
+};
+
+const alice: Resource = {
+  name: 'Alice',
+  workingDays: [1, 2, 3, 4],
+  vacations: [{ startDate: date('2026-03-10'), endDate: date('2026-03-11'), name: 'Away' }],
+};
+
+describe('resource calendars', () => {
+  it('layers the working week and vacations of a resource on the project holidays', () => {
+    const calendar = getResourceCalendar(alice, projectCalendar);
+    expect(isWorkingDay(date('2026-03-05'), calendar)).toBe(true);
+    expect(isWorkingDay(date('2026-03-06'), calendar)).toBe(false);
+    expect(isWorkingDay(date('2026-03-09'), calendar)).toBe(true);
+    expect(isWorkingDay(date('2026-03-10'), calendar)).toBe(false);
+  });
+
+  it('schedules a task on the days its resource works', () => {
+    const tasks = byId(processTasks([rawTask('A', 6, { assignments: [{ resource: 'Alice', units: 100 }] })], {
+      calendar: projectCalendar,
+      resources: [alice],
+      leveling: { enabled: false },
+    }));
+    expect(datesOf(tasks.get('A'))).toEqual({ startDate: '2026-03-02', endDate: '2026-03-12' });
+  });
+
+  it('does not start a task before its resource joins', () => {
+    const tasks = byId(processTasks([rawTask('A', 1, { assignments: [{ resource: 'Bob', units: 100 }] })], {
+      resources: [{ name: 'Bob', vacations: [], startDate: date('2026-03-04') }],
+      leveling: { enabled: false },
+    }));
+    expect(tasks.get('A')!.startDate).toBe('2026-03-04');
+  });
+
+  it('combines the calendars of every resource on a task and rejects resources that never meet', () => {
+    const getCalendar = createCalendarResolver(projectCalendar, [
+      alice,
+      { name: 'Bob', workingDays: [2, 3, 4, 5], vacations: [] },
+      { name: 'Carol', workingDays: [5], vacations: [] },
+    ]);
+    expect(getCalendar(['Alice', 'Bob']).workingDays).toEqual([2, 3, 4]);
+    expect(getCalendar(['Unknown'])).toBe(projectCalendar);
+    expect(() => getCalendar(['Alice', 'Carol'])).toThrow("Resources 'Alice', 'Carol' have no working days in common.");
+  });
+});
+
+describe('resource directives', () => {
+  it('round-trips resources through their directive lines', () => {
+    const resources = [{ ...alice, rate: 400, overtimeRate: 600 }];
+    const lines = formatResourceDirectives(resources);
+    expect(lines).toEqual([
+      '#resource,"Alice",Mon;Tue;Wed;Thu,',
+      '#rate,"Alice",400,600,',
+      '#vacation,"Alice",2026-03-10,2026-03-11,"Away"',
+    ]);
+    expect(lines.reduce((parsed, line) => applyResourceDirective(line, parsed), [] as Resource[])).toEqual([
+      { ...alice, startDate: undefined, rate: 400, overtimeRate: 600, costPerUse: undefined },
+    ]);
+  });
+
+  it('rejects invalid dates and amounts', () => {
+    expect(() => applyResourceDirective('#vacation,Alice,2026-13-01', [])).toThrow('Invalid date "2026-13-01" in vacation directive.');
+    expect(() => applyResourceDirective('#rate,Alice,-5', [])).toThrow('Invalid amount "-5" in rate directive.');
+    expect(() => applyResourceDirective('#resource,,Mon', [])).toThrow('Missing resource name in resource directive.');
+  });
+});
+
+describe('assignments', () => {
+  it('parses resources with their units, full time by default', () => {
+    expect(parseAssignments('Alice:50%; Bob ;Carol: 25')).toEqual([
+      { resource: 'Alice', units: 50 },
+      { resource: 'Bob', units: 100 },
+      { resource: 'Carol', units: 25 },
+    ]);
+    expect(parseAssignments(' ')).toEqual([]);
+  });
+
+  it('rejects units out of range and resources assigned twice', () => {
+    expect(() => parseAssignments('Alice:0%')).toThrow('Invalid allocation "Alice:0%"');
+    expect(() => parseAssignments('Alice:150%')).toThrow('Invalid allocation "Alice:150%"');
+    expect(() => parseAssignments('Alice;Alice:50%')).toThrow("Resource 'Alice' is assigned more than once.");
+  });
+
+  it('formats assignments back, leaving out full time units', () => {
+    expect(formatAssignments([{ resource: 'Alice', units: 50 }, { resource: 'Bob', units: 100 }])).toBe('Alice:50%;Bob');
+  });
+});
@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { parseEstimate, simulateSchedule } from '../risk-analysis';
+import { date, link, rawTask } from './helpers';
+
+const options = { leveling: { enabled: false } };
+
+const plan = [
+  rawTask('A', 5, { optimisticDuration: 3, pessimisticDuration: 10 }),
+  rawTask('B', 2, { dependencies: [link('A')] }),
+  rawTask('C', 1),
+  rawTask('Launch', 0, { dependencies: [link('B'), link('C')] }),
+];
+
+describe('simulateSchedule', () => {
+  it('gives the same results for the same seed', () => {
+    const settings = { iterations: 50, seed: 7 };
+    const first = simulateSchedule(plan, options, settings);
+    const second = simulateSchedule(plan, options, settings);
+    expect(second.project).toEqual(first.project);
+    expect(second.histogram).toEqual(first.histogram);
+  });
+
+  it('spreads finish dates between the optimistic and pessimistic schedules', () => {
+    const result = simulateSchedule(plan, options, { iterations: 200, seed: 1 });
+    expect(result.project.planned).toBe('2026-03-10');
+    // A takes 3 to 10 days, then B 2 more
+    expect(result.project.p50 >= '2026-03-06' && result.project.p50 <= '2026-03-17').toBe(true);
+    expect(result.project.p50 <= result.project.p80 && result.project.p80 <= result.project.p90).toBe(true);
+    expect(result.histogram[result.histogram.length - 1].cumulative).toBe(1);
+    expect(result.milestones.map(m => m.id)).toEqual(['Launch']);
+  });
+
+  it('reports how often each task was critical', () => {
+    const result = simulateSchedule(plan, options, { iterations: 100, seed: 1 });
+    expect(result.criticality.get('A')).toBe(1);
+    expect(result.criticality.get('C')).toBe(0);
+  });
+
+  it('keeps finished tasks at their actual dates', () => {
+    const finished = plan.map(t => t.id === 'A' ? { ...t, actualStart: t.startDate, actualFinish: date('2026-03-04') } : t);
+    const result = simulateSchedule(finished, options, { iterations: 20, seed: 1 });
+    expect(result.project).toMatchObject({ planned: '2026-03-06', p50: '2026-03-06', p90: '2026-03-06' });
+  });
+
+  it('rejects iteration counts out of range', () => {
+    expect(() => simulateSchedule(plan, options, { iterations: 0, seed: 1 })).toThrow('Iterations must be a whole number from 1 to 10000.');
+  });
+});
+
+describe('parseEstimate', () => {
+  it('reads the optimistic and pessimistic durations around the most likely one', () => {
+    expect(parseEstimate('3', '', 5)).toEqual({ optimisticDuration: 3, pessimisticDuration: undefined });
+    expect(() => parseEstimate('6', '8', 5)).toThrow('Durations must run from optimistic (at least 1) through most likely to pessimistic.');
+    expect(() => parseEstimate('2.5', '', 5)).toThrow('Invalid optimisticDuration "2.5"');
+    expect(() => parseEstimate('', '2', 0)).toThrow('Milestones cannot have optimistic or pessimistic durations.');
+  });
+});
@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import type { RawTask, Scenario } from '../types';
+import { compareSchedules, createScenario, validateScenarioName } from '../scenarios';
+import { DEFAULT_LEVELING_OPTIONS } from '../leveling';
+import { DEFAULT_SCHEDULE_MODE } from '../schedule-mode';
+import { DEFAULT_WORK_CALENDAR } from '../calendar';
+import { processTasks } from '../task-utils';
+import { date, link, rawTask } from './helpers';
+
+const alice = [{ resource: 'Alice', units: 100 }];
+const planOf = (rawTasks: RawTask[]) => ({
+  rawTasks,
+  calendar: DEFAULT_WORK_CALENDAR,
+  resources: [],
+  leveling: DEFAULT_LEVELING_OPTIONS,
+  mode: DEFAULT_SCHEDULE_MODE,
+});
+
+const tasks = [
+  rawTask('A', 3, { assignments: alice }),
+  rawTask('Review', 0, { dependencies: [link('A')] }),
+  rawTask('B', 2, { dependencies: [link('Review')] }),
+];
+
+describe('scenarios', () => {
+  it('branch without sharing the task list of the plan they come from', () => {
+    const main = createScenario('Main plan', planOf(tasks), undefined, date('2026-03-01'));
+    const branch = createScenario('Crunch', main.plan, main.name, date('2026-03-01'));
+    branch.plan.rawTasks.push(rawTask('C', 1));
+    expect(main.plan.rawTasks).toHaveLength(3);
+    expect(branch.basedOn).toBe('Main plan');
+  });
+
+  it('need a name no other scenario has', () => {
+    const scenarios: Scenario[] = [createScenario('Main plan', planOf(tasks))];
+    expect(() => validateScenarioName('  ', scenarios)).toThrow('Scenario name cannot be empty.');
+    expect(() => validateScenarioName(' Main plan ', scenarios)).toThrow('A scenario named "Main plan" already exists.');
+    expect(() => validateScenarioName('Crunch', scenarios)).not.toThrow();
+  });
+});
+
+describe('compareSchedules', () => {
+  it('compares the project, milestone and resource finishes in working days', () => {
+    const first = processTasks(tasks);
+    const second = processTasks([
+      { ...tasks[0], workingDuration: 5 },
+      ...tasks.slice(1),
+      rawTask('Launch', 0, { dependencies: [link('B')] }),
+    ]);
+    const comparison = compareSchedules(first, second, DEFAULT_WORK_CALENDAR);
+    expect(comparison.project).toEqual({ first: '2026-03-06', second: '2026-03-10', difference: 2 });
+    expect(comparison.milestones).toEqual([
+      { id: 'Review', title: 'Review', first: '2026-03-04', second: '2026-03-06', difference: 2 },
+      { id: 'Launch', title: 'Launch', first: undefined, second: '2026-03-10', difference: undefined },
+    ]);
+    expect(comparison.resources).toEqual([{ name: 'Alice', first: '2026-03-04', second: '2026-03-06', difference: 2 }]);
+  });
+});
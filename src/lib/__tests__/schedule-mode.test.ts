@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import type { ScheduleMode } from '../types';
+import { formatScheduleModeDirective, parseScheduleModeDirective } from '../schedule-mode';
+import { processTasks } from '../task-utils';
+import { byId, datesOf, date, link, rawTask } from './helpers';
+
+const backward: ScheduleMode = { direction: 'backward', finishDate: date('2026-03-20') };
+
+describe('backward scheduling', () => {
+  it('places tasks as late as possible so the project finishes on the finish date', () => {
+    const tasks = byId(processTasks([
+      rawTask('A', 3),
+      rawTask('B', 2, { dependencies: [link('A')] }),
+      rawTask('C', 1),
+    ], { mode: backward, leveling: { enabled: false } }));
+    expect(datesOf(tasks.get('B'))).toEqual({ startDate: '2026-03-19', endDate: '2026-03-20' });
+    expect(datesOf(tasks.get('A'))).toEqual({ startDate: '2026-03-16', endDate: '2026-03-18' });
+    expect(datesOf(tasks.get('C'))).toEqual({ startDate: '2026-03-20', endDate: '2026-03-20' });
+  });
+
+  it('does not move tasks later for start-no-earlier-than constraints, but flags them when missed', () => {
+    const tasks = byId(processTasks([
+      rawTask('A', 2, { constraint: { type: 'SNET', date: date('2026-03-20') } }),
+    ], { mode: backward, leveling: { enabled: false } }));
+    expect(tasks.get('A')!.startDate).toBe('2026-03-19');
+    expect(tasks.get('A')!.constraintConflict).toContain('the project finish date');
+  });
+
+  it('levels by moving tasks earlier', () => {
+    const alice = [{ resource: 'Alice', units: 100 }];
+    const tasks = byId(processTasks([
+      rawTask('A', 2, { assignments: alice, priority: 600 }),
+      rawTask('B', 2, { assignments: alice }),
+    ], { mode: backward }));
+    expect(datesOf(tasks.get('A'))).toEqual({ startDate: '2026-03-19', endDate: '2026-03-20' });
+    expect(datesOf(tasks.get('B'))).toEqual({ startDate: '2026-03-17', endDate: '2026-03-18' });
+    expect(tasks.get('B')!.levelingDelay).toBe(2);
+  });
+
+  it('needs a finish date', () => {
+    expect(() => processTasks([rawTask('A', 1)], { mode: { direction: 'backward' } })).toThrow('Scheduling backward needs a project finish date.');
+  });
+});
+
+describe('schedule directive', () => {
+  it('round-trips the direction and finish date', () => {
+    expect(formatScheduleModeDirective(backward)).toBe('#schedule,backward,2026-03-20');
+    expect(parseScheduleModeDirective('#schedule,backward,2026-03-20')).toEqual(backward);
+    expect(parseScheduleModeDirective('#schedule,forward')).toEqual({ direction: 'forward' });
+  });
+
+  it('rejects unknown directions and missing finish dates', () => {
+    expect(() => parseScheduleModeDirective('#schedule,sideways')).toThrow('Invalid direction "sideways" in schedule directive.');
+    expect(() => parseScheduleModeDirective('#schedule,backward')).toThrow('Invalid finish date "" in schedule directive.');
+  });
+});
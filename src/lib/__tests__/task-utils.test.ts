@@ -0,0 +1,109 @@
+import { describe, expect, it } from 'vitest';
+import { changeTaskId, createUniqueId, formatDependency, parseDependencies, parseDependency, processTasks, resolveTaskReferences } from '../task-utils';
+import { byId, date, datesOf, link, rawTask } from './helpers';
+
+describe('parseDependency', () => {
+  it('reads the link type and lag after the last colon', () => {
+    expect(parseDependency('Design:SS+2')).toEqual({ predecessor: 'Design', type: 'SS', lag: 2 });
+    expect(parseDependency('Design:FF-1d')).toEqual({ predecessor: 'Design', type: 'FF', lag: -1 });
+    expect(parseDependency('Design')).toEqual({ predecessor: 'Design', type: 'FS', lag: 0 });
+  });
+
+  it('keeps a colon that is not a link suffix as part of the title', () => {
+    expect(parseDependency('Phase 1: Design')).toEqual({ predecessor: 'Phase 1: Design', type: 'FS', lag: 0 });
+  });
+
+  it('round-trips through formatDependency', () => {
+    const dependencies = parseDependencies('A;B:SS+1;C:SF-2');
+    expect(dependencies.map(formatDependency)).toEqual(['A', 'B:SS+1', 'C:SF-2']);
+  });
+});
+
+describe('processTasks dependency types', () => {
+  const schedule = (successor: ReturnType<typeof rawTask>) => byId(processTasks([rawTask('A', 3), successor]));
+
+  it('starts a finish-to-start successor the working day after its predecessor finishes', () => {
+    const tasks = schedule(rawTask('B', 2, { dependencies: [link('A')] }));
+    expect(datesOf(tasks.get('A'))).toEqual({ startDate: '2026-03-02', endDate: '2026-03-04' });
+    expect(datesOf(tasks.get('B'))).toEqual({ startDate: '2026-03-05', endDate: '2026-03-06' });
+  });
+
+  it('counts lag in working days, skipping the weekend', () => {
+    const tasks = schedule(rawTask('B', 1, { dependencies: [link('A', 'FS', 2)] }));
+    expect(datesOf(tasks.get('B'))).toEqual({ startDate: '2026-03-09', endDate: '2026-03-09' });
+  });
+
+  it('lets a lead start the successor before its predecessor finishes', () => {
+    const tasks = schedule(rawTask('B', 1, { dependencies: [link('A', 'FS', -1)] }));
+    expect(tasks.get('B')!.startDate).toBe('2026-03-04');
+  });
+
+  it('starts a start-to-start successor with its predecessor plus lag', () => {
+    const tasks = schedule(rawTask('B', 2, { dependencies: [link('A', 'SS', 1)] }));
+    expect(datesOf(tasks.get('B'))).toEqual({ startDate: '2026-03-03', endDate: '2026-03-04' });
+  });
+
+  it('finishes a finish-to-finish successor with its predecessor', () => {
+    const tasks = schedule(rawTask('B', 2, { dependencies: [link('A', 'FF')] }));
+    expect(datesOf(tasks.get('B'))).toEqual({ startDate: '2026-03-03', endDate: '2026-03-04' });
+  });
+
+  it('finishes a start-to-finish successor when its predecessor starts', () => {
+    const tasks = byId(processTasks([rawTask('A', 1, { startDate: date('2026-03-09') }), rawTask('B', 2, { dependencies: [link('A', 'SF')] })]));
+    expect(datesOf(tasks.get('B'))).toEqual({ startDate: '2026-03-05', endDate: '2026-03-06' });
+  });
+
+  it('waits for the latest of several predecessors', () => {
+    const tasks = byId(processTasks([rawTask('A', 1), rawTask('C', 4), rawTask('B', 1, { dependencies: [link('A'), link('C')] })]));
+    expect(tasks.get('B')!.startDate).toBe('2026-03-06');
+  });
+});
+
+describe('milestones', () => {
+  it('fall on the finish day of their predecessor and take no time', () => {
+    const tasks = byId(processTasks([rawTask('A', 3), rawTask('Done', 0, { dependencies: [link('A')] }), rawTask('B', 1, { dependencies: [link('Done')] })]));
+    expect(datesOf(tasks.get('Done'))).toEqual({ startDate: '2026-03-04', endDate: '2026-03-04' });
+    expect(tasks.get('B')!.startDate).toBe('2026-03-05');
+  });
+
+  it('are never moved by leveling', () => {
+    const alice = [{ resource: 'Alice', units: 100 }];
+    const tasks = byId(processTasks([rawTask('A', 2, { assignments: alice }), rawTask('Review', 0, { assignments: alice })]));
+    expect(tasks.get('Review')).toMatchObject({ startDate: '2026-03-02', levelingDelay: 0, isOverallocated: false });
+  });
+});
+
+describe('task ids', () => {
+  it('resolves references by id first, then by a title only one task has', () => {
+    const [, b, c] = resolveTaskReferences([
+      rawTask('design', 1, { title: 'Design' }),
+      rawTask('build', 1, { title: 'Build', dependencies: [link('Design')] }),
+      rawTask('test', 1, { title: 'Test', dependencies: [link('build')] }),
+    ]);
+    expect(b.dependencies).toEqual([link('design')]);
+    expect(c.dependencies).toEqual([link('build')]);
+  });
+
+  it('rejects a title several tasks have', () => {
+    expect(() => resolveTaskReferences([
+      rawTask('a', 1, { title: 'Review' }),
+      rawTask('b', 1, { title: 'Review' }),
+      rawTask('c', 1, { title: 'Ship', dependencies: [link('Review')] }),
+    ])).toThrow("Task 'Ship' refers to 'Review', but several tasks have that title. Use the task id instead.");
+  });
+
+  it('keeps links and children when a task is renamed', () => {
+    const renamed = byId(changeTaskId([
+      rawTask('A', 1),
+      rawTask('B', 1, { dependencies: [link('A', 'SS', 2)], parentId: 'A' }),
+    ], 'A', 'Design'));
+    expect(renamed.has('A')).toBe(false);
+    expect(renamed.get('B')).toMatchObject({ dependencies: [link('Design', 'SS', 2)], parentId: 'Design' });
+    expect(() => changeTaskId([rawTask('A', 1), rawTask('B', 1)], 'A', 'B')).toThrow('Task id "B" is already in use.');
+  });
+
+  it('suffixes ids that are taken', () => {
+    expect(createUniqueId('Design', new Set(['Design', 'Design-2']))).toBe('Design-3');
+    expect(createUniqueId('Build', new Set(['Design']))).toBe('Build');
+  });
+});
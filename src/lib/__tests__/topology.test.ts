@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { CircularDependencyError, topologicalOrder } from '../topology';
+import { processTasks } from '../task-utils';
+import { link, rawTask } from './helpers';
+
+const predecessorsOf = (links: Record<string, string[]>) => (id: string) => links[id] ?? [];
+
+describe('topologicalOrder', () => {
+  it('places every id after its predecessors, otherwise keeping the input order', () => {
+    expect(topologicalOrder(['C', 'A', 'B', 'D'], predecessorsOf({ C: ['B'], B: ['A'] }))).toEqual(['A', 'B', 'C', 'D']);
+  });
+
+  it('picks the lowest ranked ready id first and ignores unknown predecessors', () => {
+    const rank = new Map([['A', 2], ['B', 1], ['C', 0]]);
+    expect(topologicalOrder(['A', 'B', 'C'], predecessorsOf({ C: ['A', 'Elsewhere'] }), { rank: id => rank.get(id)! }))
+      .toEqual(['B', 'A', 'C']);
+  });
+
+  it('names the exact cycle, leaving out tasks that only lead into it', () => {
+    try {
+      topologicalOrder(['A', 'B', 'C', 'D'], predecessorsOf({ B: ['A', 'D'], C: ['B'], D: ['C'] }));
+      expect.unreachable();
+    } catch (error) {
+      expect(error).toBeInstanceOf(CircularDependencyError);
+      const cycle = (error as CircularDependencyError).cycle;
+      expect(cycle[0]).toBe(cycle[cycle.length - 1]);
+      expect(new Set(cycle)).toEqual(new Set(['B', 'C', 'D']));
+    }
+  });
+});
+
+describe('scheduling cycles', () => {
+  it('reports the cycle with task titles', () => {
+    const tasks = [
+      rawTask('A', 1, { title: 'Design', dependencies: [link('B')] }),
+      rawTask('B', 1, { title: 'Build', dependencies: [link('A')] }),
+    ];
+    expect(() => processTasks(tasks)).toThrow(CircularDependencyError);
+    expect(() => processTasks(tasks)).toThrow(/Design → Build → Design|Build → Design → Build/);
+  });
+});
@@ -0,0 +1,133 @@
+import type { Baseline, BaselineTask, PlainDate, Task, TaskVariance, WorkCalendar } from './types';
+import { differenceInWorkingDays } from './calendar';
+import { parsePlainDate, today } from './plain-date';
+import { formatAssignments, parseAssignments } from './resources';
+import { escapeCsvValue, splitCsvLine } from './csv-utils';
+import { getTaskWork } from './effort';
+import { getDurationCalendar } from './elapsed';
+
+export const createBaseline = (name: string, tasks: Task[], savedAt: PlainDate = today()): Baseline => ({
+  name,
+  savedAt,
+  tasks: new Map(tasks.map(task => [task.id, {
+    startDate: task.startDate,
+    endDate: task.endDate,
+    workingDuration: task.workingDuration,
+    work: getTaskWork(task),
+    assignments: task.assignments,
+  }])),
+});
+
+// Start and finish variances are counted on the task's own calendar, so weekends and vacations in between do not count
+export const getTaskVariance = (task: Task, baselineTask: BaselineTask, calendar: WorkCalendar): TaskVariance => ({
+  start: differenceInWorkingDays(task.startDate, baselineTask.startDate, calendar),
+  finish: differenceInWorkingDays(task.endDate, baselineTask.endDate, calendar),
+  duration: task.workingDuration - baselineTask.workingDuration,
+  work: getTaskWork(task) - baselineTask.work,
+});
+
+// Variances of the tasks the baseline knows, keyed by task id
+export const getTaskVariances = (
+  tasks: Task[],
+  baseline: Baseline,
+  getCalendar: (resourceNames: string[]) => WorkCalendar,
+): Map<string, TaskVariance> => {
+  const variances = new Map<string, TaskVariance>();
+  tasks.forEach(task => {
+    const baselineTask = baseline.tasks.get(task.id);
+    if (baselineTask) variances.set(task.id, getTaskVariance(task, baselineTask, getDurationCalendar(task, getCalendar)));
+  });
+  return variances;
+}
+
+// Keeps baselines pointing at a task after its id changes
+export const renameBaselineTask = (baselines: Baseline[], oldId: string, newId: string): Baseline[] => {
+  if (oldId === newId) return baselines;
+  return baselines.map(baseline => {
+    const baselineTask = baseline.tasks.get(oldId);
+    if (!baselineTask) return baseline;
+    const tasks = new Map(baseline.tasks);
+    tasks.delete(oldId);
+    tasks.set(newId, baselineTask);
+    return { ...baseline, tasks };
+  });
+}
+
+// Shown in the variance columns, e.g. "+2d", "-1d" or "0"
+export const formatVariance = (days: number): string => {
+  const rounded = Math.round(days * 10) / 10;
+  if (rounded === 0) return '0';
+  return `${rounded > 0 ? '+' : ''}${rounded}d`;
+}
+
+// CSV files carry baselines as directive lines before the header, one for the baseline and one per task, e.g.
+//   #baseline,Approved Plan,2024-07-25
+//   #baselineTask,Approved Plan,design,2024-08-01,2024-08-07,5,5,Alice
+// (baseline name, task id, start, finish, working duration, work, assignments)
+const BASELINE_DIRECTIVES = ['#baseline', '#baselineTask'];
+
+export const isBaselineDirective = (line: string): boolean => {
+  const directive = line.split(',')[0].trim();
+  return BASELINE_DIRECTIVES.includes(directive);
+}
+
+const parseDirectiveDate = (value: string, directive: string): PlainDate => {
+  const date = parsePlainDate(value);
+  if (!date) {
+    throw new Error(`Invalid date "${value}" in ${directive.slice(1)} directive. Use YYYY-MM-DD.`);
+  }
+  return date;
+}
+
+const parseDirectiveNumber = (value: string | undefined, directive: string): number => {
+  const number = parseFloat(value ?? '');
+  if (isNaN(number)) {
+    throw new Error(`Invalid number "${value ?? ''}" in ${directive.slice(1)} directive.`);
+  }
+  return number;
+}
+
+// Applies a baseline directive line and returns the updated baseline list.
+export const applyBaselineDirective = (line: string, baselines: Baseline[]): Baseline[] => {
+  const [directive, name, ...values] = splitCsvLine(line);
+  if (!name) {
+    throw new Error(`Missing baseline name in ${directive.slice(1)} directive.`);
+  }
+  const existing = baselines.find(b => b.name === name);
+
+  if (directive === '#baseline') {
+    const [savedAtStr] = values;
+    const savedAt = savedAtStr ? parseDirectiveDate(savedAtStr, directive) : today();
+    return [...baselines.filter(b => b.name !== name), { name, savedAt, tasks: existing?.tasks ?? new Map() }];
+  }
+
+  const [taskId, startDateStr = '', endDateStr = '', durationStr, workStr, assignmentsStr] = values;
+  if (!taskId) {
+    throw new Error(`Missing task id in ${directive.slice(1)} directive.`);
+  }
+  const baseline = existing ?? { name, savedAt: today(), tasks: new Map<string, BaselineTask>() };
+  const tasks = new Map(baseline.tasks);
+  tasks.set(taskId, {
+    startDate: parseDirectiveDate(startDateStr, directive),
+    endDate: parseDirectiveDate(endDateStr, directive),
+    workingDuration: parseDirectiveNumber(durationStr, directive),
+    work: parseDirectiveNumber(workStr, directive),
+    assignments: parseAssignments(assignmentsStr),
+  });
+  return existing
+    ? baselines.map(b => b === existing ? { ...b, tasks } : b)
+    : [...baselines, { ...baseline, tasks }];
+}
+
+export const formatBaselineDirectives = (baselines: Baseline[]): string[] => {
+  const lines: string[] = [];
+  for (const baseline of baselines) {
+    const name = escapeCsvValue(baseline.name);
+    lines.push(`#baseline,${name},${baseline.savedAt}`);
+    baseline.tasks.forEach((task, taskId) => {
+      const assignments = escapeCsvValue(formatAssignments(task.assignments));
+      lines.push(`#baselineTask,${name},${escapeCsvValue(taskId)},${task.startDate},${task.endDate},${task.workingDuration},${task.work},${assignments}`);
+    });
+  }
+  return lines;
+}
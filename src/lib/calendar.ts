@@ -0,0 +1,222 @@
+import type { CalendarException, PlainDate, WorkCalendar } from './types';
+import { addPlainDays, comparePlainDates, differenceInPlainDays, eachPlainDay, getPlainDayOfWeek, parsePlainDate } from './plain-date';
+import { escapeCsvValue, splitCsvLine } from './csv-utils';
+
+export const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+export const DEFAULT_WORK_CALENDAR: WorkCalendar = {
+  workingDays: [1, 2, 3, 4, 5],
+  exceptions: [],
+};
+
+// Exceptions are looked up for every day the scheduler steps over, so index them once per calendar
+const exceptionIndex = new WeakMap<WorkCalendar, Map<PlainDate, CalendarException>>();
+
+const getExceptionIndex = (calendar: WorkCalendar): Map<PlainDate, CalendarException> => {
+  let index = exceptionIndex.get(calendar);
+  if (!index) {
+    index = new Map(calendar.exceptions.map(e => [e.date, e]));
+    exceptionIndex.set(calendar, index);
+  }
+  return index;
+}
+
+export const getCalendarException = (date: PlainDate, calendar: WorkCalendar): CalendarException | undefined => {
+  return getExceptionIndex(calendar).get(date);
+}
+
+export const isWorkingDay = (date: PlainDate, calendar: WorkCalendar): boolean => {
+  const exception = getCalendarException(date, calendar);
+  if (exception) return exception.isWorking;
+  return calendar.workingDays.includes(getPlainDayOfWeek(date));
+}
+
+// Returns the date itself if it is a working day, otherwise the next working day after it.
+export const nextWorkingDay = (date: PlainDate, calendar: WorkCalendar): PlainDate => {
+  let currentDate = date;
+  while (!isWorkingDay(currentDate, calendar)) {
+    currentDate = addPlainDays(currentDate, 1);
+  }
+  return currentDate;
+}
+
+// Returns the date itself if it is a working day, otherwise the last working day before it.
+export const previousWorkingDay = (date: PlainDate, calendar: WorkCalendar): PlainDate => {
+  let currentDate = date;
+  while (!isWorkingDay(currentDate, calendar)) {
+    currentDate = addPlainDays(currentDate, -1);
+  }
+  return currentDate;
+}
+
+export const addWorkingDays = (startDate: PlainDate, duration: number, calendar: WorkCalendar): PlainDate => {
+  let currentDate = startDate;
+  // We subtract 1 from duration because the start date itself counts as the first day.
+  let remainingDuration = duration - 1;
+
+  if (remainingDuration < 0) return startDate;
+
+  while(remainingDuration > 0) {
+    currentDate = addPlainDays(currentDate, 1);
+    if (isWorkingDay(currentDate, calendar)) {
+      remainingDuration--;
+    }
+  }
+
+  return currentDate;
+}
+
+// Counts the working days after from, up to and including to. Whole weeks are counted at once and
+// exceptions corrected for afterwards, so long spans (float, lags across months) stay cheap.
+const countWorkingDaysAfter = (from: PlainDate, to: PlainDate, calendar: WorkCalendar): number => {
+  const weeks = Math.floor(differenceInPlainDays(to, from) / 7);
+  let count = weeks * calendar.workingDays.length;
+  for (let day = addPlainDays(from, weeks * 7 + 1); day <= to; day = addPlainDays(day, 1)) {
+    if (calendar.workingDays.includes(getPlainDayOfWeek(day))) count++;
+  }
+  for (const exception of Array.from(getExceptionIndex(calendar).values())) {
+    if (exception.date <= from || exception.date > to) continue;
+    const isUsuallyWorking = calendar.workingDays.includes(getPlainDayOfWeek(exception.date));
+    if (exception.isWorking !== isUsuallyWorking) count += exception.isWorking ? 1 : -1;
+  }
+  return count;
+}
+
+// Moves a date by the given number of working days, backwards when the offset is negative.
+// An offset of 0 returns the date unchanged.
+export const offsetWorkingDays = (date: PlainDate, offset: number, calendar: WorkCalendar): PlainDate => {
+  let currentDate = date;
+  let remaining = Math.abs(offset);
+  const step = offset < 0 ? -1 : 1;
+
+  // Skip whole weeks while they stay well short of the offset, then step the last days one by one
+  const weeks = Math.floor(remaining / calendar.workingDays.length) - 1;
+  if (weeks > 0) {
+    const target = addPlainDays(currentDate, step * weeks * 7);
+    // Going backwards the days passed over are target up to the day before the date
+    const passed = step > 0
+      ? countWorkingDaysAfter(currentDate, target, calendar)
+      : countWorkingDaysAfter(addPlainDays(target, -1), addPlainDays(currentDate, -1), calendar);
+    if (passed < remaining) {
+      currentDate = target;
+      remaining -= passed;
+    }
+  }
+
+  while (remaining > 0) {
+    currentDate = addPlainDays(currentDate, step);
+    if (isWorkingDay(currentDate, calendar)) {
+      remaining--;
+    }
+  }
+
+  return currentDate;
+}
+
+// The latest date offsetWorkingDays moves by the offset to the given working day or before it. Going forward it can be
+// a non-working day just before a working one, which the offset moves past just the same.
+export const latestDateBeforeOffset = (date: PlainDate, offset: number, calendar: WorkCalendar): PlainDate => {
+  return offset > 0 ? addPlainDays(offsetWorkingDays(date, -(offset - 1), calendar), -1) : offsetWorkingDays(date, -offset, calendar);
+}
+
+// Returns the number of working days between two dates, negative when dateLeft is before dateRight.
+// It is the offset that would move dateRight onto dateLeft with offsetWorkingDays.
+export const differenceInWorkingDays = (dateLeft: PlainDate, dateRight: PlainDate, calendar: WorkCalendar): number => {
+  return dateLeft < dateRight
+    ? -countWorkingDaysAfter(dateLeft, dateRight, calendar)
+    : countWorkingDaysAfter(dateRight, dateLeft, calendar);
+}
+
+// Counts the working days between two dates, inclusive of both ends.
+export const countWorkingDays = (start: PlainDate, end: PlainDate, calendar: WorkCalendar): number => {
+  return eachPlainDay(start, end).filter(day => isWorkingDay(day, calendar)).length;
+}
+
+// Combines calendars so a day is only working if it is working in every one of them.
+export const intersectCalendars = (calendars: WorkCalendar[]): WorkCalendar => {
+  const workingDays = calendars.reduce(
+    (days, calendar) => days.filter(day => calendar.workingDays.includes(day)),
+    [0, 1, 2, 3, 4, 5, 6],
+  );
+
+  // Only days with an exception in one of the calendars can differ from the combined working week
+  const exceptions = new Map<PlainDate, CalendarException>();
+  for (const calendar of calendars) {
+    for (const exception of calendar.exceptions) {
+      if (exceptions.has(exception.date)) continue;
+      const unavailable = calendars.map(c => getCalendarException(exception.date, c)).find(e => e && !e.isWorking);
+      exceptions.set(exception.date, {
+        date: exception.date,
+        name: unavailable?.name ?? exception.name,
+        isWorking: calendars.every(c => isWorkingDay(exception.date, c)),
+      });
+    }
+  }
+
+  return { workingDays, exceptions: Array.from(exceptions.values()) };
+}
+
+export const validateWorkCalendar = (calendar: WorkCalendar) => {
+  if (calendar.workingDays.length === 0) {
+    throw new Error('The working calendar must have at least one working day per week.');
+  }
+}
+
+// Parses a semicolon-separated list of weekday names such as "Sun;Mon;Tue" into sorted day numbers.
+export const parseWorkingDays = (value: string): number[] => {
+  const workingDays = value.split(';').map(d => d.trim()).filter(Boolean).map(day => {
+    const index = WEEKDAY_LABELS.findIndex(label => label.toLowerCase() === day.slice(0, 3).toLowerCase());
+    if (index === -1) {
+      throw new Error(`Invalid working day "${day}". Use Sun, Mon, Tue, Wed, Thu, Fri or Sat.`);
+    }
+    return index;
+  });
+  return Array.from(new Set(workingDays)).sort((a, b) => a - b);
+}
+
+export const formatWorkingDays = (workingDays: number[]): string => {
+  return workingDays.map(d => WEEKDAY_LABELS[d]).join(';');
+}
+
+// CSV files carry the calendar as directive lines before the header, e.g.
+//   #workingDays,Sun;Mon;Tue;Wed;Thu
+//   #holiday,2024-12-25,Christmas Day
+//   #workday,2024-12-28,Make-up Day
+const CALENDAR_DIRECTIVES = ['#workingDays', '#holiday', '#workday'];
+
+export const isCalendarDirective = (line: string): boolean => {
+  const directive = line.split(',')[0].trim();
+  return CALENDAR_DIRECTIVES.includes(directive);
+}
+
+// Applies a calendar directive line to the calendar and returns the updated calendar.
+export const applyCalendarDirective = (line: string, calendar: WorkCalendar): WorkCalendar => {
+  const [directive, ...values] = splitCsvLine(line);
+
+  if (directive === '#workingDays') {
+    return { ...calendar, workingDays: parseWorkingDays(values[0] ?? '') };
+  }
+
+  const [dateStr, ...nameParts] = values;
+  const date = parsePlainDate(dateStr ?? '');
+  if (!date) {
+    throw new Error(`Invalid date "${dateStr ?? ''}" in calendar ${directive.slice(1)}. Use YYYY-MM-DD.`);
+  }
+  const exception: CalendarException = {
+    date,
+    name: nameParts.join(','),
+    isWorking: directive === '#workday',
+  };
+  const exceptions = calendar.exceptions.filter(e => e.date !== date);
+  return { ...calendar, exceptions: [...exceptions, exception] };
+}
+
+export const formatCalendarDirectives = (calendar: WorkCalendar): string[] => {
+  const lines = [`#workingDays,${formatWorkingDays(calendar.workingDays)}`];
+  const exceptions = [...calendar.exceptions].sort((a, b) => comparePlainDates(a.date, b.date));
+  for (const exception of exceptions) {
+    const name = exception.name ? escapeCsvValue(exception.name) : '';
+    lines.push(`${exception.isWorking ? '#workday' : '#holiday'},${exception.date},${name}`);
+  }
+  return lines;
+}
@@ -0,0 +1,148 @@
+import type { ConstraintType, PlainDate, TaskConstraint, WorkCalendar } from './types';
+import { addWorkingDays, nextWorkingDay, offsetWorkingDays, previousWorkingDay } from './calendar';
+import { formatPlainDate, maxPlainDate, parsePlainDate } from './plain-date';
+
+export const CONSTRAINT_LABELS: Record<ConstraintType, string> = {
+  ASAP: 'As Soon As Possible',
+  ALAP: 'As Late As Possible',
+  MSO: 'Must Start On',
+  MFO: 'Must Finish On',
+  SNET: 'Start No Earlier Than',
+  SNLT: 'Start No Later Than',
+  FNET: 'Finish No Earlier Than',
+  FNLT: 'Finish No Later Than',
+};
+
+export const CONSTRAINT_TYPES = Object.keys(CONSTRAINT_LABELS) as ConstraintType[];
+
+export const isDatedConstraint = (type: ConstraintType): boolean => {
+  return type !== 'ASAP' && type !== 'ALAP';
+}
+
+// Hard constraints pin the task to its date, so neither dependencies nor leveling move it
+export const isHardConstraint = (constraint: TaskConstraint | undefined): boolean => {
+  return constraint?.type === 'MSO' || constraint?.type === 'MFO';
+}
+
+const startFromFinish = (finishDate: PlainDate, workingDuration: number, calendar: WorkCalendar): PlainDate => {
+  return offsetWorkingDays(finishDate, -(Math.max(1, workingDuration) - 1), calendar);
+}
+
+// Returns the start date of a task once its constraint is applied to the earliest start its dependencies allow.
+// Dates falling on non-working days are moved to the working day that still honours the constraint.
+export const applyConstraint = (
+  earliestStart: PlainDate,
+  workingDuration: number,
+  constraint: TaskConstraint | undefined,
+  calendar: WorkCalendar,
+): PlainDate => {
+  const date = constraint?.date;
+  if (!date) return earliestStart;
+
+  switch (constraint.type) {
+    case 'MSO':
+      return nextWorkingDay(date, calendar);
+    case 'MFO':
+      return startFromFinish(previousWorkingDay(date, calendar), workingDuration, calendar);
+    case 'SNET':
+      return maxPlainDate([earliestStart, nextWorkingDay(date, calendar)]);
+    case 'FNET':
+      return maxPlainDate([earliestStart, startFromFinish(nextWorkingDay(date, calendar), workingDuration, calendar)]);
+    default:
+      return earliestStart;
+  }
+}
+
+// Latest finish date the constraint allows, used to bound the late dates of the critical path analysis.
+export const getConstraintFinishLimit = (
+  constraint: TaskConstraint | undefined,
+  workingDuration: number,
+  calendar: WorkCalendar,
+): PlainDate | undefined => {
+  const date = constraint?.date;
+  if (!date) return undefined;
+
+  switch (constraint.type) {
+    case 'MSO':
+      return addWorkingDays(nextWorkingDay(date, calendar), workingDuration, calendar);
+    case 'SNLT':
+      return addWorkingDays(previousWorkingDay(date, calendar), workingDuration, calendar);
+    case 'MFO':
+    case 'FNLT':
+      return previousWorkingDay(date, calendar);
+    default:
+      return undefined;
+  }
+}
+
+const describeConflict = (constraint: TaskConstraint, cause: string): string => {
+  return `${CONSTRAINT_LABELS[constraint.type]} ${formatPlainDate(constraint.date!, 'MMM d, yyyy')} cannot be met because of ${cause}.`;
+}
+
+// Checks a scheduled task against its constraint. dependencyStart is the earliest start its dependencies
+// allow in the final schedule and unleveledStart the start it had before leveling.
+export const getConstraintConflict = (
+  constraint: TaskConstraint | undefined,
+  startDate: PlainDate,
+  endDate: PlainDate,
+  dependencyStart: PlainDate,
+  unleveledStart: PlainDate,
+  unleveledEnd: PlainDate,
+): string | undefined => {
+  const date = constraint?.date;
+  if (!date) return undefined;
+
+  const describe = (cause: string) => describeConflict(constraint, cause);
+  switch (constraint.type) {
+    case 'MSO':
+    case 'MFO':
+      return dependencyStart > startDate ? describe('its dependencies') : undefined;
+    case 'SNLT':
+      if (startDate <= date) return undefined;
+      return describe(unleveledStart > date ? 'its dependencies' : 'resource leveling');
+    case 'FNLT':
+      if (endDate <= date) return undefined;
+      return describe(unleveledEnd > date ? 'its dependencies' : 'resource leveling');
+    default:
+      return undefined;
+  }
+}
+
+// An as late as possible task cannot keep its links when a successor starts before the task can finish
+export const LATE_AS_POSSIBLE_CONFLICT = `${CONSTRAINT_LABELS.ALAP} cannot be met because a successor starts before the task can finish.`;
+
+// Scheduling backward, constraints with an earliest date do not move tasks later, as that would make them late
+// for their successors; they are only checked.
+export const getEarliestDateConflict = (
+  constraint: TaskConstraint | undefined,
+  startDate: PlainDate,
+  endDate: PlainDate,
+): string | undefined => {
+  const date = constraint?.date;
+  if (!date) return undefined;
+
+  switch (constraint.type) {
+    case 'SNET':
+      return startDate < date ? describeConflict(constraint, 'the project finish date') : undefined;
+    case 'FNET':
+      return endDate < date ? describeConflict(constraint, 'the project finish date') : undefined;
+    default:
+      return undefined;
+  }
+}
+
+export const parseConstraint = (typeValue: string | undefined, dateValue: string | undefined): TaskConstraint | undefined => {
+  if (!typeValue?.trim()) return undefined;
+  const type = typeValue.trim().toUpperCase() as ConstraintType;
+  if (!CONSTRAINT_TYPES.includes(type)) {
+    throw new Error(`Invalid constraint "${typeValue}". Use one of ${CONSTRAINT_TYPES.join(', ')}.`);
+  }
+  if (type === 'ASAP') return undefined;
+  if (!isDatedConstraint(type)) return { type };
+
+  const date = parsePlainDate(dateValue ?? '');
+  if (!date) {
+    throw new Error(`Constraint ${type} needs a constraintDate in YYYY-MM-DD format.`);
+  }
+  return { type, date };
+}
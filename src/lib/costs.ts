@@ -0,0 +1,172 @@
+import type { PlainDate, Resource, ScheduleOptions, Task } from './types';
+import { DEFAULT_WORK_CALENDAR, isWorkingDay } from './calendar';
+import { addPlainDays, comparePlainDates, differenceInPlainDays, eachPlainDay } from './plain-date';
+import { createCalendarResolver } from './resources';
+import { getWorkPeriods } from './interruptions';
+import { getTaskCalendar } from './elapsed';
+import { getAssignmentWork } from './effort';
+import { getChildrenMap, getLeafDescendants } from './hierarchy';
+import { splitCsvLine } from './csv-utils';
+
+// Planned cost of a task: what its resources are paid for it, and what it costs apart from them
+export interface TaskCost {
+  resourceCost: number;
+  resources: Map<string, number>; // the resource cost by resource
+  fixedCost: number;
+  total: number;
+}
+
+// One point of the cost curve: everything planned to be spent up to and including the date
+export interface CostPoint {
+  date: PlainDate;
+  cost: number;
+}
+
+export interface CostReport {
+  tasks: Map<string, TaskCost>; // leaf tasks, and summary tasks adding up the leaves below them
+  resources: Map<string, number>; // planned cost of each resource over all its tasks
+  total: number;
+  curve: CostPoint[];
+}
+
+// The cost curve has at most about this many points, a day or more apart
+const MAX_CURVE_POINTS = 120;
+
+// A resource's work on one task on one day, in person-days
+interface DailyWork {
+  taskId: string;
+  work: number;
+}
+
+export const hasRates = (resource: Resource): boolean => {
+  return resource.rate !== undefined || resource.overtimeRate !== undefined || resource.costPerUse !== undefined;
+}
+
+export const hasCosts = (tasks: Pick<Task, 'fixedCost'>[], resources: Resource[]): boolean => {
+  return tasks.some(task => task.fixedCost !== undefined) || resources.some(hasRates);
+}
+
+/**
+ * Planned cost of a schedule. Each assignment's work is spread evenly over the days the task is worked, and each day
+ * a resource is paid its rate for up to a day's work and its overtime rate for the rest, shared by its tasks that day
+ * in proportion to their work. Costs per use fall on the task's start, fixed costs are spread like the work.
+ * Milestones take no work, so they only cost their fixed cost, on their date.
+ */
+export const calculateCosts = (tasks: Task[], options: ScheduleOptions = {}): CostReport => {
+  const getCalendar = createCalendarResolver(options.calendar ?? DEFAULT_WORK_CALENDAR, options.resources);
+  const resourceMap = new Map((options.resources ?? []).map(r => [r.name, r]));
+  const leafTasks = tasks.filter(task => !task.isSummary);
+
+  const taskCosts = new Map<string, TaskCost>(leafTasks.map(task => [
+    task.id,
+    { resourceCost: 0, resources: new Map(), fixedCost: task.fixedCost ?? 0, total: 0 },
+  ]));
+  const resourceCosts = new Map<string, number>();
+  const dailyCosts = new Map<PlainDate, number>();
+  const addCost = (taskId: string, resource: string | undefined, date: PlainDate, cost: number) => {
+    if (cost === 0) return;
+    const taskCost = taskCosts.get(taskId)!;
+    if (resource) {
+      taskCost.resourceCost += cost;
+      taskCost.resources.set(resource, (taskCost.resources.get(resource) ?? 0) + cost);
+      resourceCosts.set(resource, (resourceCosts.get(resource) ?? 0) + cost);
+    }
+    taskCost.total += cost;
+    dailyCosts.set(date, (dailyCosts.get(date) ?? 0) + cost);
+  };
+
+  const dailyWork = new Map<string, Map<PlainDate, DailyWork[]>>();
+  for (const task of leafTasks) {
+    const calendar = getTaskCalendar(task, getCalendar);
+    // Milestones fall on a day but are not worked, so their resources are neither paid nor used
+    const workDays = task.workingDuration === 0 ? [] : getWorkPeriods(task)
+      .flatMap(period => eachPlainDay(period.startDate, period.endDate))
+      .filter(date => isWorkingDay(date, calendar));
+    const costDays = workDays.length > 0 ? workDays : [task.startDate];
+    costDays.forEach(date => addCost(task.id, undefined, date, (task.fixedCost ?? 0) / costDays.length));
+
+    for (const assignment of workDays.length > 0 ? task.assignments : []) {
+      addCost(task.id, assignment.resource, task.startDate, resourceMap.get(assignment.resource)?.costPerUse ?? 0);
+      const work = getAssignmentWork(task, assignment) / workDays.length;
+      let resourceWork = dailyWork.get(assignment.resource);
+      if (!resourceWork) {
+        resourceWork = new Map();
+        dailyWork.set(assignment.resource, resourceWork);
+      }
+      for (const date of workDays) {
+        const entries = resourceWork.get(date);
+        if (entries) entries.push({ taskId: task.id, work });
+        else resourceWork.set(date, [{ taskId: task.id, work }]);
+      }
+    }
+  }
+
+  dailyWork.forEach((days, resourceName) => {
+    const resource = resourceMap.get(resourceName);
+    if (!resource || (!resource.rate && !resource.overtimeRate)) return;
+    const rate = resource.rate ?? 0;
+    days.forEach((entries, date) => {
+      const totalWork = entries.reduce((sum, entry) => sum + entry.work, 0);
+      const cost = Math.min(totalWork, 1) * rate + Math.max(totalWork - 1, 0) * (resource.overtimeRate ?? rate);
+      entries.forEach(entry => addCost(entry.taskId, resourceName, date, cost * entry.work / totalWork));
+    });
+  });
+
+  // Summary tasks add up the leaves below them
+  const childrenMap = getChildrenMap(tasks);
+  tasks.filter(task => task.isSummary).forEach(summary => {
+    const total: TaskCost = { resourceCost: 0, resources: new Map(), fixedCost: 0, total: 0 };
+    getLeafDescendants(summary, childrenMap).forEach(leaf => {
+      const leafCost = taskCosts.get(leaf.id);
+      if (!leafCost) return;
+      total.resourceCost += leafCost.resourceCost;
+      leafCost.resources.forEach((cost, resource) => total.resources.set(resource, (total.resources.get(resource) ?? 0) + cost));
+      total.fixedCost += leafCost.fixedCost;
+      total.total += leafCost.total;
+    });
+    taskCosts.set(summary.id, total);
+  });
+
+  // The curve runs over the days anything is spent, sampled so long projects keep a readable number of points
+  const curve: CostPoint[] = [];
+  const spendingDates = Array.from(dailyCosts.keys()).sort(comparePlainDates);
+  if (spendingDates.length > 0) {
+    const curveStart = addPlainDays(spendingDates[0], -1);
+    const curveEnd = spendingDates[spendingDates.length - 1];
+    const step = Math.max(1, Math.ceil((differenceInPlainDays(curveEnd, curveStart) + 1) / MAX_CURVE_POINTS));
+    let cost = 0;
+    let index = 0;
+    for (let date = curveStart; ; date = addPlainDays(date, step)) {
+      if (date > curveEnd) date = curveEnd;
+      for (; index < spendingDates.length && spendingDates[index] <= date; index++) cost += dailyCosts.get(spendingDates[index])!;
+      curve.push({ date, cost });
+      if (date === curveEnd) break;
+    }
+  }
+
+  return {
+    tasks: taskCosts,
+    resources: resourceCosts,
+    total: Array.from(dailyCosts.values()).reduce((sum, cost) => sum + cost, 0),
+    curve,
+  };
+}
+
+// CSV files carry the project budget as a directive line before the header, e.g. "#budget,120000"
+export const isBudgetDirective = (line: string): boolean => {
+  return line.split(',')[0].trim() === '#budget';
+}
+
+export const parseBudgetDirective = (line: string): number => {
+  // The amount may be quoted to keep thousands separators
+  const value = splitCsvLine(line)[1]?.trim() ?? '';
+  const budget = Number(value.replace(/,/g, ''));
+  if (!value || isNaN(budget) || budget < 0) {
+    throw new Error(`Invalid amount "${value}" in budget directive. Must be a number of at least 0.`);
+  }
+  return budget;
+}
+
+export const formatBudgetDirective = (budget: number): string => {
+  return `#budget,${budget}`;
+}
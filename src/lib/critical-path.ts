@@ -0,0 +1,154 @@
+import type { CriticalPathInfo, Dependency, PlainDate, RawTask, ScheduleOptions, Task, WorkCalendar } from './types';
+import { DEFAULT_WORK_CALENDAR, differenceInWorkingDays, latestDateBeforeOffset, offsetWorkingDays, previousWorkingDay } from './calendar';
+import { maxPlainDate, minPlainDate } from './plain-date';
+import { createCalendarResolver } from './resources';
+import { getTaskCalendar } from './elapsed';
+import { getConstraintFinishLimit } from './constraints';
+import { topologicalOrder } from './topology';
+import { expandSummaryDependencies, getChildrenMap, getLeafDescendants, getSummaryIds } from './hierarchy';
+
+interface SuccessorLink {
+  task: Task;
+  dependency: Dependency;
+}
+
+// Working days from a predecessor's finish to a finish-to-start successor's start: none for milestones,
+// which fall on the finish day itself, otherwise the successor starts the next working day.
+const getFinishToStartGap = (dependency: Dependency, successor: RawTask): number => {
+  return dependency.lag + (successor.workingDuration === 0 ? 0 : 1);
+}
+
+// Latest finish date a predecessor may have without pushing the successor past its late dates.
+// Backward scheduling places each predecessor by it, with the successor's scheduled dates as its late dates.
+// The link is measured on the successor's calendar, as when the successor is scheduled after it, and the
+// predecessor then finishes on one of its own working days.
+export const getLatestPredecessorFinish = (
+  dependency: Dependency,
+  predecessor: RawTask,
+  successor: RawTask,
+  successorLateStart: PlainDate,
+  successorLateFinish: PlainDate,
+  calendar: WorkCalendar,
+  successorCalendar: WorkCalendar = calendar,
+): PlainDate => {
+  const finishFromStart = (startDate: PlainDate) => offsetWorkingDays(previousWorkingDay(startDate, calendar), Math.max(1, predecessor.workingDuration) - 1, calendar);
+  const latestBefore = (date: PlainDate, offset: number) => latestDateBeforeOffset(date, offset, successorCalendar);
+
+  switch (dependency.type) {
+    case 'SS':
+      return finishFromStart(latestBefore(successorLateStart, dependency.lag));
+    case 'FF':
+      return previousWorkingDay(latestBefore(successorLateFinish, dependency.lag), calendar);
+    case 'SF':
+      return finishFromStart(latestBefore(successorLateFinish, dependency.lag - 1));
+    case 'FS':
+    default:
+      return previousWorkingDay(latestBefore(successorLateStart, getFinishToStartGap(dependency, successor)), calendar);
+  }
+}
+
+// Working days the predecessor could slip before it would delay the successor's early dates through this link.
+// The link is measured on the successor's calendar and the slack counted on the predecessor's.
+const getLinkSlack = (dependency: Dependency, predecessor: Task, successor: Task, calendar: WorkCalendar, successorCalendar: WorkCalendar): number => {
+  switch (dependency.type) {
+    case 'SS':
+      return differenceInWorkingDays(successor.startDate, offsetWorkingDays(predecessor.startDate, dependency.lag, successorCalendar), calendar);
+    case 'FF':
+      return differenceInWorkingDays(successor.endDate, offsetWorkingDays(predecessor.endDate, dependency.lag, successorCalendar), calendar);
+    case 'SF':
+      return differenceInWorkingDays(successor.endDate, offsetWorkingDays(predecessor.startDate, dependency.lag - 1, successorCalendar), calendar);
+    case 'FS':
+    default:
+      return differenceInWorkingDays(successor.startDate, offsetWorkingDays(predecessor.endDate, getFinishToStartGap(dependency, successor), successorCalendar), calendar);
+  }
+}
+
+/**
+ * Runs a critical path analysis over a schedule produced by processTasks.
+ * The scheduled dates are used as the early dates (forward pass), then a backward pass
+ * through the dependency links from the project finish yields the late dates and float.
+ * Resource serialisation is not treated as a link, so float is logic-driven only.
+ * Float is counted in working days of each task's own (resource) calendar.
+ * Start and finish constraints with a latest date (MSO, MFO, SNLT, FNLT) also limit the late dates.
+ * Links on summary tasks apply to their leaf tasks, and a summary task's figures roll up from its leaves.
+ */
+export const analyzeCriticalPath = (tasks: Task[], options: ScheduleOptions = {}): Map<string, CriticalPathInfo> => {
+  const result = new Map<string, CriticalPathInfo>();
+  if (tasks.length === 0) return result;
+
+  const getCalendar = createCalendarResolver(options.calendar ?? DEFAULT_WORK_CALENDAR, options.resources);
+
+  const projectFinish = maxPlainDate(tasks.map(t => t.endDate));
+  const taskById = new Map(tasks.map(t => [t.id, t]));
+  const successors = new Map<string, SuccessorLink[]>();
+  const summaryIds = getSummaryIds(tasks);
+  const leafTasks = tasks.filter(t => !summaryIds.has(t.id));
+  const scheduleDependencies = expandSummaryDependencies(tasks);
+
+  const getDependencies = (task: Task) => scheduleDependencies.get(task.id) ?? task.dependencies;
+  for (const task of leafTasks) {
+    for (const dependency of getDependencies(task)) {
+      const predecessor = taskById.get(dependency.predecessor);
+      if (!predecessor) continue;
+      const links = successors.get(predecessor.id);
+      if (links) links.push({ task, dependency });
+      else successors.set(predecessor.id, [{ task, dependency }]);
+    }
+  }
+
+  // Backward pass in reverse topological order, so each task's successors have their late dates already
+  const lateDates = new Map<string, { lateStart: PlainDate; lateFinish: PlainDate }>();
+  const order = topologicalOrder(leafTasks.map(t => t.id), id => getDependencies(taskById.get(id)!).map(d => d.predecessor));
+  for (const id of order.reverse()) {
+    const task = taskById.get(id)!;
+    const calendar = getTaskCalendar(task, getCalendar);
+    const finishLimits = (successors.get(task.id) ?? []).map(({ task: successor, dependency }) => {
+      const successorLate = lateDates.get(successor.id)!;
+      return getLatestPredecessorFinish(dependency, task, successor, successorLate.lateStart, successorLate.lateFinish, calendar, getTaskCalendar(successor, getCalendar));
+    });
+
+    // Constraints with a latest date bound the late finish too, which gives negative float when they are missed
+    const constraintLimit = getConstraintFinishLimit(task.constraint, task.workingDuration, calendar);
+    const lateFinish = minPlainDate([projectFinish, ...finishLimits, ...(constraintLimit ? [constraintLimit] : [])]);
+    const lateStart = offsetWorkingDays(lateFinish, -(Math.max(1, task.workingDuration) - 1), calendar);
+    lateDates.set(task.id, { lateStart, lateFinish });
+  }
+
+  for (const task of leafTasks) {
+    const calendar = getTaskCalendar(task, getCalendar);
+    const { lateStart, lateFinish } = lateDates.get(task.id)!;
+    const totalFloat = differenceInWorkingDays(lateStart, task.startDate, calendar);
+
+    const links = successors.get(task.id) ?? [];
+    const freeFloat = links.length > 0
+      ? Math.min(...links.map(({ task: successor, dependency }) => getLinkSlack(dependency, task, successor, calendar, getTaskCalendar(successor, getCalendar))))
+      : differenceInWorkingDays(projectFinish, task.endDate, calendar);
+
+    result.set(task.id, {
+      earlyStart: task.startDate,
+      earlyFinish: task.endDate,
+      lateStart,
+      lateFinish,
+      totalFloat,
+      freeFloat: Math.max(0, Math.min(freeFloat, totalFloat)),
+      isCritical: totalFloat <= 0,
+    });
+  }
+
+  const childrenMap = getChildrenMap(tasks);
+  for (const summary of tasks.filter(t => summaryIds.has(t.id))) {
+    const leaves = getLeafDescendants(summary, childrenMap).map(leaf => result.get(leaf.id)).filter((info): info is CriticalPathInfo => !!info);
+    if (leaves.length === 0) continue;
+    result.set(summary.id, {
+      earlyStart: summary.startDate,
+      earlyFinish: summary.endDate,
+      lateStart: minPlainDate(leaves.map(info => info.lateStart)),
+      lateFinish: maxPlainDate(leaves.map(info => info.lateFinish)),
+      totalFloat: Math.min(...leaves.map(info => info.totalFloat)),
+      freeFloat: Math.min(...leaves.map(info => info.freeFloat)),
+      isCritical: leaves.some(info => info.isCritical),
+    });
+  }
+
+  return result;
+}
@@ -0,0 +1,182 @@
+import type { RawTask, ImportedProject, WorkCalendar, Resource, LevelingOptions, ScheduleMode, ResourceAssignment, TaskConstraint, Baseline, Recurrence, DateRange } from './types';
+import { parseDependencies, resolveTaskReferences } from './task-utils';
+import { applyCalendarDirective, DEFAULT_WORK_CALENDAR, isCalendarDirective } from './calendar';
+import { applyResourceDirective, isResourceDirective, parseAssignments } from './resources';
+import { splitCsvLine } from './csv-utils';
+import { parsePlainDate } from './plain-date';
+import { DEFAULT_LEVELING_OPTIONS, isLevelingDirective, parseLevelingDirective, parsePriority } from './leveling';
+import { parseConstraint } from './constraints';
+import { applyBaselineDirective, isBaselineDirective } from './baselines';
+import { parseProgress, type TaskProgress } from './progress';
+import { parseAmount, type TaskBudget } from './earned-value';
+import { parseEstimate, type DurationEstimate } from './risk-analysis';
+import { parseRecurrence, validateSeriesDates } from './recurrence';
+import { parseInterruptions } from './interruptions';
+import { editEffort, parseTaskType, parseWork, type TaskEffort } from './effort';
+import { isBudgetDirective, parseBudgetDirective } from './costs';
+import { DEFAULT_SCHEDULE_MODE, isScheduleModeDirective, parseScheduleModeDirective } from './schedule-mode';
+import { parseDuration } from './elapsed';
+
+// An imported project before it is scheduled
+export type ParsedProject = Omit<ImportedProject, 'schedule'>;
+
+/**
+ * Parses a project CSV: directive lines for the calendar, resources, leveling, scheduling direction, baselines and budget, then a header and one row per task.
+ * onProgress is called as task rows are parsed.
+ */
+export const parseProjectCsv = (csvText: string, onProgress?: (parsedRows: number, totalRows: number) => void): ParsedProject => {
+  const allLines = csvText.trim().split('\n');
+
+  // Calendar, resource, leveling, schedule, baseline and budget directive lines (e.g. "#holiday,2024-12-25,Christmas Day") are kept apart from task rows
+  let calendar: WorkCalendar = DEFAULT_WORK_CALENDAR;
+  let resources: Resource[] = [];
+  let leveling: LevelingOptions = DEFAULT_LEVELING_OPTIONS;
+  let mode: ScheduleMode = DEFAULT_SCHEDULE_MODE;
+  let baselines: Baseline[] = [];
+  let budget: number | undefined;
+  const lines = allLines.filter(line => {
+    if (isCalendarDirective(line)) {
+      calendar = applyCalendarDirective(line.trim(), calendar);
+      return false;
+    }
+    if (isResourceDirective(line)) {
+      resources = applyResourceDirective(line.trim(), resources);
+      return false;
+    }
+    if (isLevelingDirective(line)) {
+      leveling = parseLevelingDirective(line.trim());
+      return false;
+    }
+    if (isScheduleModeDirective(line)) {
+      mode = parseScheduleModeDirective(line.trim());
+      return false;
+    }
+    if (isBaselineDirective(line)) {
+      baselines = applyBaselineDirective(line.trim(), baselines);
+      return false;
+    }
+    if (isBudgetDirective(line)) {
+      budget = parseBudgetDirective(line.trim());
+      return false;
+    }
+    return true;
+  });
+
+  const headerLine = lines.shift()?.trim();
+  if (!headerLine) throw new Error('CSV is empty or has no header.');
+  
+  const header = headerLine.split(',').map(h => h.trim());
+  const hasIdColumn = header.includes('id');
+
+  // Effort-driven tasks may give their work instead of a duration
+  if (!header.includes('title') || !header.includes('startDate') || (!header.includes('duration') && !header.includes('work'))) {
+      throw new Error('Invalid CSV header. It must contain "title", "startDate", and "duration" or "work".');
+  }
+
+  const rows = lines.map(line => {
+      const values = splitCsvLine(line.trim());
+      const row: { [key: string]: string } = {};
+      header.forEach((h, i) => {
+          row[h] = values[i];
+      });
+      return row;
+  });
+  const getRowId = (row: { [key: string]: string }) => hasIdColumn && row.id ? row.id.trim() : row.title?.trim();
+
+  // Tasks are grouped either with a parentId column or with an outline level, 1 for top-level rows,
+  // which nests each row under the closest earlier row one level up
+  const outlineParents: string[] = [];
+  const parentIds = rows.map((row, index) => {
+      if (!row.outlineLevel?.trim()) return row.parentId?.trim() || undefined;
+      const level = parseInt(row.outlineLevel, 10);
+      if (isNaN(level) || level < 1 || level > outlineParents.length + 1) {
+          throw new Error(`Invalid outline level on line ${index + 2}. Must be 1 or at most one deeper than the row above.`);
+      }
+      outlineParents.length = level - 1;
+      outlineParents.push(getRowId(row));
+      return outlineParents[level - 2];
+  });
+  const summaryIds = new Set(parentIds.filter(Boolean));
+
+  const parsedTasks: RawTask[] = rows.map((row, index) => {
+      onProgress?.(index + 1, rows.length);
+      const { title, startDate: startDateStr, duration: durationStr, dependencies: dependenciesStr, resource, priority: priorityStr, constraint: constraintStr, constraintDate: constraintDateStr, type, percentComplete: percentCompleteStr, actualStart: actualStartStr, actualFinish: actualFinishStr, budget: budgetStr, actualCost: actualCostStr, fixedCost: fixedCostStr, optimisticDuration: optimisticStr, pessimisticDuration: pessimisticStr, recurrence: recurrenceStr, interruptions: interruptionsStr, work: workStr, taskType: taskTypeStr } = row;
+      const isMilestoneRow = type?.trim().toLowerCase() === 'milestone';
+      // A summary task's duration rolls up from its children, so it may be left out
+      const isSummaryRow = summaryIds.has(getRowId(row));
+
+      if (!title || !startDateStr || (!durationStr && !workStr?.trim() && !isMilestoneRow && !isSummaryRow)) {
+          throw new Error(`Invalid data on line ${index + 2}. Each task must have a title, startDate, and duration or work.`);
+      }
+
+      const startDate = parsePlainDate(startDateStr);
+      if (!startDate) {
+          throw new Error(`Invalid date format on line ${index + 2}. Use YYYY-MM-DD.`);
+      }
+      
+      // Milestones have no duration, whatever the duration column says; "ed" marks elapsed (calendar) days, e.g. "10ed"
+      const parsedDuration = parseDuration(durationStr ?? '');
+      const duration = isMilestoneRow || (!durationStr && (isSummaryRow || workStr?.trim())) ? 0 : parsedDuration.workingDuration;
+      if (isNaN(duration) || duration < 0) {
+          throw new Error(`Invalid duration on line ${index + 2}. Must be 0 for a milestone or a positive number, with "ed" for elapsed days.`);
+      }
+      const elapsed = duration > 0 ? parsedDuration.elapsed : undefined;
+
+      const dependencies = parseDependencies(dependenciesStr);
+
+      let priority: number | undefined;
+      let assignments: ResourceAssignment[];
+      let constraint: TaskConstraint | undefined;
+      let progress: TaskProgress;
+      let taskBudget: TaskBudget;
+      let fixedCost: number | undefined;
+      let estimate: DurationEstimate;
+      let recurrence: Recurrence | undefined;
+      let interruptions: DateRange[] | undefined;
+      let effort: TaskEffort;
+      try {
+          priority = parsePriority(priorityStr);
+          assignments = parseAssignments(resource);
+          constraint = parseConstraint(constraintStr, constraintDateStr);
+          progress = parseProgress(percentCompleteStr, actualStartStr, actualFinishStr);
+          taskBudget = { budget: parseAmount(budgetStr, 'budget'), actualCost: parseAmount(actualCostStr, 'actualCost') };
+          fixedCost = parseAmount(fixedCostStr, 'fixedCost');
+          estimate = parseEstimate(optimisticStr, pessimisticStr, duration);
+          recurrence = parseRecurrence(recurrenceStr);
+          if (recurrence) validateSeriesDates(title.trim(), startDate, recurrence);
+          interruptions = parseInterruptions(interruptionsStr);
+          // Work sets the duration, or the units for a fixed duration task with both; milestones take none
+          const work = isMilestoneRow ? undefined : parseWork(workStr);
+          const taskType = parseTaskType(taskTypeStr);
+          effort = { workingDuration: duration, assignments, taskType };
+          if (work !== undefined) {
+              effort = { ...editEffort({ ...effort, taskType: durationStr ? taskType : 'fixedUnits' }, { work }), taskType };
+          }
+      } catch (error: any) {
+          throw new Error(`${error.message} (line ${index + 2})`);
+      }
+      
+      return {
+          id: getRowId(row),
+          title: title.trim(),
+          startDate,
+          dependencies,
+          priority,
+          constraint,
+          parentId: parentIds[index],
+          ...progress,
+          ...taskBudget,
+          fixedCost,
+          ...estimate,
+          recurrence,
+          interruptions,
+          ...effort,
+          elapsed,
+      };
+  });
+
+  // Dependencies and parents name task ids; files without ids (or older ones) name titles instead
+  const rawTasks = resolveTaskReferences(parsedTasks);
+
+  return { rawTasks, calendar, resources, leveling, mode, baselines, budget };
+}
@@ -0,0 +1,207 @@
+import type { Baseline, PlainDate, RawTask, ScheduleOptions, Task, WorkCalendar } from './types';
+import { DEFAULT_WORK_CALENDAR, differenceInWorkingDays } from './calendar';
+import { addPlainDays, comparePlainDates, differenceInPlainDays, maxPlainDate, minPlainDate } from './plain-date';
+import { createCalendarResolver } from './resources';
+import { getTaskCalendar } from './elapsed';
+import { getPercentComplete } from './progress';
+import { getChildrenMap, getLeafDescendants } from './hierarchy';
+import { calculateCosts } from './costs';
+
+export type TaskBudget = Pick<RawTask, 'budget' | 'actualCost'>;
+
+// Earned value figures as of a status date, all in the project's currency except the two indices
+export interface EarnedValueMetrics {
+  bac: number; // budget at completion
+  pv: number; // planned value: the budget of the work planned to be done by the status date
+  ev: number; // earned value: the budget of the work actually done
+  ac: number; // actual cost of the work done
+  sv: number; // schedule variance, EV - PV
+  cv: number; // cost variance, EV - AC
+  spi?: number; // schedule performance index, EV / PV; missing while nothing was planned yet
+  cpi?: number; // cost performance index, EV / AC; missing while nothing was spent
+  eac: number; // estimate at completion
+  etc: number; // estimate to complete, EAC - AC
+}
+
+// One point of the S-curve. Earned value and actual cost are only known up to the status date.
+export interface EarnedValuePoint {
+  date: PlainDate;
+  pv: number;
+  ev?: number;
+  ac?: number;
+}
+
+export interface EarnedValueReport {
+  tasks: Map<string, EarnedValueMetrics>; // leaf tasks with a budget or cost, and the summary tasks above them
+  resources: [string, EarnedValueMetrics][]; // each task's figures are shared by its resources in proportion to their units
+  project: EarnedValueMetrics;
+  curve: EarnedValuePoint[];
+}
+
+interface EarnedValueAmounts {
+  bac: number;
+  pv: number;
+  ev: number;
+  ac: number;
+}
+
+// The S-curve has at most about this many points, a day or more apart
+const MAX_CURVE_POINTS = 120;
+
+export const hasBudget = (task: TaskBudget): boolean => {
+  return task.budget !== undefined || task.actualCost !== undefined;
+}
+
+// Parses an amount column such as budget or actualCost; thousands separators are allowed
+export const parseAmount = (value: string | undefined, column: string): number | undefined => {
+  const text = value?.trim().replace(/,/g, '');
+  if (!text) return undefined;
+  const amount = Number(text);
+  if (isNaN(amount) || amount < 0) {
+    throw new Error(`Invalid ${column} "${value}". Must be a number of at least 0.`);
+  }
+  return amount;
+}
+
+export const formatAmount = (amount: number): string => {
+  return amount.toLocaleString(undefined, { maximumFractionDigits: 0 });
+}
+
+export const formatIndex = (index: number | undefined): string => {
+  return index === undefined ? '–' : index.toFixed(2);
+}
+
+// Completes the figures with variances, indices and forecasts. Without a cost index yet, the
+// remaining work is expected to cost what it was budgeted at.
+const toMetrics = ({ bac, pv, ev, ac }: EarnedValueAmounts): EarnedValueMetrics => {
+  const spi = pv > 0 ? ev / pv : undefined;
+  const cpi = ac > 0 ? ev / ac : undefined;
+  const eac = cpi ? ac + (bac - ev) / cpi : ac + bac - ev;
+  return { bac, pv, ev, ac, sv: ev - pv, cv: ev - ac, spi, cpi, eac, etc: eac - ac };
+}
+
+const addAmounts = (total: EarnedValueAmounts, amounts: EarnedValueAmounts, share = 1) => {
+  total.bac += amounts.bac * share;
+  total.pv += amounts.pv * share;
+  total.ev += amounts.ev * share;
+  total.ac += amounts.ac * share;
+}
+
+const emptyAmounts = (): EarnedValueAmounts => ({ bac: 0, pv: 0, ev: 0, ac: 0 });
+
+// Share of a span's working days that have passed by the date, inclusive of the date itself
+const getElapsedFraction = (start: PlainDate, end: PlainDate, date: PlainDate, calendar: WorkCalendar): number => {
+  if (date < start) return 0;
+  if (date >= end) return 1;
+  const totalDays = differenceInWorkingDays(end, addPlainDays(start, -1), calendar);
+  if (totalDays <= 0) return 1;
+  return differenceInWorkingDays(date, addPlainDays(start, -1), calendar) / totalDays;
+}
+
+/**
+ * Earned value of the leaf tasks as of the status date. A task without a budget of its own is budgeted at its planned
+ * cost. Budgets are planned to be spent evenly over each task's working days, following the baseline when one is
+ * given (tasks added since follow the current plan).
+ * Earned value and actual cost are spread evenly from the actual (or planned) start up to the actual finish
+ * or the status date, which is what draws their curves.
+ */
+export const calculateEarnedValue = (
+  tasks: Task[],
+  statusDate: PlainDate,
+  options: ScheduleOptions = {},
+  baseline?: Baseline,
+): EarnedValueReport => {
+  const getCalendar = createCalendarResolver(options.calendar ?? DEFAULT_WORK_CALENDAR, options.resources);
+  const plannedCosts = calculateCosts(tasks, options).tasks;
+  const getBudget = (task: Task) => task.budget ?? plannedCosts.get(task.id)?.total ?? 0;
+  const budgetedTasks = tasks.filter(task => !task.isSummary && (hasBudget(task) || getBudget(task) > 0));
+
+  const spans = budgetedTasks.map(task => {
+    const calendar = getTaskCalendar(task, getCalendar);
+    const planned = baseline?.tasks.get(task.id) ?? task;
+    const earnedStart = task.actualStart ?? task.startDate;
+    const earnedEnd = minPlainDate([task.actualFinish ?? statusDate, statusDate]);
+    return {
+      task,
+      calendar,
+      bac: getBudget(task),
+      ev: getBudget(task) * getPercentComplete(task) / 100,
+      ac: task.actualCost ?? 0,
+      plannedStart: planned.startDate,
+      plannedEnd: planned.endDate,
+      // Work reported ahead of its start date is counted on the status date
+      earnedStart: minPlainDate([earnedStart, earnedEnd]),
+      earnedEnd,
+    };
+  });
+
+  // Task, resource and project figures as of the status date
+  const taskAmounts = new Map<string, EarnedValueAmounts>();
+  const resourceAmounts = new Map<string, EarnedValueAmounts>();
+  const projectAmounts = emptyAmounts();
+  spans.forEach(span => {
+    const amounts = {
+      bac: span.bac,
+      pv: span.bac * getElapsedFraction(span.plannedStart, span.plannedEnd, statusDate, span.calendar),
+      ev: span.ev,
+      ac: span.ac,
+    };
+    taskAmounts.set(span.task.id, amounts);
+    addAmounts(projectAmounts, amounts);
+
+    const totalUnits = span.task.assignments.reduce((sum, a) => sum + a.units, 0);
+    span.task.assignments.forEach(({ resource, units }) => {
+      const existing = resourceAmounts.get(resource) ?? emptyAmounts();
+      addAmounts(existing, amounts, units / totalUnits);
+      resourceAmounts.set(resource, existing);
+    });
+  });
+
+  // Summary tasks add up the leaves below them that have figures
+  const childrenMap = getChildrenMap(tasks);
+  tasks.filter(task => task.isSummary).forEach(summary => {
+    const leaves = getLeafDescendants(summary, childrenMap).filter(leaf => taskAmounts.has(leaf.id));
+    if (leaves.length === 0) return;
+    const amounts = emptyAmounts();
+    leaves.forEach(leaf => addAmounts(amounts, taskAmounts.get(leaf.id)!));
+    taskAmounts.set(summary.id, amounts);
+  });
+
+  // The curve runs from the first planned or actual start to the last planned finish, and always includes the status date
+  const curve: EarnedValuePoint[] = [];
+  if (spans.length > 0) {
+    const curveStart = minPlainDate(spans.flatMap(s => [s.plannedStart, s.earnedStart]));
+    const curveEnd = maxPlainDate([...spans.map(s => s.plannedEnd), statusDate]);
+    const step = Math.max(1, Math.ceil((differenceInPlainDays(curveEnd, curveStart) + 1) / MAX_CURVE_POINTS));
+    const dates: PlainDate[] = [];
+    for (let date = curveStart; date < curveEnd; date = addPlainDays(date, step)) dates.push(date);
+    dates.push(curveEnd);
+    if (!dates.includes(statusDate) && statusDate > curveStart) {
+      dates.push(statusDate);
+      dates.sort(comparePlainDates);
+    }
+
+    dates.forEach(date => {
+      const isPast = date <= statusDate;
+      const point: EarnedValuePoint = { date, pv: 0, ev: isPast ? 0 : undefined, ac: isPast ? 0 : undefined };
+      spans.forEach(span => {
+        point.pv += span.bac * getElapsedFraction(span.plannedStart, span.plannedEnd, date, span.calendar);
+        if (isPast) {
+          const earnedFraction = getElapsedFraction(span.earnedStart, span.earnedEnd, date, span.calendar);
+          point.ev! += span.ev * earnedFraction;
+          point.ac! += span.ac * earnedFraction;
+        }
+      });
+      curve.push(point);
+    });
+  }
+
+  return {
+    tasks: new Map(Array.from(taskAmounts, ([id, amounts]) => [id, toMetrics(amounts)])),
+    resources: Array.from(resourceAmounts.entries())
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([resource, amounts]) => [resource, toMetrics(amounts)]),
+    project: toMetrics(projectAmounts),
+    curve,
+  };
+}
@@ -0,0 +1,114 @@
+import type { RawTask, ResourceAssignment, TaskType } from './types';
+import { FULL_UNITS } from './leveling';
+
+export const TASK_TYPE_LABELS: Record<TaskType, string> = {
+  fixedUnits: 'Fixed Units',
+  fixedWork: 'Fixed Work',
+  fixedDuration: 'Fixed Duration',
+};
+
+export const TASK_TYPES = Object.keys(TASK_TYPE_LABELS) as TaskType[];
+
+export const DEFAULT_TASK_TYPE: TaskType = 'fixedUnits';
+
+// The values a task type keeps in balance: work = duration × units
+export type TaskEffort = Pick<RawTask, 'workingDuration' | 'work' | 'assignments' | 'taskType'>;
+
+// One value edited by the user; the task type decides which of the others follows
+export type EffortEdit =
+  | { workingDuration: number }
+  | { work: number | undefined }
+  | { assignments: ResourceAssignment[] };
+
+// Units of all assignments in full-time resources, e.g. 1.5 for Alice full time and Bob half time
+export const getTotalUnits = (assignments: ResourceAssignment[]): number => {
+  return assignments.reduce((total, { units }) => total + units / FULL_UNITS, 0);
+}
+
+export const isEffortDriven = (task: Pick<RawTask, 'work' | 'assignments'>): boolean => {
+  return task.work !== undefined && task.assignments.length > 0;
+}
+
+// Whole working days the assigned units take to do the work; a little work still takes a day
+export const getEffortDuration = (work: number, assignments: ResourceAssignment[]): number => {
+  if (work === 0) return 0;
+  // Rounded first, so float error in e.g. 3 × 33.33% does not add a day
+  return Math.max(1, Math.ceil(Math.round(work / getTotalUnits(assignments) * 1e6) / 1e6));
+}
+
+// Person-days a task takes: its work when effort-driven, otherwise each assignment's share of its working days
+export const getTaskWork = (task: Pick<RawTask, 'workingDuration' | 'work' | 'assignments'>): number => {
+  if (isEffortDriven(task)) return task.work!;
+  return task.workingDuration * getTotalUnits(task.assignments);
+}
+
+// Person-days one resource puts into a task. The work of an effort-driven task is shared in proportion to the units.
+export const getAssignmentWork = (task: Pick<RawTask, 'workingDuration' | 'work' | 'assignments'>, assignment: ResourceAssignment): number => {
+  return getTaskWork(task) * assignment.units / FULL_UNITS / getTotalUnits(task.assignments);
+}
+
+// Changes every assignment's units by the same factor, as when the same work has to fit another duration
+const scaleUnits = (assignments: ResourceAssignment[], factor: number): ResourceAssignment[] => {
+  if (!isFinite(factor)) {
+    throw new Error('A milestone takes no work, so the work cannot change without its duration.');
+  }
+  return assignments.map(assignment => {
+    // Rounded up to hundredths of a percent, so the work still fits in the duration
+    const units = Math.ceil(Math.round(assignment.units * factor * 1e6) / 1e4) / 100;
+    if (units <= 0 || units > FULL_UNITS) {
+      throw new Error(`'${assignment.resource}' would need ${units}% units. Units must be greater than 0% and at most ${FULL_UNITS}%.`);
+    }
+    return { ...assignment, units };
+  });
+}
+
+/**
+ * Applies an edit to one of work, duration and units, recalculating another so that work = duration × units:
+ * - fixed units: a new duration changes the work; new work or units change the duration
+ * - fixed work: a new duration changes the units; new units change the duration; new work changes the duration
+ * - fixed duration: new units change the work; new work changes the units; a new duration changes the work
+ * A task without work only takes the edited value. Clearing the work makes the duration fixed again.
+ */
+export const editEffort = (task: TaskEffort, edit: EffortEdit): TaskEffort => {
+  const taskType = task.taskType ?? DEFAULT_TASK_TYPE;
+  if ('work' in edit && edit.work !== undefined && task.assignments.length === 0) {
+    throw new Error('Assign a resource before entering work; the duration is the work divided by their units.');
+  }
+  const edited = { ...task, ...edit };
+  if (!isEffortDriven(edited)) return edited;
+
+  // Work follows the duration to the precision units are given in, without float error
+  const getWork = (workingDuration: number) => Math.round(workingDuration * getTotalUnits(edited.assignments) * 1e4) / 1e4;
+  const work = edited.work!;
+  if ('workingDuration' in edit) {
+    if (taskType !== 'fixedWork') return { ...edited, work: getWork(edit.workingDuration) };
+    return { ...edited, assignments: scaleUnits(edited.assignments, work / (edit.workingDuration * getTotalUnits(edited.assignments))) };
+  }
+  if ('assignments' in edit && taskType === 'fixedDuration') {
+    return { ...edited, work: getWork(edited.workingDuration) };
+  }
+  if ('work' in edit && taskType === 'fixedDuration') {
+    return { ...edited, assignments: scaleUnits(edited.assignments, work / (edited.workingDuration * getTotalUnits(edited.assignments))) };
+  }
+  return { ...edited, workingDuration: getEffortDuration(work, edited.assignments) };
+}
+
+export const parseWork = (value: string | undefined): number | undefined => {
+  if (!value?.trim()) return undefined;
+  const work = Number(value.trim());
+  if (isNaN(work) || work < 0) {
+    throw new Error(`Invalid work "${value}". Must be a number of person-days of at least 0.`);
+  }
+  return work;
+}
+
+// Accepts the type as written in the CSV ("fixedWork") or as labelled ("Fixed Work")
+export const parseTaskType = (value: string | undefined): TaskType | undefined => {
+  if (!value?.trim()) return undefined;
+  const key = value.replace(/\s+/g, '').toLowerCase();
+  const taskType = TASK_TYPES.find(type => type.toLowerCase() === key);
+  if (!taskType) {
+    throw new Error(`Invalid task type "${value}". Use one of: ${TASK_TYPES.join(', ')}.`);
+  }
+  return taskType;
+}
@@ -0,0 +1,40 @@
+import type { RawTask, WorkCalendar } from './types';
+import { getAssignedResources } from './resources';
+import { addInterruptions } from './interruptions';
+
+// Elapsed durations run on calendar time: every day counts, weekends, holidays and resource days off included.
+// Like every link, one into an elapsed task is measured on the successor's calendar, so its lag counts calendar days
+// and the task may start the day after its predecessor finishes, weekend or not. A link out of an elapsed task is
+// measured on its successor's calendar in turn, e.g. working days.
+export const ELAPSED_CALENDAR: WorkCalendar = { workingDays: [0, 1, 2, 3, 4, 5, 6], exceptions: [] };
+
+export interface TaskDuration {
+  workingDuration: number;
+  elapsed?: boolean;
+}
+
+// The calendar a task's duration is counted on: every day for an elapsed task, otherwise the days its resources work
+export const getDurationCalendar = (task: RawTask, getCalendar: (resourceNames: string[]) => WorkCalendar): WorkCalendar => {
+  return task.elapsed ? ELAPSED_CALENDAR : getCalendar(getAssignedResources(task));
+}
+
+// The calendar a task is scheduled on: its duration calendar without the days its work is interrupted
+export const getTaskCalendar = (task: RawTask, getCalendar: (resourceNames: string[]) => WorkCalendar): WorkCalendar => {
+  return addInterruptions(getDurationCalendar(task, getCalendar), task.interruptions);
+}
+
+// Parses a whole number of working days ("10") or of elapsed calendar days ("10ed" or "10 ed").
+// The number is NaN when the text is anything else.
+export const parseDuration = (value: string): TaskDuration => {
+  const match = value.trim().match(/^(\d+)\s*(ed)?$/i);
+  if (!match) return { workingDuration: NaN };
+  return { workingDuration: Number(match[1]), elapsed: !!match[2] || undefined };
+}
+
+export const formatDuration = (task: TaskDuration): string => {
+  return task.elapsed ? `${task.workingDuration}ed` : String(task.workingDuration);
+}
+
+export const getDurationUnit = (task: TaskDuration): string => {
+  return task.elapsed ? 'calendar days' : 'working days';
+}
@@ -0,0 +1,129 @@
+import type { Dependency, RawTask, Task, WorkCalendar } from './types';
+import { countWorkingDays } from './calendar';
+import { differenceInPlainDays, maxPlainDate, minPlainDate } from './plain-date';
+import { rollupProgress } from './progress';
+
+// Ids of the tasks that have children. Summary tasks are not scheduled themselves; their dates roll up from their children.
+export const getSummaryIds = (tasks: RawTask[]): Set<string> => {
+  return new Set(tasks.map(t => t.parentId).filter((id): id is string => !!id));
+}
+
+export const getChildrenMap = <T extends RawTask>(tasks: T[]): Map<string, T[]> => {
+  const children = new Map<string, T[]>();
+  for (const task of tasks) {
+    if (!task.parentId) continue;
+    children.set(task.parentId, [...(children.get(task.parentId) ?? []), task]);
+  }
+  return children;
+}
+
+// Ids of the summary tasks above a task, closest first
+export const getAncestorIds = (task: RawTask, taskById: Map<string, RawTask>): string[] => {
+  const ancestors: string[] = [];
+  for (let parentId = task.parentId; parentId; parentId = taskById.get(parentId)?.parentId) {
+    if (ancestors.includes(parentId)) break;
+    ancestors.push(parentId);
+  }
+  return ancestors;
+}
+
+// The tasks without children below a task, or the task itself if it has none
+export const getLeafDescendants = <T extends RawTask>(task: T, childrenMap: Map<string, T[]>): T[] => {
+  const children = childrenMap.get(task.id);
+  if (!children) return [task];
+  return children.flatMap(child => getLeafDescendants(child, childrenMap));
+}
+
+// Checks that every parent exists, that no task is nested inside itself and that no task depends on its own summary or subtasks.
+export const validateHierarchy = (tasks: RawTask[]) => {
+  const taskById = new Map(tasks.map(t => [t.id, t]));
+
+  for (const task of tasks) {
+    if (task.parentId && !taskById.has(task.parentId)) {
+      throw new Error(`Parent '${task.parentId}' for task '${task.title}' not found.`);
+    }
+    if (getAncestorIds(task, taskById).includes(task.id)) {
+      throw new Error(`Task '${task.title}' cannot be nested inside itself.`);
+    }
+  }
+
+  for (const task of tasks) {
+    const ancestors = getAncestorIds(task, taskById);
+    for (const dependency of task.dependencies) {
+      const predecessor = taskById.get(dependency.predecessor);
+      if (!predecessor) continue;
+      if (ancestors.includes(predecessor.id) || getAncestorIds(predecessor, taskById).includes(task.id)) {
+        throw new Error(`Task '${task.title}' cannot depend on '${predecessor.title}' because one contains the other.`);
+      }
+    }
+  }
+}
+
+/**
+ * Returns the dependencies each leaf task is scheduled with: its own plus those of every summary task above it.
+ * Links to a summary task are replaced by the same link to each of its leaf tasks, so a successor of a phase
+ * waits for all of the phase's work.
+ */
+export const expandSummaryDependencies = (tasks: RawTask[]): Map<string, Dependency[]> => {
+  const taskById = new Map(tasks.map(t => [t.id, t]));
+  const childrenMap = getChildrenMap(tasks);
+
+  const expandPredecessor = (dependency: Dependency): Dependency[] => {
+    const predecessor = taskById.get(dependency.predecessor);
+    if (!predecessor || !childrenMap.has(predecessor.id)) return [dependency];
+    return getLeafDescendants(predecessor, childrenMap).map(leaf => ({ ...dependency, predecessor: leaf.id }));
+  };
+
+  const result = new Map<string, Dependency[]>();
+  for (const task of tasks) {
+    if (childrenMap.has(task.id)) continue;
+    const inherited = getAncestorIds(task, taskById).flatMap(id => taskById.get(id)?.dependencies ?? []);
+    result.set(task.id, [...task.dependencies, ...inherited].flatMap(expandPredecessor));
+  }
+  return result;
+}
+
+// Builds the summary tasks from their scheduled leaf tasks. Their dates span their children and their
+// duration counts the working days in between; resources and constraints on summary tasks are ignored.
+export const rollupSummaries = (tasks: RawTask[], scheduled: Task[], calendar: WorkCalendar): Task[] => {
+  const summaryIds = getSummaryIds(tasks);
+  const childrenMap = getChildrenMap<RawTask>(tasks);
+  const scheduledById = new Map(scheduled.map(t => [t.id, t]));
+
+  return tasks
+    .filter(task => summaryIds.has(task.id))
+    .map(task => {
+      const leaves = getLeafDescendants(task, childrenMap)
+        .map(leaf => scheduledById.get(leaf.id))
+        .filter((t): t is Task => !!t);
+      const startDate = minPlainDate(leaves.map(t => t.startDate));
+      const endDate = maxPlainDate(leaves.map(t => t.endDate));
+      return {
+        ...task,
+        startDate,
+        endDate,
+        workingDuration: countWorkingDays(startDate, endDate, calendar),
+        duration: differenceInPlainDays(endDate, startDate) + 1,
+        assignments: [],
+        constraint: undefined,
+        levelingDelay: 0,
+        isOverallocated: leaves.some(t => t.isOverallocated),
+        isSummary: true,
+        ...rollupProgress(leaves),
+      };
+    });
+}
+
+// Orders tasks so each summary task is followed by its children, keeping the given order among siblings.
+export const orderByHierarchy = <T extends RawTask>(tasks: T[]): T[] => {
+  const ids = new Set(tasks.map(t => t.id));
+  const childrenMap = getChildrenMap(tasks);
+  const visit = (task: T): T[] => [task, ...(childrenMap.get(task.id) ?? []).flatMap(visit)];
+  return tasks.filter(task => !task.parentId || !ids.has(task.parentId)).flatMap(visit);
+}
+
+// Nesting depth of each task, 0 for top-level tasks
+export const getOutlineDepths = (tasks: RawTask[]): Map<string, number> => {
+  const taskById = new Map(tasks.map(t => [t.id, t]));
+  return new Map(tasks.map(task => [task.id, getAncestorIds(task, taskById).length]));
+}
@@ -0,0 +1,138 @@
+import type { PlainDate, RawTask, Schedule, ScheduleChanges, ScheduleOptions, Task } from './types';
+import { scheduleProject } from './task-utils';
+import { expandSummaryDependencies, getChildrenMap, getLeafDescendants } from './hierarchy';
+import { DEFAULT_LEVELING_OPTIONS } from './leveling';
+import { isBackward } from './schedule-mode';
+import { DEFAULT_WORK_CALENDAR } from './calendar';
+import { expandRecurrences } from './recurrence';
+
+interface BookedPeriod {
+  resource: string;
+  startDate: PlainDate;
+  endDate: PlainDate;
+}
+
+// Compares scheduled values: arrays and objects (assignments, dependencies, constraints) field by field
+const isSameValue = (a: unknown, b: unknown): boolean => {
+  if (a === b) return true;
+  if (Array.isArray(a) && Array.isArray(b)) return a.length === b.length && a.every((value, index) => isSameValue(value, b[index]));
+  if (!a || !b || typeof a !== 'object' || typeof b !== 'object') return false;
+  const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+  return Array.from(keys).every(key => isSameValue((a as Record<string, unknown>)[key], (b as Record<string, unknown>)[key]));
+}
+
+// Periods a task keeps its resources busy. Milestones take no work, so they book nothing.
+const getBookedPeriods = (task: Task, startDate = task.startDate, endDate = task.endDate): BookedPeriod[] => {
+  if (task.workingDuration === 0) return [];
+  return task.assignments.map(a => ({ resource: a.resource, startDate, endDate }));
+}
+
+const overlaps = (a: BookedPeriod, b: BookedPeriod): boolean => {
+  return a.startDate <= b.endDate && a.endDate >= b.startDate;
+}
+
+/**
+ * Reschedules a project after some of its tasks changed, recomputing only the tasks the change can reach:
+ * the changed tasks, their successors (predecessors when scheduling backward) and, when leveling is on, tasks competing
+ * with them for a resource.
+ * changedIds lists the tasks that were added or edited, including tasks whose links were rewritten.
+ * Untouched tasks keep their places, so a change in float alone does not reorder tasks that were already leveled;
+ * a full schedule (as after changing the calendar, resources or leveling settings) does.
+ */
+export const rescheduleTasks = (
+  previous: Schedule,
+  rawTasks: RawTask[],
+  changedIds: Iterable<string>,
+  options: ScheduleOptions = {},
+): ScheduleChanges => {
+  const leveling = options.leveling ?? DEFAULT_LEVELING_OPTIONS;
+  const schedulesBackward = isBackward(options.mode);
+  // Occurrences of recurring tasks are added, changed and removed like any other task
+  rawTasks = expandRecurrences(rawTasks, options.calendar ?? DEFAULT_WORK_CALENDAR);
+  const previousTaskMap = new Map(previous.tasks.map(t => [t.id, t]));
+  const rawTaskMap = new Map(rawTasks.map(t => [t.id, t]));
+  const removedIds = previous.tasks.filter(t => !rawTaskMap.has(t.id)).map(t => t.id);
+
+  // A changed summary task changes the links of all the work below it
+  const childrenMap = getChildrenMap(rawTasks);
+  const changed = new Set([...changedIds, ...removedIds]);
+  for (const id of Array.from(changed)) {
+    const rawTask = rawTaskMap.get(id);
+    if (rawTask && childrenMap.has(id)) {
+      getLeafDescendants(rawTask, childrenMap).forEach(leaf => changed.add(leaf.id));
+    }
+  }
+  // As late as possible tasks depend on their successors and the project finish, so they are always recomputed
+  rawTasks.filter(t => t.constraint?.type === 'ALAP' && !childrenMap.has(t.id)).forEach(t => changed.add(t.id));
+
+  // A change moves the tasks placed after it: its successors, or its predecessors when scheduling backward
+  const followers = new Map<string, string[]>();
+  for (const [id, dependencies] of Array.from(expandSummaryDependencies(rawTasks))) {
+    for (const { predecessor } of dependencies) {
+      if (schedulesBackward) followers.set(id, [...(followers.get(id) ?? []), predecessor]);
+      else followers.set(predecessor, [...(followers.get(predecessor) ?? []), id]);
+    }
+  }
+  const withFollowers = (ids: Iterable<string>): Set<string> => {
+    const result = new Set(ids);
+    const stack = Array.from(result);
+    while (stack.length > 0) {
+      for (const follower of followers.get(stack.pop()!) ?? []) {
+        if (result.has(follower)) continue;
+        result.add(follower);
+        stack.push(follower);
+      }
+    }
+    return result;
+  };
+  // The days a task could take before leveling moved it: from its unleveled start, or back to its unleveled finish
+  const getLevelingPeriods = (task: Task, unleveled: Task | undefined): BookedPeriod[] => {
+    if (schedulesBackward) return getBookedPeriods(task, task.startDate, unleveled?.endDate);
+    return getBookedPeriods(task, unleveled?.startDate);
+  };
+
+  let affectedIds = withFollowers(changed);
+  while (true) {
+    const schedule = scheduleProject(rawTasks, options, { previous, affectedIds });
+    const taskMap = new Map(schedule.tasks.map(t => [t.id, t]));
+
+    // A kept task may have to move when a rescheduled task freed or took resource time it could use,
+    // between where it was before leveling and where it is now. Those tasks join in and the schedule is rerun.
+    const disturbedIds = new Set<string>();
+    if (leveling.enabled) {
+      const changedPeriods = new Map<string, BookedPeriod[]>();
+      const periods = Array.from(affectedIds).flatMap(id => {
+        const before = previousTaskMap.get(id);
+        const after = taskMap.get(id);
+        const unleveled = schedule.unleveledTasks.get(id);
+        return [
+          ...(before && !before.isSummary ? getBookedPeriods(before) : []),
+          ...(after && !after.isSummary ? getLevelingPeriods(after, unleveled) : []),
+        ];
+      });
+      for (const period of periods) {
+        changedPeriods.set(period.resource, [...(changedPeriods.get(period.resource) ?? []), period]);
+      }
+      for (const task of schedule.tasks) {
+        if (task.isSummary || affectedIds.has(task.id)) continue;
+        const isDisturbed = getLevelingPeriods(task, schedule.unleveledTasks.get(task.id))
+          .some(period => (changedPeriods.get(period.resource) ?? []).some(changedPeriod => overlaps(period, changedPeriod)));
+        if (isDisturbed) disturbedIds.add(task.id);
+      }
+    }
+
+    if (disturbedIds.size === 0) {
+      // Tasks that came out the same keep their previous objects, so the chart only redraws what moved
+      const tasks = schedule.tasks.map(task => {
+        const before = previousTaskMap.get(task.id);
+        return before && isSameValue(before, task) ? before : task;
+      });
+      return {
+        schedule: { ...schedule, tasks },
+        changedTasks: tasks.filter(task => task !== previousTaskMap.get(task.id)),
+        removedIds,
+      };
+    }
+    affectedIds = withFollowers([...Array.from(affectedIds), ...Array.from(disturbedIds)]);
+  }
+}
@@ -0,0 +1,77 @@
+import type { CalendarException, DateRange, PlainDate, Task, WorkCalendar } from './types';
+import { isWorkingDay } from './calendar';
+import { eachPlainDay, parsePlainDate } from './plain-date';
+
+// Calendars with a task's interruptions as days off, cached so their exception index is only built once
+const interruptedCalendars = new WeakMap<DateRange[], WeakMap<WorkCalendar, WorkCalendar>>();
+
+// The calendar a task is worked on: its resources' calendar without the days its work is interrupted
+export const addInterruptions = (calendar: WorkCalendar, interruptions: DateRange[] | undefined): WorkCalendar => {
+  if (!interruptions || interruptions.length === 0) return calendar;
+  let calendars = interruptedCalendars.get(interruptions);
+  if (!calendars) {
+    calendars = new WeakMap();
+    interruptedCalendars.set(interruptions, calendars);
+  }
+
+  let interruptedCalendar = calendars.get(calendar);
+  if (!interruptedCalendar) {
+    const exceptions = new Map<PlainDate, CalendarException>(calendar.exceptions.map(e => [e.date, e]));
+    for (const interruption of interruptions) {
+      for (const date of eachPlainDay(interruption.startDate, interruption.endDate)) {
+        exceptions.set(date, { date, name: 'Interrupted', isWorking: false });
+      }
+    }
+    interruptedCalendar = { workingDays: calendar.workingDays, exceptions: Array.from(exceptions.values()) };
+    calendars.set(calendar, interruptedCalendar);
+  }
+  return interruptedCalendar;
+}
+
+/**
+ * Splits the span of a task into the periods it is worked. A day its resources work but the task does not
+ * (an interruption) ends a period; weekends and holidays do not.
+ */
+export const getSegments = (startDate: PlainDate, endDate: PlainDate, resourceCalendar: WorkCalendar, taskCalendar: WorkCalendar): DateRange[] => {
+  const segments: DateRange[] = [];
+  let segment: DateRange | undefined;
+  for (const date of eachPlainDay(startDate, endDate)) {
+    if (isWorkingDay(date, taskCalendar)) {
+      if (segment) {
+        segment.endDate = date;
+      } else {
+        segment = { startDate: date, endDate: date };
+        segments.push(segment);
+      }
+    } else if (isWorkingDay(date, resourceCalendar)) {
+      segment = undefined;
+    }
+  }
+  return segments;
+}
+
+// The periods a task keeps its resources busy: its segments when it is split, otherwise its whole span
+export const getWorkPeriods = (task: Task): DateRange[] => {
+  return task.segments ?? [{ startDate: task.startDate, endDate: task.endDate }];
+}
+
+// Parses a semicolon-separated list of days or ranges such as "2024-08-12/2024-08-14;2024-08-20"
+export const parseInterruptions = (value: string | undefined): DateRange[] | undefined => {
+  if (!value?.trim()) return undefined;
+  return value.split(';').map(i => i.trim()).filter(Boolean).map(text => {
+    const [startStr, endStr = startStr, ...rest] = text.split('/').map(d => d.trim());
+    const startDate = parsePlainDate(startStr);
+    const endDate = parsePlainDate(endStr);
+    if (!startDate || !endDate || rest.length > 0) {
+      throw new Error(`Invalid interruption "${text}". Use YYYY-MM-DD or YYYY-MM-DD/YYYY-MM-DD.`);
+    }
+    if (endDate < startDate) {
+      throw new Error(`Interruption "${text}" ends before it starts.`);
+    }
+    return { startDate, endDate };
+  });
+}
+
+export const formatInterruptions = (interruptions: DateRange[]): string => {
+  return interruptions.map(i => i.startDate === i.endDate ? i.startDate : `${i.startDate}/${i.endDate}`).join(';');
+}
@@ -0,0 +1,197 @@
+import type { DateRange, LevelingOptions, PlainDate, RawTask, ResourceAssignment, ScheduleDirection, Task, WorkCalendar } from './types';
+import { addWorkingDays, isWorkingDay, nextWorkingDay, offsetWorkingDays, previousWorkingDay } from './calendar';
+import { addPlainDays, parsePlainDate } from './plain-date';
+import { splitCsvLine } from './csv-utils';
+import { getWorkPeriods } from './interruptions';
+
+export const DEFAULT_PRIORITY = 500;
+export const MAX_PRIORITY = 1000;
+
+export const DEFAULT_LEVELING_OPTIONS: LevelingOptions = { enabled: true };
+
+// A resource may be booked up to this many units (percent) on any one day
+export const FULL_UNITS = 100;
+
+// Units booked on each resource per day, keyed "resource|date", so checking a day does not go through every booking
+export type ResourceBookings = Map<string, number>;
+
+const getBookingKey = (resource: string, date: PlainDate): string => `${resource}|${date}`;
+
+const getBookedUnits = (resource: string, date: PlainDate, bookings: ResourceBookings): number => {
+  return bookings.get(getBookingKey(resource, date)) ?? 0;
+}
+
+const isAvailable = (date: PlainDate, assignments: ResourceAssignment[], bookings: ResourceBookings): boolean => {
+  return assignments.every(a => getBookedUnits(a.resource, date, bookings) + a.units <= FULL_UNITS);
+}
+
+// Books the task's resources on every day of the periods it is worked; milestones take no work, so they book nothing
+export const addTaskBookings = (bookings: ResourceBookings, task: Task): void => {
+  if (task.workingDuration === 0) return;
+  for (const period of getWorkPeriods(task)) {
+    for (let day = period.startDate; day <= period.endDate; day = addPlainDays(day, 1)) {
+      for (const assignment of task.assignments) {
+        const key = getBookingKey(assignment.resource, day);
+        bookings.set(key, (bookings.get(key) ?? 0) + assignment.units);
+      }
+    }
+  }
+}
+
+// Orders tasks competing for resources: higher priority first, then less total float, then id.
+// The order only depends on the tasks themselves, so reordering CSV rows never changes the schedule.
+export const compareLevelingOrder = (a: RawTask, b: RawTask, totalFloat: Map<string, number>): number => {
+  const priorityDifference = (b.priority ?? DEFAULT_PRIORITY) - (a.priority ?? DEFAULT_PRIORITY);
+  if (priorityDifference !== 0) return priorityDifference;
+
+  const floatDifference = (totalFloat.get(a.id) ?? 0) - (totalFloat.get(b.id) ?? 0);
+  if (floatDifference !== 0) return floatDifference;
+
+  return a.id < b.id ? -1 : a.id > b.id ? 1 : 0;
+}
+
+export const isInLevelingWindow = (date: PlainDate, options: LevelingOptions): boolean => {
+  if (options.windowStart && date < options.windowStart) return false;
+  if (options.windowEnd && date > options.windowEnd) return false;
+  return true;
+}
+
+// The working day after the given one, or before it when scheduling backward
+const stepWorkingDay = (date: PlainDate, direction: ScheduleDirection, calendar: WorkCalendar): PlainDate => {
+  return direction === 'backward'
+    ? previousWorkingDay(addPlainDays(date, -1), calendar)
+    : nextWorkingDay(addPlainDays(date, 1), calendar);
+}
+
+// Finds the first start date on or after startDate at which every assigned resource has enough
+// units left on each working day of the task, given their existing bookings.
+// Scheduling backward, it finds the last start date on or before startDate instead.
+export const findAvailableStart = (
+  startDate: PlainDate,
+  workingDuration: number,
+  assignments: ResourceAssignment[],
+  bookings: ResourceBookings,
+  calendar: WorkCalendar,
+  direction: ScheduleDirection = 'forward',
+): PlainDate => {
+  let candidate = startDate;
+  while (true) {
+    const endDate = addWorkingDays(candidate, workingDuration, calendar);
+    let conflictDate: PlainDate | undefined;
+    for (let day = candidate; day <= endDate && !conflictDate; day = addPlainDays(day, 1)) {
+      if (!isWorkingDay(day, calendar)) continue;
+      if (!isAvailable(day, assignments, bookings)) conflictDate = day;
+    }
+    if (!conflictDate) return candidate;
+    // Backward, the task has to finish before the conflict
+    candidate = direction === 'backward'
+      ? offsetWorkingDays(stepWorkingDay(conflictDate, direction, calendar), -(Math.max(1, workingDuration) - 1), calendar)
+      : stepWorkingDay(conflictDate, direction, calendar);
+  }
+}
+
+/**
+ * Places a task that may be split: it starts on the first working day from startDate its resources are free,
+ * then is worked on each working day they are free until its working days are done. Returns the start and
+ * the days in between it is paused for work already booked.
+ * Scheduling backward, date is the latest finish and the task is placed from there towards its start.
+ */
+export const findAvailableDays = (
+  date: PlainDate,
+  workingDuration: number,
+  assignments: ResourceAssignment[],
+  bookings: ResourceBookings,
+  calendar: WorkCalendar,
+  direction: ScheduleDirection = 'forward',
+): { startDate: PlainDate; pauses: DateRange[] } => {
+  const isBackward = direction === 'backward';
+  let first = isBackward ? previousWorkingDay(date, calendar) : nextWorkingDay(date, calendar);
+  while (!isAvailable(first, assignments, bookings)) first = stepWorkingDay(first, direction, calendar);
+
+  const pauses: DateRange[] = [];
+  let day = first;
+  for (let remainingDuration = workingDuration - 1; remainingDuration > 0;) {
+    const previousDay = day;
+    day = stepWorkingDay(day, direction, calendar);
+    const lastPause = pauses[pauses.length - 1];
+    if (isAvailable(day, assignments, bookings)) {
+      remainingDuration--;
+    } else if (lastPause && (isBackward ? lastPause.startDate : lastPause.endDate) === previousDay) {
+      // Consecutive working days off are one pause
+      if (isBackward) lastPause.startDate = day;
+      else lastPause.endDate = day;
+    } else {
+      pauses.push({ startDate: day, endDate: day });
+    }
+  }
+  return isBackward ? { startDate: day, pauses: pauses.reverse() } : { startDate: first, pauses };
+}
+
+// Marks tasks that have a resource booked beyond full time on any day the task is worked.
+// Milestones take no work, so they neither book resources nor get flagged.
+// When recheckIds is given, only those tasks are checked again and the others keep their flag.
+export const flagOverallocations = (
+  tasks: Task[],
+  getCalendar: (resourceNames: string[]) => WorkCalendar,
+  recheckIds?: Set<string>,
+): Task[] => {
+  const bookings: ResourceBookings = new Map();
+  tasks.forEach(task => addTaskBookings(bookings, task));
+
+  const isOverallocated = (task: Task): boolean => {
+    if (task.workingDuration === 0) return false;
+    const calendar = getCalendar(task.assignments.map(a => a.resource));
+    return getWorkPeriods(task).some(period => {
+      for (let day = period.startDate; day <= period.endDate; day = addPlainDays(day, 1)) {
+        if (!isWorkingDay(day, calendar)) continue;
+        if (task.assignments.some(a => getBookedUnits(a.resource, day, bookings) > FULL_UNITS)) return true;
+      }
+      return false;
+    });
+  };
+
+  return tasks.map(task => {
+    if (recheckIds && !recheckIds.has(task.id)) return task;
+    return { ...task, isOverallocated: isOverallocated(task) };
+  });
+}
+
+export const parsePriority = (value: string | undefined): number | undefined => {
+  if (!value?.trim()) return undefined;
+  const priority = Number(value.trim());
+  if (!Number.isInteger(priority) || priority < 0 || priority > MAX_PRIORITY) {
+    throw new Error(`Invalid priority "${value}". Must be a whole number from 0 to ${MAX_PRIORITY}.`);
+  }
+  return priority;
+}
+
+// CSV files carry the leveling settings as a directive line before the header, e.g.
+//   #leveling,on,2024-08-01,2024-09-30   (enabled, optional window start and end)
+//   #leveling,on,,,split                 (tasks may be split around work placed before them)
+//   #leveling,off
+export const isLevelingDirective = (line: string): boolean => {
+  return line.split(',')[0].trim() === '#leveling';
+}
+
+export const parseLevelingDirective = (line: string): LevelingOptions => {
+  const [, enabledStr = 'on', windowStartStr, windowEndStr, splitStr] = splitCsvLine(line);
+  const parseWindowDate = (value: string | undefined) => {
+    if (!value) return undefined;
+    const date = parsePlainDate(value);
+    if (!date) {
+      throw new Error(`Invalid date "${value}" in leveling directive. Use YYYY-MM-DD.`);
+    }
+    return date;
+  };
+  return {
+    enabled: enabledStr.toLowerCase() !== 'off',
+    windowStart: parseWindowDate(windowStartStr),
+    windowEnd: parseWindowDate(windowEndStr),
+    splitTasks: splitStr?.trim().toLowerCase() === 'split' || undefined,
+  };
+}
+
+export const formatLevelingDirective = (options: LevelingOptions): string => {
+  const directive = `#leveling,${options.enabled ? 'on' : 'off'},${options.windowStart ?? ''},${options.windowEnd ?? ''}`;
+  return options.splitTasks ? `${directive},split` : directive;
+}
@@ -0,0 +1,68 @@
+import { format } from 'date-fns';
+import type { PlainDate } from './types';
+
+// Plain dates are "yyyy-MM-dd" strings, so they sort and compare correctly as strings. Arithmetic goes through
+// day numbers in UTC, which has no daylight saving, so every day is exactly as long as the next.
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+const PLAIN_DATE_REGEX = /^\d{4}-\d{2}-\d{2}$/;
+
+// Days since 1970-01-01
+const toDayNumber = (date: PlainDate): number => {
+  return Date.UTC(Number(date.slice(0, 4)), Number(date.slice(5, 7)) - 1, Number(date.slice(8, 10))) / MS_PER_DAY;
+}
+
+const fromDayNumber = (dayNumber: number): PlainDate => {
+  return new Date(dayNumber * MS_PER_DAY).toISOString().slice(0, 10) as PlainDate;
+}
+
+// True for "yyyy-MM-dd" strings naming a day that exists, so "2024-02-30" is rejected
+export const isPlainDate = (value: string): value is PlainDate => {
+  return PLAIN_DATE_REGEX.test(value) && fromDayNumber(toDayNumber(value as PlainDate)) === value;
+}
+
+// Parses a "yyyy-MM-dd" value, returning undefined for anything else
+export const parsePlainDate = (value: string): PlainDate | undefined => {
+  const trimmed = value.trim();
+  return isPlainDate(trimmed) ? trimmed : undefined;
+}
+
+// The day a moment falls on in the viewer's timezone, e.g. a day picked in a calendar or today
+export const toPlainDate = (date: Date): PlainDate => format(date, 'yyyy-MM-dd') as PlainDate;
+
+export const today = (): PlainDate => toPlainDate(new Date());
+
+// Local midnight of the day, for date pickers and display; never for arithmetic
+export const toLocalDate = (date: PlainDate): Date => {
+  return new Date(Number(date.slice(0, 4)), Number(date.slice(5, 7)) - 1, Number(date.slice(8, 10)));
+}
+
+// Formats with a date-fns pattern, e.g. 'MMM d, yyyy'
+export const formatPlainDate = (date: PlainDate, pattern: string): string => format(toLocalDate(date), pattern);
+
+export const addPlainDays = (date: PlainDate, days: number): PlainDate => {
+  return days === 0 ? date : fromDayNumber(toDayNumber(date) + days);
+}
+
+// Calendar days from dateRight to dateLeft, negative when dateLeft is earlier
+export const differenceInPlainDays = (dateLeft: PlainDate, dateRight: PlainDate): number => {
+  return toDayNumber(dateLeft) - toDayNumber(dateRight);
+}
+
+// 0 is Sunday and 6 is Saturday, as with Date.getDay. 1970-01-01 was a Thursday.
+export const getPlainDayOfWeek = (date: PlainDate): number => {
+  return ((toDayNumber(date) % 7) + 11) % 7;
+}
+
+// Every day from start to end, inclusive of both; empty when end is before start
+export const eachPlainDay = (start: PlainDate, end: PlainDate): PlainDate[] => {
+  const days: PlainDate[] = [];
+  for (let day = start; day <= end; day = addPlainDays(day, 1)) days.push(day);
+  return days;
+}
+
+export const comparePlainDates = (a: PlainDate, b: PlainDate): number => (a < b ? -1 : a > b ? 1 : 0);
+
+export const maxPlainDate = (dates: PlainDate[]): PlainDate => dates.reduce((latest, date) => (date > latest ? date : latest));
+
+export const minPlainDate = (dates: PlainDate[]): PlainDate => dates.reduce((earliest, date) => (date < earliest ? date : earliest));
@@ -0,0 +1,71 @@
+import type { PlainDate, RawTask, Task } from './types';
+import { maxPlainDate, minPlainDate, parsePlainDate } from './plain-date';
+
+export type TaskProgress = Pick<RawTask, 'percentComplete' | 'actualStart' | 'actualFinish'>;
+
+// A finished task is complete whatever percentage was entered
+export const getPercentComplete = (task: TaskProgress): number => {
+  return task.actualFinish ? 100 : task.percentComplete ?? 0;
+}
+
+// Working days of the task done so far
+export const getCompletedWorkingDays = (task: Pick<Task, 'workingDuration'> & TaskProgress): number => {
+  return task.workingDuration * getPercentComplete(task) / 100;
+}
+
+export const hasProgress = (task: TaskProgress): boolean => {
+  return !!task.percentComplete || !!task.actualStart || !!task.actualFinish;
+}
+
+// Throws if the progress does not add up, e.g. a finish without a start
+export const validateProgress = (progress: TaskProgress): void => {
+  const { percentComplete, actualStart, actualFinish } = progress;
+  if (percentComplete !== undefined && (isNaN(percentComplete) || percentComplete < 0 || percentComplete > 100)) {
+    throw new Error(`Invalid percent complete "${percentComplete}". Must be from 0 to 100.`);
+  }
+  if (actualFinish && !actualStart) {
+    throw new Error('An actual finish needs an actual start.');
+  }
+  if (actualStart && actualFinish && actualFinish < actualStart) {
+    throw new Error('The actual finish cannot be before the actual start.');
+  }
+}
+
+const parseProgressDate = (value: string | undefined, column: string): PlainDate | undefined => {
+  if (!value?.trim()) return undefined;
+  const date = parsePlainDate(value);
+  if (!date) {
+    throw new Error(`Invalid ${column} "${value}". Use YYYY-MM-DD.`);
+  }
+  return date;
+}
+
+// Parses the percentComplete, actualStart and actualFinish columns; a percent sign is allowed
+export const parseProgress = (percentValue: string | undefined, actualStartValue: string | undefined, actualFinishValue: string | undefined): TaskProgress => {
+  const percentText = percentValue?.trim().replace(/%$/, '');
+  const progress = {
+    percentComplete: percentText ? Number(percentText) : undefined,
+    actualStart: parseProgressDate(actualStartValue, 'actualStart'),
+    actualFinish: parseProgressDate(actualFinishValue, 'actualFinish'),
+  };
+  validateProgress(progress);
+  return progress;
+}
+
+// Progress of a summary task: its leaves' percent complete weighted by their working days,
+// started when the first of them started and finished once all of them have
+export const rollupProgress = (leaves: Task[]): TaskProgress => {
+  const started = leaves.map(t => t.actualStart).filter((d): d is PlainDate => !!d);
+  const finished = leaves.map(t => t.actualFinish).filter((d): d is PlainDate => !!d);
+  const totalWorkingDays = leaves.reduce((sum, t) => sum + t.workingDuration, 0);
+  // Summaries of milestones only have no working days to weigh by, so each milestone counts the same
+  const percentComplete = totalWorkingDays > 0
+    ? leaves.reduce((sum, t) => sum + getCompletedWorkingDays(t), 0) / totalWorkingDays * 100
+    : leaves.reduce((sum, t) => sum + getPercentComplete(t), 0) / Math.max(1, leaves.length);
+
+  return {
+    percentComplete: Math.round(percentComplete),
+    actualStart: started.length > 0 ? minPlainDate(started) : undefined,
+    actualFinish: leaves.length > 0 && finished.length === leaves.length ? maxPlainDate(finished) : undefined,
+  };
+}
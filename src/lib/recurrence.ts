@@ -0,0 +1,192 @@
+import type { PlainDate, RawTask, Recurrence, RecurrenceFrequency, WorkCalendar } from './types';
+import { formatWorkingDays, nextWorkingDay, parseWorkingDays, validateWorkCalendar } from './calendar';
+import { addPlainDays, getPlainDayOfWeek, parsePlainDate } from './plain-date';
+
+// A series is cut off here, so a typo in its end cannot flood the plan with tasks
+export const MAX_OCCURRENCES = 1000;
+
+// Matches e.g. "every week on Mon;Wed until 2025-06-30", "every 2 days, 10 times" or "every month on day 15, 6 times"
+const RECURRENCE_REGEX = /^every\s+(?:(\d+)\s+)?(day|week|month)s?(?:\s+on\s+(.+?))?\s*,?\s+(?:until\s+(\S+)|(\d+)\s+times?)$/i;
+
+// Occurrences of a series have the series id with their number, e.g. "Status review#3"
+export const getOccurrenceId = (seriesId: string, occurrence: number): string => `${seriesId}#${occurrence}`;
+
+// The id an occurrence takes when its series is renamed, or undefined if the id is not an occurrence's of the series
+export const renameOccurrenceId = (id: string, oldSeriesId: string, newSeriesId: string): string | undefined => {
+  return id.startsWith(`${oldSeriesId}#`) ? newSeriesId + id.slice(oldSeriesId.length) : undefined;
+}
+
+export const validateRecurrence = (recurrence: Recurrence): void => {
+  const { interval, weekdays, dayOfMonth, until, count } = recurrence;
+  if (!Number.isInteger(interval) || interval < 1) {
+    throw new Error(`Invalid recurrence interval "${interval}". Repeat every 1 or more ${recurrence.frequency}s.`);
+  }
+  if (weekdays && weekdays.length === 0) {
+    throw new Error('A weekly recurrence must fall on at least one day of the week.');
+  }
+  if (dayOfMonth !== undefined && (!Number.isInteger(dayOfMonth) || dayOfMonth < 1 || dayOfMonth > 31)) {
+    throw new Error(`Invalid day of the month "${dayOfMonth}". Use 1 to 31.`);
+  }
+  if (!until === (count === undefined)) {
+    throw new Error('A recurrence must end either on a date or after a number of occurrences.');
+  }
+  if (count !== undefined && (!Number.isInteger(count) || count < 1 || count > MAX_OCCURRENCES)) {
+    throw new Error(`Invalid number of occurrences "${count}". Use 1 to ${MAX_OCCURRENCES}.`);
+  }
+}
+
+// Parses the text form of a recurrence, as used by the CSV and the manual entry worksheet. Empty text is no recurrence.
+export const parseRecurrence = (value: string | undefined): Recurrence | undefined => {
+  if (!value?.trim()) return undefined;
+  const match = value.trim().match(RECURRENCE_REGEX);
+  if (!match) {
+    throw new Error(`Invalid recurrence "${value.trim()}". Use e.g. "every 2 weeks on Mon;Wed until 2025-06-30" or "every month on day 15, 6 times".`);
+  }
+
+  const [, intervalStr, frequencyStr, on, untilStr, countStr] = match;
+  const frequency = frequencyStr.toLowerCase() as RecurrenceFrequency;
+  const recurrence: Recurrence = { frequency, interval: intervalStr ? parseInt(intervalStr, 10) : 1 };
+
+  if (on && frequency === 'week') {
+    recurrence.weekdays = parseWorkingDays(on);
+  } else if (on && frequency === 'month') {
+    const dayMatch = on.match(/^day\s+(\d+)$/i);
+    if (!dayMatch) {
+      throw new Error(`Invalid day of the month "${on}". Use e.g. "on day 15".`);
+    }
+    recurrence.dayOfMonth = parseInt(dayMatch[1], 10);
+  } else if (on) {
+    throw new Error(`A daily recurrence cannot be on "${on}".`);
+  }
+
+  if (untilStr) {
+    const until = parsePlainDate(untilStr);
+    if (!until) {
+      throw new Error(`Invalid recurrence end date "${untilStr}". Use YYYY-MM-DD.`);
+    }
+    recurrence.until = until;
+  } else {
+    recurrence.count = parseInt(countStr, 10);
+  }
+
+  validateRecurrence(recurrence);
+  return recurrence;
+}
+
+export const formatRecurrence = (recurrence: Recurrence): string => {
+  const { frequency, interval, weekdays, dayOfMonth, until, count } = recurrence;
+  const every = interval === 1 ? frequency : `${interval} ${frequency}s`;
+  const on = weekdays ? ` on ${formatWorkingDays(weekdays)}` : dayOfMonth ? ` on day ${dayOfMonth}` : '';
+  const end = until ? ` until ${until}` : `, ${count} ${count === 1 ? 'time' : 'times'}`;
+  return `every ${every}${on}${end}`;
+}
+
+// "yyyy-MM" of a month counted since year 0
+const formatMonth = (months: number): string => `${Math.floor(months / 12)}-${String(months % 12 + 1).padStart(2, '0')}`;
+
+// The given day of a month counted from the start date's month, or the month's last day when it is shorter
+const getDayOfMonth = (startDate: PlainDate, monthOffset: number, dayOfMonth: number): PlainDate => {
+  const months = Number(startDate.slice(0, 4)) * 12 + Number(startDate.slice(5, 7)) - 1 + monthOffset;
+  const lastDay = Number(addPlainDays(`${formatMonth(months + 1)}-01` as PlainDate, -1).slice(8));
+  return `${formatMonth(months)}-${String(Math.min(dayOfMonth, lastDay)).padStart(2, '0')}` as PlainDate;
+}
+
+// The dates the rule gives on or after the start date, in order and without end
+function* generateDates(startDate: PlainDate, recurrence: Recurrence): Generator<PlainDate> {
+  const { frequency, interval } = recurrence;
+  for (let period = 0; ; period += interval) {
+    if (frequency === 'day') {
+      yield addPlainDays(startDate, period);
+    } else if (frequency === 'week') {
+      const weekStart = addPlainDays(startDate, 7 * period - getPlainDayOfWeek(startDate));
+      for (const weekday of recurrence.weekdays ?? [getPlainDayOfWeek(startDate)]) {
+        const date = addPlainDays(weekStart, weekday);
+        if (date >= startDate) yield date;
+      }
+    } else {
+      const date = getDayOfMonth(startDate, period, recurrence.dayOfMonth ?? Number(startDate.slice(8)));
+      if (date >= startDate) yield date;
+    }
+  }
+}
+
+// A series that ends before its first date has no occurrences, and would otherwise be scheduled as a one-off task
+export const validateSeriesDates = (title: string, startDate: PlainDate, recurrence: Recurrence): void => {
+  const firstDate: PlainDate = generateDates(startDate, recurrence).next().value;
+  if (recurrence.until && firstDate > recurrence.until) {
+    throw new Error(`Recurring task "${title}" has no occurrences: it first falls on ${firstDate}, after its recurrence ends on ${recurrence.until}.`);
+  }
+}
+
+/**
+ * Returns the start dates of a series' occurrences. A date that is not a working day on the calendar moves to
+ * the next working day; an occurrence moved onto or past the following one's day is left out.
+ */
+export const getOccurrenceDates = (startDate: PlainDate, recurrence: Recurrence, calendar: WorkCalendar): PlainDate[] => {
+  const dates: PlainDate[] = [];
+  for (const date of generateDates(startDate, recurrence)) {
+    if ((recurrence.until && date > recurrence.until) || dates.length === recurrence.count) break;
+    const workingDate = nextWorkingDay(date, calendar);
+    if (dates.length > 0 && workingDate <= dates[dates.length - 1]) continue;
+    if (dates.length === MAX_OCCURRENCES) {
+      throw new Error(`A recurrence cannot have more than ${MAX_OCCURRENCES} occurrences.`);
+    }
+    dates.push(workingDate);
+  }
+  return dates;
+}
+
+/**
+ * Adds the occurrences of every recurring task as its subtasks. Each takes the series' duration, work, resources,
+ * priority and estimates, and waits for the series' dependencies like any subtask.
+ * Occurrences are linked through the series they are grouped under, not to each other: each keeps its own date,
+ * so one that runs late does not move the next.
+ * An occurrence that was edited on its own is already in the list under its id and is kept as it is.
+ */
+export const expandRecurrences = (rawTasks: RawTask[], calendar: WorkCalendar): RawTask[] => {
+  if (!rawTasks.some(t => t.recurrence)) return rawTasks;
+  validateWorkCalendar(calendar);
+
+  const taskById = new Map(rawTasks.map(t => [t.id, t]));
+  const editedSeriesIds = new Map<string, string>();
+  const occurrences: RawTask[] = [];
+  for (const series of rawTasks) {
+    if (!series.recurrence) continue;
+    validateSeriesDates(series.title, series.startDate, series.recurrence);
+    getOccurrenceDates(series.startDate, series.recurrence, calendar).forEach((startDate, index) => {
+      const id = getOccurrenceId(series.id, index + 1);
+      if (taskById.get(id)?.parentId === series.id) {
+        editedSeriesIds.set(id, series.id);
+        return;
+      }
+      occurrences.push({
+        id,
+        title: `${series.title} #${index + 1}`,
+        startDate,
+        workingDuration: series.workingDuration,
+        elapsed: series.elapsed,
+        work: series.work,
+        taskType: series.taskType,
+        dependencies: [],
+        assignments: series.assignments,
+        priority: series.priority,
+        parentId: series.id,
+        optimisticDuration: series.optimisticDuration,
+        pessimisticDuration: series.pessimisticDuration,
+        seriesId: series.id,
+      });
+    });
+  }
+
+  return [
+    ...rawTasks.map(task => editedSeriesIds.has(task.id) && !task.seriesId ? { ...task, seriesId: editedSeriesIds.get(task.id) } : task),
+    ...occurrences,
+  ];
+}
+
+// An occurrence edited on its own joins the plan as a task of its own, which takes the generated one's place from then on
+export const detachOccurrence = (rawTasks: RawTask[], taskId: string, calendar: WorkCalendar): RawTask[] => {
+  if (rawTasks.some(t => t.id === taskId)) return rawTasks;
+  const occurrence = expandRecurrences(rawTasks, calendar).find(t => t.id === taskId);
+  return occurrence ? [...rawTasks, occurrence] : rawTasks;
+}
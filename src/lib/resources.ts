@@ -0,0 +1,171 @@
+import type { CalendarException, PlainDate, Resource, ResourceAssignment, WorkCalendar } from './types';
+import { formatWorkingDays, intersectCalendars, parseWorkingDays } from './calendar';
+import { eachPlainDay, parsePlainDate } from './plain-date';
+import { escapeCsvValue, splitCsvLine } from './csv-utils';
+
+export const createResource = (name: string): Resource => ({ name, vacations: [] });
+
+// Builds the effective calendar of a resource: its own working week (or the project's),
+// the project's holidays and exceptions, and its vacation days on top.
+export const getResourceCalendar = (resource: Resource, projectCalendar: WorkCalendar): WorkCalendar => {
+  const exceptions = new Map<PlainDate, CalendarException>(projectCalendar.exceptions.map(e => [e.date, e]));
+
+  for (const vacation of resource.vacations) {
+    for (const date of eachPlainDay(vacation.startDate, vacation.endDate)) {
+      exceptions.set(date, { date, name: vacation.name || `${resource.name} away`, isWorking: false });
+    }
+  }
+
+  return {
+    workingDays: resource.workingDays ?? projectCalendar.workingDays,
+    exceptions: Array.from(exceptions.values()),
+  };
+}
+
+// Returns a lookup from the resources assigned to a task to the calendar it is worked on.
+// Unknown resources use the project calendar, unassigned tasks too. A task with several
+// resources is only worked on days all of them are available.
+export const createCalendarResolver = (projectCalendar: WorkCalendar, resources: Resource[] = []) => {
+  const calendars = new Map<string, WorkCalendar>();
+  for (const resource of resources) {
+    const calendar = getResourceCalendar(resource, projectCalendar);
+    if (calendar.workingDays.length === 0) {
+      throw new Error(`Resource '${resource.name}' must have at least one working day per week.`);
+    }
+    calendars.set(resource.name, calendar);
+  }
+
+  // Combined calendars are cached so their exception index is only built once
+  const combined = new Map<string, WorkCalendar>();
+  return (resourceNames: string[] = []): WorkCalendar => {
+    const names = Array.from(new Set(resourceNames)).filter(name => calendars.has(name)).sort();
+    if (names.length === 0) return projectCalendar;
+    if (names.length === 1) return calendars.get(names[0])!;
+
+    const key = names.join('\n');
+    let calendar = combined.get(key);
+    if (!calendar) {
+      calendar = intersectCalendars(names.map(name => calendars.get(name)!));
+      if (calendar.workingDays.length === 0) {
+        throw new Error(`Resources ${names.map(n => `'${n}'`).join(', ')} have no working days in common.`);
+      }
+      combined.set(key, calendar);
+    }
+    return calendar;
+  };
+}
+
+export const getAssignedResources = (task: { assignments: ResourceAssignment[] }): string[] => {
+  return task.assignments.map(a => a.resource);
+}
+
+// Parses a semicolon-separated list of assignments such as "Alice:50%;Bob". Units default to 100%.
+export const parseAssignments = (value: string | undefined): ResourceAssignment[] => {
+  if (!value?.trim()) return [];
+  const assignments = value.split(';').map(a => a.trim()).filter(Boolean).map(text => {
+    const match = text.match(/^(.*?)\s*:\s*(\d+(?:\.\d+)?)\s*%?$/);
+    if (!match) return { resource: text, units: 100 };
+    const units = parseFloat(match[2]);
+    if (units <= 0 || units > 100) {
+      throw new Error(`Invalid allocation "${text}". Units must be greater than 0% and at most 100%.`);
+    }
+    return { resource: match[1], units };
+  });
+
+  const names = new Set<string>();
+  for (const assignment of assignments) {
+    if (names.has(assignment.resource)) {
+      throw new Error(`Resource '${assignment.resource}' is assigned more than once.`);
+    }
+    names.add(assignment.resource);
+  }
+  return assignments;
+}
+
+export const formatAssignment = (assignment: ResourceAssignment): string => {
+  return assignment.units === 100 ? assignment.resource : `${assignment.resource}:${assignment.units}%`;
+}
+
+export const formatAssignments = (assignments: ResourceAssignment[]): string => {
+  return assignments.map(formatAssignment).join(';');
+}
+
+// CSV files carry resource calendars as directive lines before the header, e.g.
+//   #resource,Alice,Mon;Tue;Wed;Thu,2024-08-01   (name, working days or empty for the project week, join date)
+//   #vacation,Alice,2024-08-12,2024-08-16,Summer Holiday
+//   #rate,Alice,480,720,50                      (cost per day, per day of overtime and per use; any may be empty)
+const RESOURCE_DIRECTIVES = ['#resource', '#vacation', '#rate'];
+
+export const isResourceDirective = (line: string): boolean => {
+  const directive = line.split(',')[0].trim();
+  return RESOURCE_DIRECTIVES.includes(directive);
+}
+
+const parseDirectiveDate = (value: string, directive: string): PlainDate => {
+  const date = parsePlainDate(value);
+  if (!date) {
+    throw new Error(`Invalid date "${value}" in ${directive.slice(1)} directive. Use YYYY-MM-DD.`);
+  }
+  return date;
+}
+
+const parseDirectiveRate = (value: string | undefined, directive: string): number | undefined => {
+  const text = value?.trim().replace(/,/g, '');
+  if (!text) return undefined;
+  const rate = Number(text);
+  if (isNaN(rate) || rate < 0) {
+    throw new Error(`Invalid amount "${value}" in ${directive.slice(1)} directive. Must be a number of at least 0.`);
+  }
+  return rate;
+}
+
+// Applies a resource directive line and returns the updated resource list.
+export const applyResourceDirective = (line: string, resources: Resource[]): Resource[] => {
+  const [directive, name, ...values] = splitCsvLine(line);
+  if (!name) {
+    throw new Error(`Missing resource name in ${directive.slice(1)} directive.`);
+  }
+  const existing = resources.find(r => r.name === name) ?? createResource(name);
+  let resource: Resource;
+
+  if (directive === '#resource') {
+    const [workingDaysStr, startDateStr] = values;
+    resource = {
+      ...existing,
+      workingDays: workingDaysStr ? parseWorkingDays(workingDaysStr) : undefined,
+      startDate: startDateStr ? parseDirectiveDate(startDateStr, directive) : undefined,
+    };
+  } else if (directive === '#rate') {
+    const [rateStr, overtimeRateStr, costPerUseStr] = values;
+    resource = {
+      ...existing,
+      rate: parseDirectiveRate(rateStr, directive),
+      overtimeRate: parseDirectiveRate(overtimeRateStr, directive),
+      costPerUse: parseDirectiveRate(costPerUseStr, directive),
+    };
+  } else {
+    const [startDateStr = '', endDateStr, ...nameParts] = values;
+    const startDate = parseDirectiveDate(startDateStr, directive);
+    const endDate = endDateStr ? parseDirectiveDate(endDateStr, directive) : startDate;
+    resource = { ...existing, vacations: [...existing.vacations, { startDate, endDate, name: nameParts.join(',') }] };
+  }
+
+  return [...resources.filter(r => r.name !== name), resource];
+}
+
+export const formatResourceDirectives = (resources: Resource[]): string[] => {
+  const lines: string[] = [];
+  for (const resource of resources) {
+    const workingDays = resource.workingDays ? formatWorkingDays(resource.workingDays) : '';
+    const startDate = resource.startDate ?? '';
+    lines.push(`#resource,${escapeCsvValue(resource.name)},${workingDays},${startDate}`);
+    if (resource.rate !== undefined || resource.overtimeRate !== undefined || resource.costPerUse !== undefined) {
+      lines.push(`#rate,${escapeCsvValue(resource.name)},${resource.rate ?? ''},${resource.overtimeRate ?? ''},${resource.costPerUse ?? ''}`);
+    }
+    for (const vacation of resource.vacations) {
+      const name = vacation.name ? escapeCsvValue(vacation.name) : '';
+      lines.push(`#vacation,${escapeCsvValue(resource.name)},${vacation.startDate},${vacation.endDate},${name}`);
+    }
+  }
+  return lines;
+}
@@ -0,0 +1,184 @@
+import type { PlainDate, RawTask, ScheduleOptions, Task } from './types';
+import { addPlainDays, comparePlainDates, differenceInPlainDays, maxPlainDate } from './plain-date';
+import { isMilestone, processTasks } from './task-utils';
+import { analyzeCriticalPath } from './critical-path';
+import { DEFAULT_WORK_CALENDAR } from './calendar';
+import { expandRecurrences } from './recurrence';
+
+export type DurationEstimate = Pick<RawTask, 'optimisticDuration' | 'pessimisticDuration'>;
+
+export interface SimulationSettings {
+  iterations: number;
+  seed: number; // the same seed and plan give the same results
+}
+
+export const DEFAULT_SIMULATION_SETTINGS: SimulationSettings = { iterations: 500, seed: 1 };
+export const MAX_ITERATIONS = 10000;
+
+// Finish dates of the plan as scheduled and at the given confidence levels
+export interface FinishDistribution {
+  planned: PlainDate;
+  p50: PlainDate;
+  p80: PlainDate;
+  p90: PlainDate;
+}
+
+export interface HistogramBin {
+  date: PlainDate; // first day of the bin
+  count: number; // iterations finishing in the bin
+  cumulative: number; // share of iterations finishing by the end of the bin, 0-1
+}
+
+export interface SimulationResult {
+  settings: SimulationSettings;
+  project: FinishDistribution;
+  milestones: { id: string; title: string; finish: FinishDistribution }[];
+  criticality: Map<string, number>; // share of iterations each leaf task was critical in, 0-1
+  histogram: HistogramBin[]; // of project finish dates
+}
+
+// The histogram has at most about this many bars, a day or more wide
+const MAX_HISTOGRAM_BINS = 40;
+
+export const hasEstimate = (task: DurationEstimate): boolean => {
+  return task.optimisticDuration !== undefined || task.pessimisticDuration !== undefined;
+}
+
+// A missing bound means the duration cannot go that way, e.g. only a pessimistic estimate for a task that can only slip
+export const getEstimateRange = (task: RawTask): [number, number, number] => {
+  return [task.optimisticDuration ?? task.workingDuration, task.workingDuration, task.pessimisticDuration ?? task.workingDuration];
+}
+
+// Throws unless optimistic <= most likely <= pessimistic; milestones have no duration to estimate
+export const validateEstimate = (task: Pick<RawTask, 'workingDuration'> & DurationEstimate): void => {
+  if (!hasEstimate(task)) return;
+  if (task.workingDuration === 0) {
+    throw new Error('Milestones cannot have optimistic or pessimistic durations.');
+  }
+  const { optimisticDuration = task.workingDuration, pessimisticDuration = task.workingDuration } = task;
+  if (optimisticDuration < 1 || optimisticDuration > task.workingDuration || pessimisticDuration < task.workingDuration) {
+    throw new Error('Durations must run from optimistic (at least 1) through most likely to pessimistic.');
+  }
+}
+
+// Parses the optimisticDuration and pessimisticDuration columns against the task's (most likely) duration
+export const parseEstimate = (optimisticValue: string | undefined, pessimisticValue: string | undefined, workingDuration: number): DurationEstimate => {
+  const parseDays = (value: string | undefined, column: string) => {
+    if (!value?.trim()) return undefined;
+    const days = Number(value.trim());
+    if (!Number.isInteger(days) || days < 0) {
+      throw new Error(`Invalid ${column} "${value}". Must be a whole number of working days.`);
+    }
+    return days;
+  };
+  const estimate = {
+    optimisticDuration: parseDays(optimisticValue, 'optimisticDuration'),
+    pessimisticDuration: parseDays(pessimisticValue, 'pessimisticDuration'),
+  };
+  validateEstimate({ ...estimate, workingDuration });
+  return estimate;
+}
+
+// Mulberry32: a small, fast generator that is good enough for sampling and repeatable from its seed
+const createRandom = (seed: number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// Inverse transform sample of the triangular distribution, rounded to whole working days
+const sampleTriangular = ([low, mode, high]: [number, number, number], random: () => number): number => {
+  if (high === low) return mode;
+  const u = random();
+  const cut = (mode - low) / (high - low);
+  const value = u < cut
+    ? low + Math.sqrt(u * (high - low) * (mode - low))
+    : high - Math.sqrt((1 - u) * (high - low) * (high - mode));
+  return Math.max(1, Math.round(value));
+}
+
+// Nearest-rank percentile of dates sorted ascending
+const percentile = (sortedDates: PlainDate[], p: number): PlainDate => {
+  return sortedDates[Math.max(0, Math.ceil(p * sortedDates.length) - 1)];
+}
+
+const getDistribution = (planned: PlainDate, finishes: PlainDate[]): FinishDistribution => {
+  const sorted = [...finishes].sort(comparePlainDates);
+  return { planned, p50: percentile(sorted, 0.5), p80: percentile(sorted, 0.8), p90: percentile(sorted, 0.9) };
+}
+
+const getHistogram = (finishes: PlainDate[]): HistogramBin[] => {
+  const sorted = [...finishes].sort(comparePlainDates);
+  const first = sorted[0];
+  const spanDays = differenceInPlainDays(sorted[sorted.length - 1], first) + 1;
+  const binDays = Math.ceil(spanDays / MAX_HISTOGRAM_BINS);
+  const counts = new Array(Math.ceil(spanDays / binDays)).fill(0);
+  sorted.forEach(date => counts[Math.floor(differenceInPlainDays(date, first) / binDays)]++);
+
+  let finishedSoFar = 0;
+  return counts.map((count, index) => {
+    finishedSoFar += count;
+    return { date: addPlainDays(first, index * binDays), count, cumulative: finishedSoFar / sorted.length };
+  });
+}
+
+const getProjectFinish = (tasks: Task[]): PlainDate => maxPlainDate(tasks.map(t => t.endDate));
+
+/**
+ * Schedules the project many times with each estimated task's duration drawn from a triangular distribution
+ * between its optimistic and pessimistic durations, peaking at its most likely one. Tasks that have finished
+ * keep their actual dates. Resource leveling and constraints apply in every iteration, as in the plan itself.
+ * onProgress is called after each iteration.
+ */
+export const simulateSchedule = (
+  rawTasks: RawTask[],
+  options: ScheduleOptions,
+  settings: SimulationSettings = DEFAULT_SIMULATION_SETTINGS,
+  onProgress?: (iterations: number, totalIterations: number) => void,
+): SimulationResult => {
+  if (!Number.isInteger(settings.iterations) || settings.iterations < 1 || settings.iterations > MAX_ITERATIONS) {
+    throw new Error(`Iterations must be a whole number from 1 to ${MAX_ITERATIONS}.`);
+  }
+  // Progress is reported per iteration, not per task scheduled
+  const scheduleOptions = { ...options, onProgress: undefined };
+  // Each occurrence of a recurring task takes its own draw
+  rawTasks = expandRecurrences(rawTasks, options.calendar ?? DEFAULT_WORK_CALENDAR);
+  const random = createRandom(settings.seed);
+  const plannedTasks = processTasks(rawTasks, scheduleOptions);
+  const milestones = plannedTasks.filter(task => !task.isSummary && isMilestone(task));
+  const variedTasks = rawTasks.filter(task => hasEstimate(task) && !task.actualFinish && !task.recurrence);
+  const ranges = new Map(variedTasks.map(task => [task.id, getEstimateRange(task)]));
+
+  const projectFinishes: PlainDate[] = [];
+  const milestoneFinishes = new Map<string, PlainDate[]>(milestones.map(m => [m.id, []]));
+  const criticalCounts = new Map<string, number>();
+
+  for (let iteration = 1; iteration <= settings.iterations; iteration++) {
+    const sampledTasks = ranges.size === 0 ? rawTasks : rawTasks.map(task => {
+      const range = ranges.get(task.id);
+      return range ? { ...task, workingDuration: sampleTriangular(range, random) } : task;
+    });
+    const tasks = processTasks(sampledTasks, scheduleOptions);
+
+    projectFinishes.push(getProjectFinish(tasks));
+    tasks.forEach(task => milestoneFinishes.get(task.id)?.push(task.endDate));
+    analyzeCriticalPath(tasks, scheduleOptions).forEach((info, id) => {
+      if (info.isCritical) criticalCounts.set(id, (criticalCounts.get(id) ?? 0) + 1);
+    });
+    onProgress?.(iteration, settings.iterations);
+  }
+
+  const leafIds = plannedTasks.filter(task => !task.isSummary).map(task => task.id);
+  return {
+    settings,
+    project: getDistribution(getProjectFinish(plannedTasks), projectFinishes),
+    milestones: milestones.map(m => ({ id: m.id, title: m.title, finish: getDistribution(m.endDate, milestoneFinishes.get(m.id)!) })),
+    criticality: new Map(leafIds.map(id => [id, (criticalCounts.get(id) ?? 0) / settings.iterations])),
+    histogram: getHistogram(projectFinishes),
+  };
+}
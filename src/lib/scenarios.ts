@@ -0,0 +1,90 @@
+import type { PlainDate, ProjectPlan, Scenario, Task, WorkCalendar } from './types';
+import { differenceInWorkingDays } from './calendar';
+import { maxPlainDate, today } from './plain-date';
+import { getAssignedResources } from './resources';
+import { isMilestone } from './task-utils';
+
+// The plan as loaded or created; other scenarios branch from it or from each other
+export const MAIN_SCENARIO = 'Main plan';
+
+// One date compared between two scenarios; either side is missing when the other scenario has no such task or resource
+export interface DateComparison {
+  first?: PlainDate;
+  second?: PlainDate;
+  difference?: number; // working days, positive when the second scenario is later
+}
+
+export interface ScenarioComparison {
+  project: DateComparison;
+  milestones: ({ id: string; title: string } & DateComparison)[];
+  resources: ({ name: string } & DateComparison)[]; // when each resource finishes its last task
+}
+
+// Tasks are replaced rather than changed in place when edited, so a branch can share them with the plan it came from
+export const createScenario = (name: string, plan: ProjectPlan, basedOn?: string, createdAt: PlainDate = today()): Scenario => ({
+  name,
+  createdAt,
+  basedOn,
+  plan: { ...plan, rawTasks: [...plan.rawTasks], resources: [...plan.resources] },
+});
+
+// Throws unless the name is non-empty and not taken by another scenario
+export const validateScenarioName = (name: string, scenarios: Scenario[]): void => {
+  if (!name.trim()) {
+    throw new Error('Scenario name cannot be empty.');
+  }
+  if (scenarios.some(s => s.name === name.trim())) {
+    throw new Error(`A scenario named "${name.trim()}" already exists.`);
+  }
+}
+
+const getProjectFinish = (tasks: Task[]): PlainDate | undefined => {
+  return tasks.length > 0 ? maxPlainDate(tasks.map(t => t.endDate)) : undefined;
+}
+
+// End date of each resource's last assigned leaf task
+const getResourceFinishes = (tasks: Task[]): Map<string, PlainDate> => {
+  const finishes = new Map<string, PlainDate>();
+  tasks.filter(task => !task.isSummary).forEach(task => {
+    getAssignedResources(task).forEach(name => {
+      const finish = finishes.get(name);
+      if (!finish || task.endDate > finish) finishes.set(name, task.endDate);
+    });
+  });
+  return finishes;
+}
+
+const compareDates = (first: PlainDate | undefined, second: PlainDate | undefined, calendar: WorkCalendar): DateComparison => ({
+  first,
+  second,
+  difference: first && second ? differenceInWorkingDays(second, first, calendar) : undefined,
+});
+
+/**
+ * Compares the finish dates of two scheduled scenarios: the project, each milestone matched by id and each
+ * resource's last day of work. Differences are counted on the first scenario's project calendar.
+ */
+export const compareSchedules = (first: Task[], second: Task[], calendar: WorkCalendar): ScenarioComparison => {
+  const firstMilestones = first.filter(t => !t.isSummary && isMilestone(t));
+  const secondMilestones = new Map(second.filter(t => !t.isSummary && isMilestone(t)).map(t => [t.id, t]));
+  const firstMilestoneIds = new Set(firstMilestones.map(t => t.id));
+  // Milestones in the first scenario's order, then those only the second one has
+  const milestones = [...firstMilestones, ...Array.from(secondMilestones.values()).filter(t => !firstMilestoneIds.has(t.id))];
+
+  const firstResources = getResourceFinishes(first);
+  const secondResources = getResourceFinishes(second);
+  const resourceNames = Array.from(new Set([...firstResources.keys(), ...secondResources.keys()])).sort();
+
+  return {
+    project: compareDates(getProjectFinish(first), getProjectFinish(second), calendar),
+    milestones: milestones.map(milestone => ({
+      id: milestone.id,
+      title: milestone.title,
+      ...compareDates(firstMilestoneIds.has(milestone.id) ? milestone.endDate : undefined, secondMilestones.get(milestone.id)?.endDate, calendar),
+    })),
+    resources: resourceNames.map(name => ({
+      name,
+      ...compareDates(firstResources.get(name), secondResources.get(name), calendar),
+    })),
+  };
+}
@@ -0,0 +1,39 @@
+import type { ScheduleMode } from './types';
+import { parsePlainDate } from './plain-date';
+import { splitCsvLine } from './csv-utils';
+
+export const DEFAULT_SCHEDULE_MODE: ScheduleMode = { direction: 'forward' };
+
+export const isBackward = (mode: ScheduleMode | undefined): boolean => mode?.direction === 'backward';
+
+export const validateScheduleMode = (mode: ScheduleMode) => {
+  if (isBackward(mode) && !mode.finishDate) {
+    throw new Error('Scheduling backward needs a project finish date.');
+  }
+}
+
+// CSV files carry the scheduling direction as a directive line before the header, e.g.
+//   #schedule,backward,2024-12-20   (as late as possible, finishing by the date)
+//   #schedule,forward
+export const isScheduleModeDirective = (line: string): boolean => {
+  return line.split(',')[0].trim() === '#schedule';
+}
+
+export const parseScheduleModeDirective = (line: string): ScheduleMode => {
+  const [, directionStr = 'forward', finishDateStr] = splitCsvLine(line);
+  const direction = directionStr.trim().toLowerCase();
+  if (direction !== 'forward' && direction !== 'backward') {
+    throw new Error(`Invalid direction "${directionStr}" in schedule directive. Use forward or backward.`);
+  }
+  if (direction === 'forward') return DEFAULT_SCHEDULE_MODE;
+
+  const finishDate = parsePlainDate(finishDateStr ?? '');
+  if (!finishDate) {
+    throw new Error(`Invalid finish date "${finishDateStr ?? ''}" in schedule directive. Use YYYY-MM-DD.`);
+  }
+  return { direction, finishDate };
+}
+
+export const formatScheduleModeDirective = (mode: ScheduleMode): string => {
+  return isBackward(mode) ? `#schedule,backward,${mode.finishDate}` : '#schedule,forward';
+}
@@ -0,0 +1,134 @@
+import type { Baseline, PlainDate, ScheduleOptions, Task, TaskVariance, WorkCalendar } from './types';
+import { DEFAULT_WORK_CALENDAR, differenceInWorkingDays } from './calendar';
+import { maxPlainDate, minPlainDate } from './plain-date';
+import { getPercentComplete } from './progress';
+import { getAssignmentWork } from './effort';
+import { createCalendarResolver } from './resources';
+import { calculateCosts } from './costs';
+
+// Start, finish and total work of a resource compared with a baseline; there is no single duration to compare
+export type ResourceVariance = Omit<TaskVariance, 'duration'>;
+
+export interface ResourceSummary {
+  startDate: PlainDate;
+  endDate: PlainDate;
+  totalWorkingDays: number;
+  completedWorkingDays: number;
+  cost: number; // planned cost of the resource's work; the project total includes fixed costs
+  completedCost: number;
+  variance?: ResourceVariance; // set when comparing with a baseline that had the resource assigned
+}
+
+interface BaselineTotals {
+  startDate: PlainDate;
+  endDate: PlainDate;
+  work: number;
+}
+
+// What each resource was booked for in the baseline, plus the whole project under PROJECT_TOTAL
+const getBaselineTotals = (baseline: Baseline): Map<string, BaselineTotals> => {
+  const totals = new Map<string, BaselineTotals>();
+  const addTo = (key: string, startDate: PlainDate, endDate: PlainDate, work: number) => {
+    const existing = totals.get(key);
+    if (existing) {
+      existing.startDate = minPlainDate([existing.startDate, startDate]);
+      existing.endDate = maxPlainDate([existing.endDate, endDate]);
+      existing.work += work;
+    } else {
+      totals.set(key, { startDate, endDate, work });
+    }
+  };
+
+  baseline.tasks.forEach(task => {
+    task.assignments.forEach(assignment => addTo(assignment.resource, task.startDate, task.endDate, getAssignmentWork(task, assignment)));
+    addTo(PROJECT_TOTAL, task.startDate, task.endDate, task.work);
+  });
+  return totals;
+}
+
+const getResourceVariance = (summary: ResourceSummary, totals: BaselineTotals, calendar: WorkCalendar): ResourceVariance => ({
+  start: differenceInWorkingDays(summary.startDate, totals.startDate, calendar),
+  finish: differenceInWorkingDays(summary.endDate, totals.endDate, calendar),
+  work: summary.totalWorkingDays - totals.work,
+});
+
+export const PROJECT_TOTAL = 'Project Total';
+
+// Work per resource in person-days and its planned cost, in total and completed as reported by each task's progress,
+// followed by the project total. With a baseline, each row also carries its variance from it.
+export const summarizeResources = (
+  tasks: Task[],
+  options: ScheduleOptions = {},
+  baseline?: Baseline,
+): [string, ResourceSummary][] => {
+  const summary = new Map<string, ResourceSummary>();
+  const getCalendar = createCalendarResolver(options.calendar ?? DEFAULT_WORK_CALENDAR, options.resources);
+  const costs = calculateCosts(tasks, options);
+  let projectCompletedCost = 0;
+
+  tasks.forEach(task => {
+    const percentComplete = getPercentComplete(task);
+    const taskCost = costs.tasks.get(task.id);
+    if (taskCost && !task.isSummary) projectCompletedCost += taskCost.total * percentComplete / 100;
+
+    // Each resource is credited with its share of the task's work, not its duration
+    task.assignments.forEach(assignment => {
+      const { resource } = assignment;
+      const existing = summary.get(resource);
+      const totalWorkingDaysForTask = getAssignmentWork(task, assignment);
+      const completedWorkingDaysForTask = totalWorkingDaysForTask * percentComplete / 100;
+      const costForTask = taskCost?.resources.get(resource) ?? 0;
+      const completedCostForTask = costForTask * percentComplete / 100;
+
+      if (existing) {
+        existing.startDate = minPlainDate([existing.startDate, task.startDate]);
+        existing.endDate = maxPlainDate([existing.endDate, task.endDate]);
+        existing.totalWorkingDays += totalWorkingDaysForTask;
+        existing.completedWorkingDays += completedWorkingDaysForTask;
+        existing.cost += costForTask;
+        existing.completedCost += completedCostForTask;
+      } else {
+        summary.set(resource, {
+          startDate: task.startDate,
+          endDate: task.endDate,
+          totalWorkingDays: totalWorkingDaysForTask,
+          completedWorkingDays: completedWorkingDaysForTask,
+          cost: costForTask,
+          completedCost: completedCostForTask,
+        });
+      }
+    });
+  });
+
+  const sortedSummary = Array.from(summary.entries()).sort(([a], [b]) => a.localeCompare(b));
+
+  // Project total calculation
+  const projectStartDate = minPlainDate(tasks.map(t => t.startDate));
+  const projectEndDate = maxPlainDate(tasks.map(t => t.endDate));
+  const {projectTotalDays, projectCompletedDays} = Array.from(summary.values()).reduce((acc, curr) => {
+    acc.projectTotalDays += curr.totalWorkingDays;
+    acc.projectCompletedDays += curr.completedWorkingDays;
+    return acc;
+  }, { projectTotalDays: 0, projectCompletedDays: 0 });
+
+  const projectSummary: [string, ResourceSummary] = [PROJECT_TOTAL, {
+    startDate: projectStartDate,
+    endDate: projectEndDate,
+    totalWorkingDays: projectTotalDays,
+    completedWorkingDays: projectCompletedDays,
+    cost: costs.total,
+    completedCost: projectCompletedCost,
+  }];
+
+  const rows = [...sortedSummary, projectSummary];
+  if (!baseline) return rows;
+
+  // Resources on their own calendars, the project total on the project's
+  const baselineTotals = getBaselineTotals(baseline);
+  return rows.map(([resource, resourceSummary]) => {
+    const totals = baselineTotals.get(resource);
+    if (!totals) return [resource, resourceSummary];
+    const calendar = resource === PROJECT_TOTAL ? getCalendar([]) : getCalendar([resource]);
+    return [resource, { ...resourceSummary, variance: getResourceVariance(resourceSummary, totals, calendar) }];
+  });
+}
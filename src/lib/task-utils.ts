@@ -1,137 +1,460 @@
 
-import { addDays, max as dateMax, getDay } from 'date-fns';
-import type { Task, RawTask } from './types';
-
-export const addWorkingDays = (startDate: Date, duration: number): Date => {
-  let currentDate = new Date(startDate);
-  // We subtract 1 from duration because the start date itself counts as the first day.
-  let remainingDuration = duration - 1;
-
-  if (remainingDuration < 0) return startDate;
-
-  while(remainingDuration > 0) {
-    currentDate = addDays(currentDate, 1);
-    const dayOfWeek = getDay(currentDate);
-    // 0 is Sunday, 6 is Saturday
-    if (dayOfWeek !== 0 && dayOfWeek !== 6) {
-      remainingDuration--;
-    }
-  }
-
-  return currentDate;
-}
+import type { Task, RawTask, Dependency, DependencyType, WorkCalendar, ScheduleOptions, Schedule, PlainDate } from './types';
+import { comparePlainDates, differenceInPlainDays, maxPlainDate, minPlainDate } from './plain-date';
+import { addWorkingDays, countWorkingDays, DEFAULT_WORK_CALENDAR, differenceInWorkingDays, nextWorkingDay, offsetWorkingDays, previousWorkingDay, validateWorkCalendar } from './calendar';
+import { createCalendarResolver, getAssignedResources } from './resources';
+import { analyzeCriticalPath, getLatestPredecessorFinish } from './critical-path';
+import { applyConstraint, getConstraintConflict, getConstraintFinishLimit, getEarliestDateConflict, isHardConstraint, LATE_AS_POSSIBLE_CONFLICT } from './constraints';
+import { topologicalOrder } from './topology';
+import { expandRecurrences, renameOccurrenceId } from './recurrence';
+import { expandSummaryDependencies, getSummaryIds, orderByHierarchy, rollupSummaries, validateHierarchy } from './hierarchy';
+import { addTaskBookings, compareLevelingOrder, DEFAULT_LEVELING_OPTIONS, findAvailableDays, findAvailableStart, flagOverallocations, isInLevelingWindow, type ResourceBookings } from './leveling';
+import { addInterruptions, getSegments } from './interruptions';
+import { getDurationCalendar, getTaskCalendar } from './elapsed';
+import { DEFAULT_SCHEDULE_MODE, isBackward, validateScheduleMode } from './schedule-mode';
 
 // Recalculates the actual calendar duration based on the new end date
-export const getCalendarDuration = (startDate: Date, endDate: Date): number => {
-  // differenceInDays is exclusive of the last day, so we add 1
-  return Math.max(1, Math.ceil((endDate.getTime() - startDate.getTime()) / (1000 * 60 * 60 * 24)) + 1);
+export const getCalendarDuration = (startDate: PlainDate, endDate: PlainDate): number => {
+  // differenceInPlainDays is exclusive of the last day, so we add 1
+  return Math.max(1, differenceInPlainDays(endDate, startDate) + 1);
 }
 
+// Milestones have no duration; they mark the finish of their predecessors, e.g. a release or sign-off.
+export const isMilestone = (task: RawTask): boolean => task.workingDuration === 0;
+
 export const toTitleCase = (str: string) => {
   return str.replace(/[-_]/g, ' ').replace(/\w\S*/g, (txt) => {
     return txt.charAt(0).toUpperCase() + txt.substr(1).toLowerCase();
   });
 };
 
-export const processTasks = (rawTasks: RawTask[]): Task[] => {
-    const taskMap = new Map<string, Task>();
-    const orderedTasks: Task[] = [];
-    const resourceEndDates = new Map<string, Date>();
+// Matches the optional link suffix of a dependency, e.g. ":SS", ":FS+2" or ":FF-1d"
+const DEPENDENCY_SUFFIX_REGEX = /^(FS|SS|FF|SF)?\s*([+-]\s*\d+)?\s*d?$/i;
+
+// Parses a single dependency such as "Task A", "Task A:SS" or "Task A:FS+2".
+// If the text after the last colon is not a valid link suffix, the whole string is treated as the title.
+export const parseDependency = (value: string): Dependency => {
+  const text = value.trim();
+  const separatorIndex = text.lastIndexOf(':');
+
+  if (separatorIndex > 0) {
+    const suffix = text.slice(separatorIndex + 1).trim();
+    const match = suffix ? suffix.match(DEPENDENCY_SUFFIX_REGEX) : null;
+    if (match) {
+      const type = (match[1]?.toUpperCase() ?? 'FS') as DependencyType;
+      const lag = match[2] ? parseInt(match[2].replace(/\s/g, ''), 10) : 0;
+      return { predecessor: text.slice(0, separatorIndex).trim(), type, lag };
+    }
+  }
+
+  return { predecessor: text, type: 'FS', lag: 0 };
+}
+
+// Parses a semicolon-separated list of dependencies, as used by the CSV and the manual entry worksheet.
+export const parseDependencies = (value: string | undefined): Dependency[] => {
+  if (!value?.trim()) return [];
+  return value.split(';').map(d => d.trim()).filter(Boolean).map(parseDependency);
+}
+
+// Formats a dependency back into its text form. Plain finish-to-start links are written as just the title.
+export const formatDependency = (dependency: Dependency): string => {
+  if (dependency.type === 'FS' && dependency.lag === 0) return dependency.predecessor;
+  const lag = dependency.lag === 0 ? '' : `${dependency.lag > 0 ? '+' : ''}${dependency.lag}`;
+  return `${dependency.predecessor}:${dependency.type}${lag}`;
+}
+
+export const formatDependencies = (dependencies: Dependency[]): string => {
+  return dependencies.map(formatDependency).join(';');
+}
+
+/**
+ * Resolves the dependency and parent references of imported tasks to task ids.
+ * A reference is taken as an id first; legacy files that refer to tasks by title still work as long as
+ * the title belongs to a single task.
+ */
+export const resolveTaskReferences = (rawTasks: RawTask[]): RawTask[] => {
+  const ids = new Set(rawTasks.map(t => t.id));
+  const idsByTitle = new Map<string, string[]>();
+  for (const task of rawTasks) {
+    idsByTitle.set(task.title, [...(idsByTitle.get(task.title) ?? []), task.id]);
+  }
+
+  const resolve = (reference: string, task: RawTask): string => {
+    if (ids.has(reference)) return reference;
+    const matches = idsByTitle.get(reference) ?? [];
+    if (matches.length > 1) {
+      throw new Error(`Task '${task.title}' refers to '${reference}', but several tasks have that title. Use the task id instead.`);
+    }
+    return matches[0] ?? reference;
+  };
+
+  return rawTasks.map(task => ({
+    ...task,
+    dependencies: task.dependencies.map(d => ({ ...d, predecessor: resolve(d.predecessor, task) })),
+    parentId: task.parentId ? resolve(task.parentId, task) : undefined,
+  }));
+}
+
+// Returns the id itself if it is not taken, otherwise the id with the first free numeric suffix, e.g. "Design-2".
+export const createUniqueId = (id: string, takenIds: Set<string>): string => {
+  if (!takenIds.has(id)) return id;
+  let suffix = 2;
+  while (takenIds.has(`${id}-${suffix}`)) suffix++;
+  return `${id}-${suffix}`;
+}
+
+// Changes a task's id and rewrites every dependency and parent reference to it, so no link is lost.
+export const changeTaskId = (rawTasks: RawTask[], oldId: string, newId: string): RawTask[] => {
+  if (oldId === newId) return rawTasks;
+  if (rawTasks.some(t => t.id === newId)) {
+    throw new Error(`Task id "${newId}" is already in use.`);
+  }
+  const renamed = rawTasks.map(task => ({
+    ...task,
+    id: task.id === oldId ? newId : task.id,
+    dependencies: task.dependencies.map(d => d.predecessor === oldId ? { ...d, predecessor: newId } : d),
+    parentId: task.parentId === oldId ? newId : task.parentId,
+    seriesId: task.seriesId === oldId ? newId : task.seriesId,
+  }));
+
+  // Occurrences of a recurring task that were edited on their own follow its id, so they still replace the generated ones
+  return renamed.reduce<RawTask[]>((tasks, task) => {
+    const occurrenceId = task.parentId === newId ? renameOccurrenceId(task.id, oldId, newId) : undefined;
+    return occurrenceId ? changeTaskId(tasks, task.id, occurrenceId) : tasks;
+  }, renamed);
+}
 
-    // First pass: Validate dependencies and create initial tasks
-    const rawTaskMap = new Map(rawTasks.map(t => [t.title, t]));
+// Returns the earliest start date a dependency allows for a task with the given working duration.
+const getDependencyStartDate = (dependency: Dependency, predecessor: Task, workingDuration: number, calendar: WorkCalendar): PlainDate => {
+  const startFromFinish = (finishDate: PlainDate) => offsetWorkingDays(finishDate, -(Math.max(1, workingDuration) - 1), calendar);
+
+  switch (dependency.type) {
+    case 'SS':
+      // Successor starts no earlier than the predecessor's start plus lag
+      return offsetWorkingDays(predecessor.startDate, dependency.lag, calendar);
+    case 'FF':
+      // Successor finishes no earlier than the predecessor's finish plus lag
+      return startFromFinish(offsetWorkingDays(predecessor.endDate, dependency.lag, calendar));
+    case 'SF':
+      // Successor finishes no earlier than the working day before the predecessor starts, plus lag
+      return startFromFinish(offsetWorkingDays(predecessor.startDate, dependency.lag - 1, calendar));
+    case 'FS':
+    default:
+      // Successor starts on the working day after the predecessor finishes, plus lag.
+      // A milestone falls on the predecessor's finish day itself.
+      return offsetWorkingDays(predecessor.endDate, dependency.lag + (workingDuration === 0 ? 0 : 1), calendar);
+  }
+}
+
+// Leaf tasks to schedule again on top of a previous schedule; every other leaf task keeps its dates and bookings
+export interface ScheduleReuse {
+    previous: Schedule;
+    affectedIds: Set<string>;
+}
+
+/**
+ * Schedules the project and keeps the unleveled dates alongside the tasks.
+ * Scheduling backward, tasks are placed as late as possible before the project finish date instead, from the last
+ * task back through their predecessors, and leveling moves them earlier rather than later.
+ * With reuse, only the affected leaf tasks are scheduled again. The caller must include every task whose
+ * input changed and all of their successors (predecessors when scheduling backward); see rescheduleTasks for how that set is found.
+ */
+export const scheduleProject = (rawTasks: RawTask[], options: ScheduleOptions = {}, reuse?: ScheduleReuse): Schedule => {
+    const projectCalendar = options.calendar ?? DEFAULT_WORK_CALENDAR;
+    validateWorkCalendar(projectCalendar);
+    // Recurring tasks are scheduled as summary tasks over their occurrences
+    rawTasks = expandRecurrences(rawTasks, projectCalendar);
+    // Each task is scheduled on the days all its resources work, falling back to the project calendar,
+    // and not on the days its work is interrupted; elapsed tasks run on every day
+    const getCalendar = createCalendarResolver(projectCalendar, options.resources);
+    const resourceMap = new Map((options.resources ?? []).map(r => [r.name, r]));
+    const leveling = options.leveling ?? DEFAULT_LEVELING_OPTIONS;
+    const mode = options.mode ?? DEFAULT_SCHEDULE_MODE;
+    validateScheduleMode(mode);
+    const schedulesBackward = isBackward(mode);
+
+    // First pass: Validate ids and dependencies. Ids are the key for every link, titles may repeat.
+    const rawTaskMap = new Map<string, RawTask>();
+    for (const rawTask of rawTasks) {
+        if (rawTaskMap.has(rawTask.id)) {
+            throw new Error(`Duplicate task id found: "${rawTask.id}". Task ids must be unique.`);
+        }
+        rawTaskMap.set(rawTask.id, rawTask);
+    }
     for (const rawTask of rawTasks) {
-        for (const depTitle of rawTask.dependencies) {
-            if (!rawTaskMap.has(depTitle)) {
-                throw new Error(`Dependency '${depTitle}' for task '${rawTask.title}' not found.`);
+        for (const dependency of rawTask.dependencies) {
+            if (!rawTaskMap.has(dependency.predecessor)) {
+                throw new Error(`Dependency '${dependency.predecessor}' for task '${rawTask.title}' not found.`);
             }
         }
     }
-    
-    // Process tasks in an order that respects dependencies
-    const processed = new Set<string>();
-    let changedInPass = true;
-    while(orderedTasks.length < rawTasks.length && changedInPass) {
-        changedInPass = false;
-        for(const rawTask of rawTasks) {
-            if(processed.has(rawTask.id)) continue;
-
-            const dependenciesMet = rawTask.dependencies.every(depTitle => {
-                const depId = rawTaskMap.get(depTitle)?.id;
-                return depId ? processed.has(depId) : false;
-            });
-
-            if(dependenciesMet) {
-                let effectiveStartDate = rawTask.startDate;
-
-                // Check dependency constraints
-                if (rawTask.dependencies.length > 0) {
-                    const dependencyEndDates = rawTask.dependencies
-                        .map(depTitle => {
-                            const depId = rawTaskMap.get(depTitle)?.id;
-                            return depId ? taskMap.get(depId)?.endDate : undefined;
-                        })
-                        .filter((d): d is Date => !!d);
-
-                    if (dependencyEndDates.length > 0) {
-                        const latestDependencyEndDate = dateMax(dependencyEndDates);
-                        const dayAfterDependency = addDays(latestDependencyEndDate, 1);
-                        effectiveStartDate = dateMax([effectiveStartDate, dayAfterDependency]);
-                    }
-                }
-                
-                // Check resource constraints
-                if (rawTask.resource) {
-                  const lastResourceTaskEndDate = resourceEndDates.get(rawTask.resource);
-                  if (lastResourceTaskEndDate) {
-                    const dayAfterResourceFreed = addDays(lastResourceTaskEndDate, 1);
-                    effectiveStartDate = dateMax([effectiveStartDate, dayAfterResourceFreed]);
-                  }
-                }
-                
-                // Adjust start date if it falls on a weekend
-                let dayOfWeek = getDay(effectiveStartDate);
-                if (dayOfWeek === 0) { // Sunday
-                    effectiveStartDate = addDays(effectiveStartDate, 1);
-                } else if (dayOfWeek === 6) { // Saturday
-                    effectiveStartDate = addDays(effectiveStartDate, 2);
+
+    // Only leaf tasks are scheduled. They carry the dependencies of the summary tasks above them,
+    // and links to summary tasks are links to each of their leaves.
+    validateHierarchy(rawTasks);
+    const summaryIds = getSummaryIds(rawTasks);
+    const leafTasks = rawTasks.filter(t => !summaryIds.has(t.id));
+    const scheduleDependencies = expandSummaryDependencies(rawTasks);
+    const getScheduleDependencies = (rawTask: RawTask) => scheduleDependencies.get(rawTask.id) ?? rawTask.dependencies;
+    const withSummaries = (tasks: Task[]) => [...tasks, ...rollupSummaries(rawTasks, tasks, projectCalendar)];
+
+    const getPredecessorIds = (id: string) => getScheduleDependencies(rawTaskMap.get(id)!).map(d => d.predecessor);
+    // Scheduling backward, a task is placed once its successors are, and as late as possible tasks move up to their
+    // successors, so links are also looked up from the predecessor's side
+    const successorLinks = new Map<string, { successorId: string; dependency: Dependency }[]>();
+    for (const leafTask of leafTasks) {
+        for (const dependency of getScheduleDependencies(leafTask)) {
+            const links = successorLinks.get(dependency.predecessor);
+            if (links) links.push({ successorId: leafTask.id, dependency });
+            else successorLinks.set(dependency.predecessor, [{ successorId: leafTask.id, dependency }]);
+        }
+    }
+    const getPlacedBeforeIds = schedulesBackward
+        ? (id: string) => (successorLinks.get(id) ?? []).map(link => link.successorId)
+        : getPredecessorIds;
+    const getTitle = (id: string) => rawTaskMap.get(id)?.title ?? id;
+
+    // Tasks left out of an incremental reschedule are taken as they were, both before and after leveling
+    const previousTaskMap = new Map((reuse?.previous.tasks ?? []).map(t => [t.id, t]));
+    const isAffected = (id: string) => !reuse || reuse.affectedIds.has(id) || !reuse.previous.unleveledTasks.has(id);
+    const leafIds = leafTasks.map(t => t.id);
+    const affectedLeafIds = leafIds.filter(isAffected);
+    const keptTasks = leafIds.filter(id => !isAffected(id)).map(id => previousTaskMap.get(id)!);
+
+    // Progress counts the tasks placed by the last pass, the leveling pass when resources are leveled
+    let progressDone = 0;
+    const reportProgress = (isFinalPass: boolean) => {
+        if (isFinalPass) options.onProgress?.(++progressDone, affectedLeafIds.length);
+    };
+
+    // Earliest start allowed by the task's own start date, its dependencies and its resources' join dates
+    const getEarliestStartDate = (rawTask: RawTask, taskMap: Map<string, Task>, calendar: WorkCalendar): PlainDate => {
+        let effectiveStartDate = rawTask.startDate;
+
+        // Check dependency constraints
+        const dependencies = getScheduleDependencies(rawTask);
+        if (dependencies.length > 0) {
+            const dependencyStartDates = dependencies
+                .map(dependency => {
+                    const predecessor = taskMap.get(dependency.predecessor);
+                    return predecessor ? getDependencyStartDate(dependency, predecessor, rawTask.workingDuration, calendar) : undefined;
+                })
+                .filter((d): d is PlainDate => !!d);
+
+            if (dependencyStartDates.length > 0) {
+                effectiveStartDate = maxPlainDate([effectiveStartDate, ...dependencyStartDates]);
+            }
+        }
+
+        // Work cannot start before every assigned resource has joined the project
+        const resourceStartDates = rawTask.assignments
+            .map(a => resourceMap.get(a.resource)?.startDate)
+            .filter((d): d is PlainDate => !!d);
+        if (resourceStartDates.length > 0) {
+            effectiveStartDate = maxPlainDate([effectiveStartDate, ...resourceStartDates]);
+        }
+
+        // Adjust start date if it falls on a non-working day
+        return nextWorkingDay(effectiveStartDate, calendar);
+    };
+
+    // A task that has started keeps its actual start, whatever its dependencies and constraint say now
+    const getConstrainedStartDate = (rawTask: RawTask, taskMap: Map<string, Task>, calendar: WorkCalendar): PlainDate => {
+        if (rawTask.actualStart) return rawTask.actualStart;
+        return applyConstraint(getEarliestStartDate(rawTask, taskMap, calendar), rawTask.workingDuration, rawTask.constraint, calendar);
+    };
+
+    // The latest start that finishes by projectFinish, in time for the successors placed in taskMap and within the task's constraint
+    const getLatestStartBefore = (rawTask: RawTask, projectFinish: PlainDate, taskMap: Map<string, Task>, calendar: WorkCalendar): PlainDate => {
+        const finishLimits = (successorLinks.get(rawTask.id) ?? [])
+            .map(({ successorId, dependency }) => {
+                const successor = taskMap.get(successorId);
+                return successor
+                    ? getLatestPredecessorFinish(dependency, rawTask, successor, successor.startDate, successor.endDate, calendar, getTaskCalendar(successor, getCalendar))
+                    : undefined;
+            })
+            .filter((d): d is PlainDate => !!d);
+        const constraintLimit = getConstraintFinishLimit(rawTask.constraint, rawTask.workingDuration, calendar);
+        const latestFinish = minPlainDate([projectFinish, ...finishLimits, ...(constraintLimit ? [constraintLimit] : [])]);
+        return offsetWorkingDays(previousWorkingDay(latestFinish, calendar), -(Math.max(1, rawTask.workingDuration) - 1), calendar);
+    };
+
+    // Scheduling backward: the latest start that finishes by the project finish date.
+    // Started tasks, tasks pinned to a date and occurrences of recurring tasks keep their dates.
+    const getLatestStartDate = (rawTask: RawTask, taskMap: Map<string, Task>, calendar: WorkCalendar): PlainDate => {
+        if (rawTask.actualStart) return rawTask.actualStart;
+        if (isHardConstraint(rawTask.constraint)) return applyConstraint(rawTask.startDate, rawTask.workingDuration, rawTask.constraint, calendar);
+        if (rawTask.seriesId) return nextWorkingDay(rawTask.startDate, calendar);
+        return getLatestStartBefore(rawTask, mode.finishDate!, taskMap, calendar);
+    };
+
+    const getPlacedStartDate = schedulesBackward ? getLatestStartDate : getConstrainedStartDate;
+
+    const createTask = (rawTask: RawTask, startDate: PlainDate, calendar: WorkCalendar, levelingDelay = 0): Task => {
+        // A finished task ends on its actual finish and took the working days in between; milestones stay milestones
+        const workingDuration = rawTask.actualFinish && !isMilestone(rawTask)
+            ? Math.max(1, countWorkingDays(startDate, rawTask.actualFinish, calendar))
+            : rawTask.workingDuration;
+        const endDate = rawTask.actualFinish ?? addWorkingDays(startDate, workingDuration, calendar);
+        // Days the resources work but the task does not split it into segments
+        const resourceCalendar = getDurationCalendar(rawTask, getCalendar);
+        const segments = calendar === resourceCalendar ? [] : getSegments(startDate, endDate, resourceCalendar, calendar);
+        return {
+            ...rawTask,
+            workingDuration,
+            startDate,
+            endDate,
+            duration: getCalendarDuration(startDate, endDate),
+            segments: segments.length > 1 ? segments : undefined,
+            levelingDelay,
+            isOverallocated: false,
+            isSummary: false,
+        };
+    };
+
+    // Second pass: Schedule in topological order (successors first when scheduling backward), ignoring resource conflicts.
+    // Throws a CircularDependencyError with the loop when the dependencies have one.
+    const unleveledTasks = keptTasks.map(task => reuse!.previous.unleveledTasks.get(task.id)!);
+    const unleveledTaskMap = new Map(unleveledTasks.map(t => [t.id, t]));
+    for (const id of topologicalOrder(affectedLeafIds, getPlacedBeforeIds, { getLabel: getTitle })) {
+        const rawTask = rawTaskMap.get(id)!;
+        const calendar = getTaskCalendar(rawTask, getCalendar);
+        const finalTask = createTask(rawTask, getPlacedStartDate(rawTask, unleveledTaskMap, calendar), calendar);
+        unleveledTaskMap.set(finalTask.id, finalTask);
+        unleveledTasks.push(finalTask);
+        reportProgress(!leveling.enabled);
+    }
+
+    // Kept tasks come first in unleveledTasks; they stay at their final dates
+    let orderedTasks = [...keptTasks, ...unleveledTasks.slice(keptTasks.length)];
+
+    // Third pass: Level resources. Tasks are placed one at a time in priority order (then float, then id),
+    // each at the earliest date its dependencies allow where its resources have enough units free.
+    // When tasks may be split, a task instead starts on the first day its resources are free and pauses around the work already booked.
+    // Scheduling backward, it is the other way around: the latest dates, finishing on the last day the resources are free.
+    if (leveling.enabled) {
+        const totalFloat = new Map(Array.from(analyzeCriticalPath(withSummaries(unleveledTasks), options)).map(([id, info]) => [id, info.totalFloat]));
+        const levelingRank = new Map([...leafTasks].sort((a, b) => compareLevelingOrder(a, b, totalFloat)).map((t, index) => [t.id, index]));
+        const taskMap = new Map(keptTasks.map(t => [t.id, t]));
+        const bookings: ResourceBookings = new Map();
+        const addBookings = (task: Task) => addTaskBookings(bookings, task);
+        keptTasks.forEach(addBookings);
+        orderedTasks = [...keptTasks];
+
+        // Each step places the highest ranked task whose predecessors are all placed. Kept tasks are already placed,
+        // but still take their turn in the order, so affected tasks are placed exactly where they would be otherwise.
+        const levelingOrder = topologicalOrder(leafIds, getPlacedBeforeIds, { rank: id => levelingRank.get(id)! });
+        for (const id of levelingOrder.filter(isAffected)) {
+            const rawTask = rawTaskMap.get(id)!;
+            let calendar = getTaskCalendar(rawTask, getCalendar);
+            const unleveledTask = unleveledTaskMap.get(rawTask.id)!;
+            let startDate = getPlacedStartDate(rawTask, taskMap, calendar);
+
+            // Tasks pinned to a date, or already started, are never moved; their conflicts show up as overallocations instead
+            const canLevel = rawTask.assignments.length > 0 && !isMilestone(rawTask) && !isHardConstraint(rawTask.constraint) && !rawTask.actualStart;
+            if (canLevel && isInLevelingWindow(unleveledTask.startDate, leveling)) {
+                if (leveling.splitTasks) {
+                    const fromDate = schedulesBackward ? addWorkingDays(startDate, rawTask.workingDuration, calendar) : startDate;
+                    const availableDays = findAvailableDays(fromDate, rawTask.workingDuration, rawTask.assignments, bookings, calendar, mode.direction);
+                    startDate = availableDays.startDate;
+                    calendar = addInterruptions(calendar, availableDays.pauses);
+                } else {
+                    startDate = findAvailableStart(startDate, rawTask.workingDuration, rawTask.assignments, bookings, calendar, mode.direction);
                 }
-                
-                const endDate = addWorkingDays(effectiveStartDate, rawTask.workingDuration);
-                
-                const finalTask: Task = {
-                    ...rawTask,
-                    startDate: effectiveStartDate,
-                    endDate: endDate,
-                    duration: getCalendarDuration(effectiveStartDate, endDate),
-                };
-                
-                taskMap.set(finalTask.id, finalTask);
-                orderedTasks.push(finalTask);
-                if (finalTask.resource) {
-                  resourceEndDates.set(finalTask.resource, endDate);
+            }
+
+            const levelingDelay = Math.max(0, schedulesBackward
+                ? differenceInWorkingDays(unleveledTask.startDate, startDate, calendar)
+                : differenceInWorkingDays(startDate, unleveledTask.startDate, calendar));
+            const finalTask = createTask(rawTask, startDate, calendar, levelingDelay);
+            taskMap.set(finalTask.id, finalTask);
+            orderedTasks.push(finalTask);
+            addBookings(finalTask);
+            reportProgress(true);
+        }
+    }
+
+    // As late as possible tasks move to their late start: as late as they can go, within their total float, without
+    // delaying the project finish. A backward pass from the finish gives every task its late dates; started tasks,
+    // tasks pinned to a date and occurrences of recurring tasks keep theirs. The successors of a moved task then
+    // follow it where they have to, so no link is broken and the finish does not move. Moved tasks are not leveled
+    // again; a resource they now share shows up as an overallocation.
+    // Scheduling backward, every task already is as late as possible.
+    if (!schedulesBackward && orderedTasks.some(task => task.constraint?.type === 'ALAP')) {
+        const projectFinish = maxPlainDate(orderedTasks.map(task => task.endDate));
+        const placedTaskMap = new Map(orderedTasks.map(task => [task.id, task]));
+        const order = topologicalOrder(leafIds, getPredecessorIds);
+
+        const lateTaskMap = new Map<string, Task>();
+        for (const id of [...order].reverse()) {
+            const task = placedTaskMap.get(id)!;
+            const keepsItsDates = !!task.actualStart || isHardConstraint(task.constraint) || !!task.seriesId;
+            const calendar = getTaskCalendar(task, getCalendar);
+            lateTaskMap.set(id, keepsItsDates ? task : createTask(rawTaskMap.get(id)!, getLatestStartBefore(task, projectFinish, lateTaskMap, calendar), calendar));
+        }
+
+        const movedIds = new Set<string>();
+        for (const id of order) {
+            const task = placedTaskMap.get(id)!;
+            const calendar = getTaskCalendar(task, getCalendar);
+            let startDate = task.startDate;
+            if (task.constraint?.type === 'ALAP' && !task.actualStart) {
+                const lateStart = lateTaskMap.get(id)!.startDate;
+                if (lateStart < task.startDate) {
+                    // A successor pinned to its date or already started does not leave the task room to finish first
+                    placedTaskMap.set(id, { ...task, constraintConflict: LATE_AS_POSSIBLE_CONFLICT });
+                    continue;
                 }
-                processed.add(finalTask.id);
-                changedInPass = true;
+                startDate = lateStart;
+            }
+            if (getPredecessorIds(id).some(predecessorId => movedIds.has(predecessorId))) {
+                startDate = maxPlainDate([startDate, getConstrainedStartDate(rawTaskMap.get(id)!, placedTaskMap, calendar)]);
+            }
+            if (startDate > task.startDate) {
+                placedTaskMap.set(id, createTask(rawTaskMap.get(id)!, startDate, calendar, task.levelingDelay));
+                movedIds.add(id);
             }
         }
+        orderedTasks = orderedTasks.map(task => placedTaskMap.get(task.id)!);
     }
 
-    if (orderedTasks.length < rawTasks.length) {
-        const unprocessed = rawTasks.filter(t => !processed.has(t.id)).map(t => t.id).join(', ');
-        throw new Error(`Circular dependency detected or invalid dependency structure. Could not process tasks: ${unprocessed}`);
+    // Constraints that could not be met are reported on the task rather than failing the whole schedule
+    const finalTaskMap = new Map(orderedTasks.map(task => [task.id, task]));
+    orderedTasks = orderedTasks.map(task => {
+        if (!task.constraint?.date || !isAffected(task.id)) return task;
+        const calendar = getTaskCalendar(task, getCalendar);
+        // The task's own start is the floor here, so only its dependencies and resources can push it later
+        const dependencyStart = getEarliestStartDate(task, finalTaskMap, calendar);
+        const unleveledTask = unleveledTaskMap.get(task.id)!;
+        const constraintConflict = getConstraintConflict(
+            task.constraint, task.startDate, task.endDate, dependencyStart, unleveledTask.startDate, unleveledTask.endDate,
+        ) ?? (schedulesBackward && !task.actualStart ? getEarliestDateConflict(task.constraint, task.startDate, task.endDate) : undefined);
+        return constraintConflict ? { ...task, constraintConflict } : task;
+    });
+
+    // Only tasks sharing a resource with a rescheduled task can have gained or lost an overallocation
+    let recheckIds: Set<string> | undefined;
+    if (reuse) {
+        // Both the old and the new assignments count, as do tasks removed since the previous schedule
+        const touchedResources = new Set([...reuse.affectedIds, ...affectedLeafIds]
+            .flatMap(id => [rawTaskMap.get(id), previousTaskMap.get(id)])
+            .flatMap(task => task ? getAssignedResources(task) : []));
+        recheckIds = new Set(leafTasks.filter(t => isAffected(t.id) || getAssignedResources(t).some(r => touchedResources.has(r))).map(t => t.id));
     }
+    orderedTasks = withSummaries(flagOverallocations(orderedTasks, getCalendar, recheckIds));
 
-    // Sort final list by resource then start date for consistent display
+    // Sort final list by (first) resource then start date for consistent display, with children under their summary task
     orderedTasks.sort((a, b) => {
-        const resourceA = a.resource || 'zzzzzz'; // Unassigned resources last
-        const resourceB = b.resource || 'zzzzzz';
+        const resourceA = a.assignments[0]?.resource || 'zzzzzz'; // Unassigned resources last
+        const resourceB = b.assignments[0]?.resource || 'zzzzzz';
         if (resourceA < resourceB) return -1;
         if (resourceA > resourceB) return 1;
-        return a.startDate.getTime() - b.startDate.getTime();
+        return comparePlainDates(a.startDate, b.startDate);
     });
 
-    return orderedTasks;
+    return { tasks: orderByHierarchy(orderedTasks), unleveledTasks: unleveledTaskMap };
   };
 
-    
\ No newline at end of file
+export const processTasks = (rawTasks: RawTask[], options: ScheduleOptions = {}): Task[] => {
+    return scheduleProject(rawTasks, options).tasks;
+}
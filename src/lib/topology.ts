@@ -0,0 +1,120 @@
+// Thrown when dependencies form a loop. The cycle lists task ids in link order, starting and ending with the same task.
+export class CircularDependencyError extends Error {
+  readonly cycle: string[];
+
+  constructor(cycle: string[], getLabel: (id: string) => string = id => id) {
+    super(`Circular dependency detected: ${cycle.map(getLabel).join(' → ')}`);
+    this.name = 'CircularDependencyError';
+    this.cycle = cycle;
+  }
+}
+
+interface TopologicalOrderOptions {
+  // Among tasks whose predecessors are all placed, the lowest rank goes first. Defaults to the input order.
+  rank?: (id: string) => number;
+  getLabel?: (id: string) => string;
+}
+
+// Min-heap of ids by rank, so picking the next ready task stays logarithmic
+const createQueue = (rank: (id: string) => number) => {
+  const heap: string[] = [];
+  const less = (i: number, j: number) => rank(heap[i]) < rank(heap[j]);
+  const swap = (i: number, j: number) => { [heap[i], heap[j]] = [heap[j], heap[i]]; };
+
+  return {
+    get size() { return heap.length; },
+    push(id: string) {
+      heap.push(id);
+      for (let i = heap.length - 1; i > 0 && less(i, (i - 1) >> 1); i = (i - 1) >> 1) {
+        swap(i, (i - 1) >> 1);
+      }
+    },
+    pop(): string {
+      const top = heap[0];
+      const last = heap.pop()!;
+      if (heap.length > 0) {
+        heap[0] = last;
+        for (let i = 0; ;) {
+          const left = 2 * i + 1;
+          const right = left + 1;
+          let smallest = i;
+          if (left < heap.length && less(left, smallest)) smallest = left;
+          if (right < heap.length && less(right, smallest)) smallest = right;
+          if (smallest === i) break;
+          swap(i, smallest);
+          i = smallest;
+        }
+      }
+      return top;
+    },
+  };
+}
+
+// Follows predecessor links from the tasks left over by Kahn's algorithm until one repeats, which closes a cycle.
+const findCycle = (remaining: Set<string>, predecessors: Map<string, string[]>): string[] => {
+  const path: string[] = [];
+  const positions = new Map<string, number>();
+  let current = remaining.values().next().value as string;
+
+  while (!positions.has(current)) {
+    positions.set(current, path.length);
+    path.push(current);
+    // Every leftover task has at least one leftover predecessor, otherwise it would have been ordered
+    current = predecessors.get(current)!.find(id => remaining.has(id))!;
+  }
+
+  // The path was walked against the links, so reverse it to read predecessor → successor
+  return [...path.slice(positions.get(current)!), current].reverse();
+}
+
+/**
+ * Orders ids so every id comes after its predecessors (Kahn's algorithm over an adjacency index).
+ * Runs in O(n log n + links). Predecessors outside the given ids are ignored.
+ * Throws a CircularDependencyError naming the exact cycle when there is no such order.
+ */
+export const topologicalOrder = (
+  ids: string[],
+  getPredecessors: (id: string) => string[],
+  options: TopologicalOrderOptions = {},
+): string[] => {
+  const known = new Set(ids);
+  const predecessors = new Map<string, string[]>();
+  const successors = new Map<string, string[]>();
+  const remainingCount = new Map<string, number>();
+
+  for (const id of ids) {
+    const preds = Array.from(new Set(getPredecessors(id))).filter(p => known.has(p));
+    predecessors.set(id, preds);
+    remainingCount.set(id, preds.length);
+    for (const pred of preds) {
+      const list = successors.get(pred);
+      if (list) list.push(id);
+      else successors.set(pred, [id]);
+    }
+  }
+
+  const inputOrder = new Map(ids.map((id, index) => [id, index]));
+  const queue = createQueue(options.rank ?? (id => inputOrder.get(id)!));
+  for (const id of ids) {
+    if (remainingCount.get(id) === 0) queue.push(id);
+  }
+
+  const order: string[] = [];
+  while (queue.size > 0) {
+    const id = queue.pop();
+    order.push(id);
+    for (const successor of successors.get(id) ?? []) {
+      const count = remainingCount.get(successor)! - 1;
+      remainingCount.set(successor, count);
+      if (count === 0) queue.push(successor);
+    }
+  }
+
+  if (order.length < ids.length) {
+    const placed = new Set(order);
+    const remaining = new Set(ids.filter(id => !placed.has(id)));
+    throw new CircularDependencyError(findCycle(remaining, predecessors), options.getLabel);
+  }
+
+  return order;
+}
@@ -1,14 +1,210 @@
+// A calendar day without a time of day or timezone, written "yyyy-MM-dd". Schedules are made of these so they
+// come out the same for every viewer, whatever their timezone or daylight saving; see plain-date.ts.
+export type PlainDate = string & { readonly __brand: 'PlainDate' };
+
+export type DependencyType = 'FS' | 'SS' | 'FF' | 'SF';
+
+export interface Dependency {
+  predecessor: string; // id of the task this one depends on
+  type: DependencyType;
+  lag: number; // working days of the successor's calendar, negative for lead time
+}
+
+export interface ResourceAssignment {
+  resource: string;
+  units: number; // percent of the resource's working day, 100 is full time
+}
+
+// ASAP is the default. MSO/MFO pin a task to a date, the others bound its start or finish on one side.
+export type ConstraintType = 'ASAP' | 'ALAP' | 'MSO' | 'MFO' | 'SNET' | 'SNLT' | 'FNET' | 'FNLT';
+
+export interface TaskConstraint {
+  type: ConstraintType;
+  date?: PlainDate; // required for every type except ASAP and ALAP
+}
+
+// A span of days, both ends included
+export interface DateRange {
+  startDate: PlainDate;
+  endDate: PlainDate;
+}
+
+// Which of work, duration and units stays put when another of them is edited on an effort-driven task
+export type TaskType = 'fixedUnits' | 'fixedWork' | 'fixedDuration';
+
+export type RecurrenceFrequency = 'day' | 'week' | 'month';
+
+// How a task repeats, e.g. every 2 weeks on Mon;Wed until a date, or every month on day 15 six times
+export interface Recurrence {
+  frequency: RecurrenceFrequency;
+  interval: number; // every N days, weeks or months
+  weekdays?: number[]; // weekly series, 0 is Sunday; defaults to the day of the week of the task's start date
+  dayOfMonth?: number; // monthly series, 1-31, the last day in shorter months; defaults to the day of the task's start date
+  until?: PlainDate; // no occurrence falls after this date
+  count?: number; // or the series ends after this many occurrences
+}
 
 export interface RawTask {
   id: string;
   title: string;
-  startDate: Date;
+  startDate: PlainDate;
   workingDuration: number;
-  dependencies: string[];
-  resource?: string;
+  dependencies: Dependency[];
+  assignments: ResourceAssignment[];
+  priority?: number; // 0-1000, higher priority tasks are leveled first; defaults to 500
+  constraint?: TaskConstraint;
+  parentId?: string; // id of the summary task this task is grouped under
+  percentComplete?: number; // 0-100, share of the working duration done; 100 once the task has an actual finish
+  actualStart?: PlainDate; // the task started on this date, so it is scheduled to start then
+  actualFinish?: PlainDate; // the task finished on this date, so it ends then however long it planned to take
+  budget?: number; // budget at completion, in the project's currency; defaults to the planned cost
+  fixedCost?: number; // cost of the task apart from its resources, e.g. materials, spread over its working days
+  actualCost?: number; // spent on the task so far
+  // Three-point estimate for risk analysis, with workingDuration as the most likely duration
+  optimisticDuration?: number;
+  pessimisticDuration?: number;
+  recurrence?: Recurrence; // the scheduler adds one subtask per occurrence, each lasting workingDuration
+  seriesId?: string; // id of the recurring task this task is an occurrence of
+  interruptions?: DateRange[]; // work on the task pauses on these days, splitting it around them
+  // Effort-driven tasks have their total work in person-days, and workingDuration is the work divided by the assigned units
+  work?: number;
+  taskType?: TaskType; // defaults to fixed units
+  elapsed?: boolean; // workingDuration counts calendar days, e.g. curing or a review period, rather than working days
 }
 
 export interface Task extends RawTask {
-  endDate: Date;
+  endDate: PlainDate;
   duration: number; // calendar days
+  levelingDelay: number; // working days the task was moved to resolve resource conflicts, later or, scheduling backward, earlier
+  isOverallocated: boolean; // one of its resources is booked beyond full time while it runs
+  constraintConflict?: string; // why the task's constraint could not be met, if it could not
+  isSummary: boolean; // has children, its dates roll up from them
+  segments?: DateRange[]; // the periods a split task is worked, with gaps between them; unset when it is worked throughout
+}
+
+export interface CalendarException {
+  date: PlainDate;
+  name: string; // e.g. the holiday name
+  isWorking: boolean; // false for holidays, true for extra working days
+}
+
+export interface WorkCalendar {
+  workingDays: number[]; // days of the week, 0 is Sunday and 6 is Saturday
+  exceptions: CalendarException[];
+}
+
+export interface ResourceVacation {
+  startDate: PlainDate;
+  endDate: PlainDate; // inclusive
+  name: string;
+}
+
+// A resource's calendar is layered on the project calendar: project holidays still apply
+export interface Resource {
+  name: string;
+  workingDays?: number[]; // overrides the project's working week, e.g. for part-time schedules
+  vacations: ResourceVacation[];
+  startDate?: PlainDate; // the resource joins the project on this date
+  rate?: number; // cost of a day's work at full time
+  overtimeRate?: number; // cost of a day's work beyond full time on the same day; defaults to the rate
+  costPerUse?: number; // charged once for each task the resource is assigned to, milestones aside
+}
+
+export interface LevelingOptions {
+  enabled: boolean;
+  // When set, only tasks whose unleveled start falls within the window are delayed to resolve conflicts
+  windowStart?: PlainDate;
+  windowEnd?: PlainDate;
+  splitTasks?: boolean; // a task may be split around work that was placed before it instead of waiting for a long enough period
+}
+
+export type ScheduleDirection = 'forward' | 'backward';
+
+// Forward scheduling places tasks from their start dates; backward scheduling places them as late as possible before the finish date
+export interface ScheduleMode {
+  direction: ScheduleDirection;
+  finishDate?: PlainDate; // the project finish date tasks are scheduled back from, required when scheduling backward
+}
+
+export interface ScheduleOptions {
+  calendar?: WorkCalendar;
+  resources?: Resource[];
+  leveling?: LevelingOptions;
+  mode?: ScheduleMode;
+  onProgress?: (scheduledTasks: number, totalTasks: number) => void; // called as tasks are placed, for progress reporting
+}
+
+// A schedule together with the dates its leaf tasks had before leveling, kept so edits can be rescheduled incrementally
+export interface Schedule {
+  tasks: Task[];
+  unleveledTasks: Map<string, Task>;
+}
+
+// Result of an incremental reschedule: the new schedule and what differs from the previous one
+export interface ScheduleChanges {
+  schedule: Schedule;
+  changedTasks: Task[]; // added tasks and tasks whose dates or details changed
+  removedIds: string[];
+}
+
+// A task as it stood when a baseline was saved
+export interface BaselineTask {
+  startDate: PlainDate;
+  endDate: PlainDate;
+  workingDuration: number;
+  work: number; // person-days, the work of an effort-driven task or else the duration times the units of each assignment
+  assignments: ResourceAssignment[];
+}
+
+// A named snapshot of the schedule that the live plan is compared against
+export interface Baseline {
+  name: string;
+  savedAt: PlainDate;
+  tasks: Map<string, BaselineTask>; // keyed by task id; tasks added since are missing
+}
+
+// How far the live plan has moved from a baseline, in working days. Positive is later or longer.
+export interface TaskVariance {
+  start: number;
+  finish: number;
+  duration: number;
+  work: number;
+}
+
+// Everything the schedule is computed from, which a scenario keeps a copy of
+export interface ProjectPlan {
+  rawTasks: RawTask[];
+  calendar: WorkCalendar;
+  resources: Resource[];
+  leveling: LevelingOptions;
+  mode: ScheduleMode;
+}
+
+// A named branch of the plan that is edited independently of the others
+export interface Scenario {
+  name: string;
+  createdAt: PlainDate;
+  basedOn?: string; // name of the scenario it was branched from
+  plan: ProjectPlan;
+}
+
+export interface ImportedProject {
+  rawTasks: RawTask[];
+  schedule: Schedule;
+  calendar: WorkCalendar;
+  resources: Resource[];
+  leveling: LevelingOptions;
+  mode: ScheduleMode;
+  baselines: Baseline[];
+  budget?: number; // the budget of the whole project, compared against its planned cost
+}
+
+export interface CriticalPathInfo {
+  earlyStart: PlainDate;
+  earlyFinish: PlainDate;
+  lateStart: PlainDate;
+  lateFinish: PlainDate;
+  totalFloat: number; // working days
+  freeFloat: number; // working days
+  isCritical: boolean;
 }
@@ -0,0 +1,55 @@
+import type { Baseline, ImportedProject, PlainDate, ProjectPlan, RawTask, Schedule, ScheduleChanges, ScheduleOptions, Task } from './types';
+import type { ResourceSummary } from './summary';
+import type { EarnedValueReport } from './earned-value';
+import type { CostReport } from './costs';
+import type { SimulationResult, SimulationSettings } from './risk-analysis';
+import type { ScenarioComparison } from './scenarios';
+
+// Messages between the page and the schedule worker. Every request carries an id that its
+// progress, result or error messages repeat, so several requests can be in flight at once.
+
+// Options as they cross to the worker; callbacks cannot be sent, progress comes back as messages instead
+export type WorkerScheduleOptions = Omit<ScheduleOptions, 'onProgress'>;
+
+export type ScheduleWorkerRequest =
+  | { id: number; type: 'import'; csvText: string }
+  | { id: number; type: 'schedule'; rawTasks: RawTask[]; options: WorkerScheduleOptions }
+  | { id: number; type: 'reschedule'; previous: Schedule; rawTasks: RawTask[]; changedIds: string[]; options: WorkerScheduleOptions }
+  | { id: number; type: 'summarize'; tasks: Task[]; options: WorkerScheduleOptions; baseline?: Baseline }
+  | { id: number; type: 'costs'; tasks: Task[]; options: WorkerScheduleOptions }
+  | { id: number; type: 'earnedValue'; tasks: Task[]; statusDate: PlainDate; options: WorkerScheduleOptions; baseline?: Baseline }
+  | { id: number; type: 'simulate'; rawTasks: RawTask[]; options: WorkerScheduleOptions; settings: SimulationSettings }
+  | { id: number; type: 'compare'; first: ProjectPlan; second: ProjectPlan };
+
+export type ScheduleWorkerRequestType = ScheduleWorkerRequest['type'];
+
+// What each type of request resolves to
+export interface ScheduleWorkerResults {
+  import: ImportedProject;
+  schedule: Schedule;
+  reschedule: ScheduleChanges;
+  summarize: [string, ResourceSummary][];
+  costs: CostReport;
+  earnedValue: EarnedValueReport;
+  simulate: SimulationResult;
+  compare: ScenarioComparison;
+}
+
+export interface WorkProgress {
+  phase: 'parsing' | 'scheduling' | 'simulating';
+  done: number; // rows parsed, tasks scheduled or iterations run so far
+  total: number;
+}
+
+export type ScheduleWorkerResponse =
+  | { id: number; type: 'progress'; progress: WorkProgress }
+  | { id: number; type: 'result'; result: ScheduleWorkerResults[ScheduleWorkerRequestType] }
+  | { id: number; type: 'error'; message: string; cycle?: string[] }; // cycle is set for circular dependencies
+
+// Rejects requests that were still running when the worker was stopped, e.g. because another file was picked
+export class WorkCancelledError extends Error {
+  constructor() {
+    super('The work was cancelled.');
+    this.name = 'WorkCancelledError';
+  }
+}
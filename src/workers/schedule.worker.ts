@@ -0,0 +1,69 @@
+// Parses, schedules and summarizes projects off the main thread, so large files do not freeze the page.
+import type { ScheduleWorkerRequest, ScheduleWorkerResponse, ScheduleWorkerResults, WorkProgress } from '@/lib/worker-protocol';
+import { parseProjectCsv } from '@/lib/csv-import';
+import { scheduleProject } from '@/lib/task-utils';
+import { rescheduleTasks } from '@/lib/incremental';
+import { summarizeResources } from '@/lib/summary';
+import { calculateEarnedValue } from '@/lib/earned-value';
+import { calculateCosts } from '@/lib/costs';
+import { simulateSchedule } from '@/lib/risk-analysis';
+import { compareSchedules } from '@/lib/scenarios';
+import { CircularDependencyError } from '@/lib/topology';
+
+// Progress is posted every so many rows or tasks rather than for each one, which would flood the page with messages
+const PROGRESS_INTERVAL = 100;
+
+const post = (response: ScheduleWorkerResponse) => self.postMessage(response);
+
+const createProgressReporter = (id: number, phase: WorkProgress['phase'], interval = PROGRESS_INTERVAL) => (done: number, total: number) => {
+  if (done % interval === 0 || done === total) {
+    post({ id, type: 'progress', progress: { phase, done, total } });
+  }
+};
+
+const handleRequest = (request: ScheduleWorkerRequest): ScheduleWorkerResults[ScheduleWorkerRequest['type']] => {
+  switch (request.type) {
+    case 'import': {
+      const project = parseProjectCsv(request.csvText, createProgressReporter(request.id, 'parsing'));
+      const { calendar, resources, leveling, mode } = project;
+      const onProgress = createProgressReporter(request.id, 'scheduling');
+      return { ...project, schedule: scheduleProject(project.rawTasks, { calendar, resources, leveling, mode, onProgress }) };
+    }
+    case 'schedule':
+      return scheduleProject(request.rawTasks, request.options);
+    case 'reschedule':
+      return rescheduleTasks(request.previous, request.rawTasks, request.changedIds, request.options);
+    case 'summarize':
+      return summarizeResources(request.tasks, request.options, request.baseline);
+    case 'costs':
+      return calculateCosts(request.tasks, request.options);
+    case 'earnedValue':
+      return calculateEarnedValue(request.tasks, request.statusDate, request.options, request.baseline);
+    case 'simulate':
+      // Each iteration schedules the whole project, so every one of them is reported
+      return simulateSchedule(request.rawTasks, request.options, request.settings, createProgressReporter(request.id, 'simulating', 1));
+    case 'compare': {
+      const { rawTasks: firstTasks, ...firstOptions } = request.first;
+      const { rawTasks: secondTasks, ...secondOptions } = request.second;
+      return compareSchedules(
+        scheduleProject(firstTasks, firstOptions).tasks,
+        scheduleProject(secondTasks, secondOptions).tasks,
+        firstOptions.calendar,
+      );
+    }
+  }
+};
+
+self.onmessage = (event: MessageEvent<ScheduleWorkerRequest>) => {
+  const request = event.data;
+  try {
+    post({ id: request.id, type: 'result', result: handleRequest(request) });
+  } catch (error: any) {
+    post({
+      id: request.id,
+      type: 'error',
+      message: error.message,
+      cycle: error instanceof CircularDependencyError ? error.cycle : undefined,
+    });
+  }
+};